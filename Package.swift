@@ -58,6 +58,7 @@ let package = Package(
             dependencies: [
                 "SwiftralinoCore",
                 "SwiftralinoPlatform",
+                "SwiftralinoAPI",
                 .product(name: "Vapor", package: "vapor"),
             ],
             path: "Sources/Swiftralino"
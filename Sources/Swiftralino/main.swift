@@ -1,6 +1,7 @@
 import Foundation
 import SwiftralinoCore
 import SwiftralinoPlatform
+import SwiftralinoAPI
 
 #if canImport(Cocoa)
 import Cocoa
@@ -96,6 +97,7 @@ struct SwiftralinoDemo {
         // Launch the Swiftralino application in background
         Task {
             do {
+                try await registerConfiguredPlugins(with: swiftralinoApp)
                 try await swiftralinoApp.launch()
                 
                 print("\n✅ Application running. Press Ctrl+C to quit.")
@@ -155,6 +157,7 @@ struct SwiftralinoDemo {
         
         do {
             // Launch the application
+            try await registerConfiguredPlugins(with: app)
             try await app.launch()
             
             print("\n✅ Application running. Press Ctrl+C to quit.")
@@ -181,6 +184,19 @@ struct SwiftralinoDemo {
     }
     #endif
     
+    // MARK: - Plugins
+    
+    /// Serve the plugin APIs (clipboard, dialog, shell, ...) listed under `plugins` in
+    /// `swiftralino.json`; without the file, or with an empty list, none are served
+    static func registerConfiguredPlugins(with app: SwiftralinoApp) async throws {
+        guard FileManager.default.fileExists(atPath: "swiftralino.json") else {
+            return
+        }
+        let registry = PluginRegistry(configuration: try SwiftralinoConfig.load())
+        try await registry.loadPlugins()
+        await app.registerAPIs(await registry.getAPIs())
+    }
+    
     // MARK: - Certificate Management
     
     /// Check for existing certificates and their configuration
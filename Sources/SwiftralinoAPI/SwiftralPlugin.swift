@@ -90,14 +90,11 @@ public actor PluginRegistry {
         self.pluginDirectory = pluginDirectory
     }
     
-    /// Load all configured plugins
+    /// Load the plugins listed in the configuration
+    /// Built-in plugins are opt-in too, since they reach the clipboard, dialogs and the shell
     public func loadPlugins() async throws {
         print("📦 Loading Swiftralino plugins...")
         
-        // Load built-in plugins
-        try await loadBuiltinPlugins()
-        
-        // Load external plugins
         for pluginId in configuration.plugins {
             try await loadPlugin(identifier: pluginId)
         }
@@ -171,19 +168,9 @@ public actor PluginRegistry {
         return Array(loadedPlugins.keys)
     }
     
-    /// Load built-in plugins
-    private func loadBuiltinPlugins() async throws {
-        let builtinPlugins = [
-            "notification",
-            "clipboard",
-            "dialog",
-            "shell",
-            "updater"
-        ]
-        
-        for pluginId in builtinPlugins {
-            try await loadPlugin(identifier: pluginId)
-        }
+    /// All APIs of the loaded plugins, to register with the message handler
+    public func getAPIs() -> [SwiftralinoAPI] {
+        return Array(pluginAPIs.values)
     }
     
     /// Create built-in plugin instances
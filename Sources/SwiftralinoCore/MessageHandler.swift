@@ -16,10 +16,14 @@ public actor MessageHandler {
     
     // MARK: - Initialization
     
-    public init() {
+    /// - Parameter apis: APIs served next to the built-in ones, e.g. from loaded plugins
+    public init(apis: [SwiftralinoAPI] = []) {
         self.apiRegistry = APIRegistry()
         Task {
             await setupDefaultAPIs()
+            for api in apis {
+                await apiRegistry.register(api)
+            }
         }
     }
     
@@ -204,7 +208,54 @@ public struct FileSystemAPI: SwiftralinoAPI {
             guard let path = parameters["path"]?.value as? String else {
                 throw APIError.missingParameter("path")
             }
-            return try await readFile(path: path)
+            let encoding = parameters["encoding"]?.value as? String
+            return try await readFile(path: path, encoding: encoding)
+            
+        case "writeFile", "appendFile":
+            guard let path = parameters["path"]?.value as? String,
+                  let content = parameters["content"]?.value as? String else {
+                throw APIError.missingParameter("path or content")
+            }
+            let data = try decodeContent(content, encoding: parameters["encoding"]?.value as? String)
+            if operation == "appendFile" {
+                return try appendFile(path: path, data: data)
+            }
+            let createDirectories = (parameters["createDirectories"]?.value as? Bool) ?? false
+            return try writeFile(path: path, data: data, createDirectories: createDirectories)
+            
+        case "mkdir":
+            guard let path = parameters["path"]?.value as? String else {
+                throw APIError.missingParameter("path")
+            }
+            let recursive = (parameters["recursive"]?.value as? Bool) ?? false
+            return try makeDirectory(path: path, recursive: recursive)
+            
+        case "rename", "copy":
+            guard let from = parameters["from"]?.value as? String,
+                  let to = parameters["to"]?.value as? String else {
+                throw APIError.missingParameter("from or to")
+            }
+            let overwrite = (parameters["overwrite"]?.value as? Bool) ?? false
+            return try moveOrCopy(from: from, to: to, overwrite: overwrite, copy: operation == "copy")
+            
+        case "remove":
+            guard let path = parameters["path"]?.value as? String else {
+                throw APIError.missingParameter("path")
+            }
+            let recursive = (parameters["recursive"]?.value as? Bool) ?? false
+            return try remove(path: path, recursive: recursive)
+            
+        case "stat":
+            guard let path = parameters["path"]?.value as? String else {
+                throw APIError.missingParameter("path")
+            }
+            return try entry(atPath: path)
+            
+        case "exists":
+            guard let path = parameters["path"]?.value as? String else {
+                throw APIError.missingParameter("path")
+            }
+            return ["exists": itemExists(atPath: path)]
             
         default:
             throw APIError.unsupportedOperation(operation)
@@ -217,9 +268,136 @@ public struct FileSystemAPI: SwiftralinoAPI {
         return ["files": contents]
     }
     
-    private func readFile(path: String) async throws -> [String: Any] {
+    /// `base64` returns the raw bytes, for binary files
+    private func readFile(path: String, encoding: String?) async throws -> [String: Any] {
+        if encoding == "base64" {
+            let data = try Data(contentsOf: URL(fileURLWithPath: path))
+            return ["content": data.base64EncodedString(), "encoding": "base64"]
+        }
         let content = try String(contentsOfFile: path, encoding: .utf8)
-        return ["content": content]
+        return ["content": content, "encoding": "utf8"]
+    }
+    
+    private func decodeContent(_ content: String, encoding: String?) throws -> Data {
+        guard encoding == "base64" else {
+            return Data(content.utf8)
+        }
+        guard let data = Data(base64Encoded: content) else {
+            throw APIError.executionFailed("Content is not valid base64")
+        }
+        return data
+    }
+    
+    private func writeFile(path: String, data: Data, createDirectories: Bool) throws -> [String: Any] {
+        let url = URL(fileURLWithPath: path)
+        if createDirectories {
+            try FileManager.default.createDirectory(
+                at: url.deletingLastPathComponent(),
+                withIntermediateDirectories: true
+            )
+        }
+        try data.write(to: url)
+        return try entry(atPath: path)
+    }
+    
+    private func appendFile(path: String, data: Data) throws -> [String: Any] {
+        guard let handle = FileHandle(forWritingAtPath: path) else {
+            // Like writeFile when there is nothing to append to yet
+            return try writeFile(path: path, data: data, createDirectories: false)
+        }
+        defer { try? handle.close() }
+        try handle.seekToEnd()
+        try handle.write(contentsOf: data)
+        return try entry(atPath: path)
+    }
+    
+    private func makeDirectory(path: String, recursive: Bool) throws -> [String: Any] {
+        // createDirectory with intermediates accepts existing directories; the protocol does not
+        if itemExists(atPath: path) {
+            throw APIError.executionFailed("File exists: \(path)")
+        }
+        try FileManager.default.createDirectory(atPath: path, withIntermediateDirectories: recursive)
+        return try entry(atPath: path)
+    }
+    
+    /// Refuses to replace `to` unless asked to, and to move a directory into itself
+    private func moveOrCopy(from: String, to: String, overwrite: Bool, copy: Bool) throws -> [String: Any] {
+        let fileManager = FileManager.default
+        let source = (from as NSString).standardizingPath
+        let target = (to as NSString).standardizingPath
+        _ = try fileManager.attributesOfItem(atPath: source)
+        if target == source || target.hasPrefix(source.hasSuffix("/") ? source : source + "/") {
+            throw APIError.executionFailed("Cannot move \(source) into itself")
+        }
+        if itemExists(atPath: target) {
+            guard overwrite else {
+                throw APIError.executionFailed("File exists: \(target)")
+            }
+            try fileManager.removeItem(atPath: target)
+        }
+        if copy {
+            try fileManager.copyItem(atPath: source, toPath: target)
+        } else {
+            try fileManager.moveItem(atPath: source, toPath: target)
+        }
+        return try entry(atPath: target)
+    }
+    
+    /// Non-empty directories are only removed with `recursive`
+    private func remove(path: String, recursive: Bool) throws -> [String: Any] {
+        let fileManager = FileManager.default
+        let target = (path as NSString).standardizingPath
+        if target == "/" {
+            throw APIError.executionFailed("Cannot remove /")
+        }
+        let attributes = try fileManager.attributesOfItem(atPath: target)
+        if (attributes[.type] as? FileAttributeType) == .typeDirectory, !recursive,
+           try !fileManager.contentsOfDirectory(atPath: target).isEmpty {
+            throw APIError.executionFailed("Directory not empty: \(target)")
+        }
+        try fileManager.removeItem(atPath: target)
+        return ["success": true]
+    }
+    
+    /// Unlike `fileExists(atPath:)`, counts dangling symlinks as existing
+    private func itemExists(atPath path: String) -> Bool {
+        return (try? FileManager.default.attributesOfItem(atPath: path)) != nil
+    }
+    
+    /// The entry as the web client's `fileEntry` schema describes it; symlinks are not followed
+    private func entry(atPath path: String) throws -> [String: Any] {
+        let attributes = try FileManager.default.attributesOfItem(atPath: path)
+        let name = path == "/" ? "/" : (path as NSString).lastPathComponent
+        let type: String
+        switch attributes[.type] as? FileAttributeType {
+        case .typeRegular?:
+            type = "file"
+        case .typeDirectory?:
+            type = "directory"
+        case .typeSymbolicLink?:
+            type = "symlink"
+        default:
+            type = "other"
+        }
+        let mode = (attributes[.posixPermissions] as? NSNumber)?.intValue ?? 0
+        return [
+            "name": name,
+            "path": path,
+            "type": type,
+            "size": (attributes[.size] as? NSNumber)?.intValue ?? 0,
+            // Seconds since 1970, like every backend timestamp
+            "modified": (attributes[.modificationDate] as? Date)?.timeIntervalSince1970 ?? 0,
+            "permissions": permissionString(mode),
+            "hidden": name.hasPrefix(".")
+        ]
+    }
+    
+    /// POSIX style, e.g. `rwxr-xr-x`
+    private func permissionString(_ mode: Int) -> String {
+        let symbols: [Character] = ["r", "w", "x"]
+        return String((0..<9).map { bit in
+            mode & (1 << (8 - bit)) != 0 ? symbols[bit % 3] : "-"
+        })
     }
 }
 
@@ -21,6 +21,7 @@ public actor SwiftralinoApp {
     private let configuration: AppConfiguration
     private var webServer: WebServer?
     private var webViewManager: WebViewManagerProtocol?
+    private var additionalAPIs: [SwiftralinoAPI] = []
     private var isRunning = false
     private var launchTask: Task<Void, Error>?
     
@@ -46,7 +47,7 @@ public actor SwiftralinoApp {
         print("🚀 Starting Swiftralino application...")
         
         // Initialize and start the web server
-        webServer = WebServer(configuration: configuration.server)
+        webServer = WebServer(configuration: configuration.server, apis: additionalAPIs)
         try await webServer?.start()
         
         // Initialize WebView manager if available
@@ -99,6 +100,13 @@ public actor SwiftralinoApp {
         self.webViewManager = webViewManager
     }
     
+    /// Serve additional APIs, e.g. those of loaded plugins, next to the built-in ones
+    /// Takes effect on the next launch
+    /// - Parameter apis: The APIs to register with the message handler
+    public func registerAPIs(_ apis: [SwiftralinoAPI]) {
+        additionalAPIs.append(contentsOf: apis)
+    }
+    
     // MARK: - Private Methods
     
     /// Connect WebView to WebSocket server
@@ -19,10 +19,12 @@ public actor WebServer {
     // MARK: - Initialization
     
     /// Initialize the WebSocket server
-    /// - Parameter configuration: Server configuration settings
-    public init(configuration: ServerConfiguration) {
+    /// - Parameters:
+    ///   - configuration: Server configuration settings
+    ///   - apis: APIs served next to the built-in ones
+    public init(configuration: ServerConfiguration, apis: [SwiftralinoAPI] = []) {
         self.configuration = configuration
-        self.messageHandler = MessageHandler()
+        self.messageHandler = MessageHandler(apis: apis)
     }
     
     // MARK: - Public Interface
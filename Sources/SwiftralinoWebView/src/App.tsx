@@ -1,8 +1,23 @@
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MutationCache, QueryCache, QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { SwiftralinoProvider } from './lib/swiftralino-context';
+import { useErrorStore } from './lib/swiftralino-error-store';
 import { MainLayout } from './components/MainLayout';
 
-const queryClient = new QueryClient();
+// Queries and mutations name their reporter through `meta.source`
+const reportQueryError = (error: unknown, meta: Record<string, unknown> | undefined) => {
+  const source = typeof meta?.source === 'string' ? meta.source : 'Swiftralino';
+  useErrorStore.getState().reportError(source, error);
+};
+
+const queryClient = new QueryClient({
+  queryCache: new QueryCache({
+    onError: (error, query) => reportQueryError(error, query.meta),
+  }),
+  mutationCache: new MutationCache({
+    onError: (error, _variables, _context, mutation) =>
+      reportQueryError(error, mutation.options.meta),
+  }),
+});
 
 function App() {
   return (
@@ -0,0 +1,290 @@
+import { isAbsolute, resolve } from 'node:path';
+import process from 'node:process';
+import { pathToFileURL } from 'node:url';
+import { WebSocketSwiftralinoClient } from '../lib/swiftralino-client';
+import { TransportError, UnknownActionError } from '../lib/swiftralino-errors';
+import { type APIAction, type APIOperation, getParamsShape } from '../lib/swiftralino-protocol';
+import { globalWebSocket, randomId } from '../lib/swiftralino-runtime';
+import type { CapabilityManifest, SwiftralinoWebSocketConstructor } from '@/types/swiftralino';
+
+// `npm run swiftralino-ts -- <command>`, or `bun src/cli/swiftralino-ts.ts`.
+// Talks to any bridge backend, so CI can smoke-test the Swift server or the
+// reference one in src/server.
+
+const USAGE = `Usage: swiftralino-ts [options] <command>
+
+Commands:
+  ping                                  Round trip to the backend
+  status                                Version, protocol, APIs and capabilities
+  call <action> <operation> [--param value ...]
+                                        Call an API, e.g. call filesystem readDirectory --path .
+                                        Values are read as JSON when they parse, so
+                                        --args '["-l"]' passes an array
+
+Options:
+  --url <url>        Bridge URL (default: $SWIFTRALINO_URL or ws://127.0.0.1:8080/bridge)
+  --token <token>    Bridge token (default: $SWIFTRALINO_TOKEN)
+  --timeout <ms>     Per request timeout (default: 10000)
+  --json             Print raw JSON only
+  --websocket-module <module>
+                     Module exporting the WebSocket class, e.g. ws (default: the
+                     runtime's WebSocket, or ws on Node 20 and older)
+  --help             Show this help`;
+
+const DEFAULT_URL = 'ws://127.0.0.1:8080/bridge';
+const DEFAULT_TIMEOUT = 10000;
+
+// Exit codes
+const FAILED = 1;
+const USAGE_ERROR = 2;
+
+class UsageError extends Error {}
+
+interface CliOptions {
+  url: string;
+  token: string | undefined;
+  timeout: number;
+  json: boolean;
+  webSocketModule: string | undefined;
+  help: boolean;
+  command: string[];
+  params: Record<string, string | true>;
+}
+
+// Options before the command are global; `--name value` pairs after it are params
+const parseArguments = (args: string[]): CliOptions => {
+  const options: CliOptions = {
+    url: process.env.SWIFTRALINO_URL || DEFAULT_URL,
+    token: process.env.SWIFTRALINO_TOKEN || undefined,
+    timeout: DEFAULT_TIMEOUT,
+    json: false,
+    webSocketModule: undefined,
+    help: false,
+    command: [],
+    params: {},
+  };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      options.command.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    const next = args[i + 1];
+    const value = next !== undefined && !next.startsWith('--') ? next : undefined;
+    if (options.command.length > 0) {
+      options.params[name] = value ?? true;
+      i += value === undefined ? 0 : 1;
+      continue;
+    }
+    switch (name) {
+      case 'json':
+        options.json = true;
+        break;
+      case 'help':
+        options.help = true;
+        break;
+      case 'url':
+      case 'token':
+      case 'timeout':
+      case 'websocket-module':
+        if (value === undefined) {
+          throw new UsageError(`--${name} needs a value`);
+        }
+        if (name === 'timeout') {
+          options.timeout = Number(value);
+        } else if (name === 'websocket-module') {
+          options.webSocketModule = value;
+        } else {
+          options[name] = value;
+        }
+        i++;
+        break;
+      default:
+        throw new UsageError(`Unknown option --${name}`);
+    }
+  }
+  return options;
+};
+
+// JSON when it parses and fits the protocol's schema for the param, the raw
+// string otherwise, so `--path 123` stays a path
+const parseParams = (
+  action: string,
+  operation: string,
+  params: CliOptions['params']
+): Record<string, unknown> => {
+  const shape = getParamsShape(action, operation) ?? {};
+  return Object.fromEntries(
+    Object.entries(params).map(([key, raw]) => {
+      if (raw === true) {
+        return [key, true];
+      }
+      try {
+        const parsed: unknown = JSON.parse(raw);
+        const schema = shape[key];
+        const fits = !schema || schema.validate(parsed, key).length === 0;
+        return [key, fits ? parsed : raw];
+      } catch (_error) {
+        return [key, raw];
+      }
+    })
+  );
+};
+
+// Node 20 and older have no global WebSocket; `ws`, or any module exporting a
+// compatible class as `WebSocket` or default, stands in
+const loadWebSocket = async (
+  specifier: string | undefined
+): Promise<SwiftralinoWebSocketConstructor> => {
+  const builtIn = globalWebSocket();
+  if (builtIn && specifier === undefined) {
+    return builtIn;
+  }
+  const name = specifier ?? 'ws';
+  // Paths are relative to where the CLI runs, not to this file
+  const target =
+    name.startsWith('.') || isAbsolute(name) ? pathToFileURL(resolve(name)).href : name;
+  let loaded: Record<string, unknown>;
+  try {
+    loaded = await import(target);
+  } catch (_error) {
+    throw new TransportError(
+      specifier === undefined
+        ? 'This runtime has no global WebSocket and ws is not installed; run npm install or pass --websocket-module'
+        : `Cannot load the WebSocket module ${name}`,
+      { action: 'connect' }
+    );
+  }
+  const webSocket = loaded.WebSocket ?? loaded.default;
+  if (typeof webSocket !== 'function') {
+    throw new TransportError(`${name} exports no WebSocket class`, { action: 'connect' });
+  }
+  return webSocket as SwiftralinoWebSocketConstructor;
+};
+
+const print = (value: unknown) => process.stdout.write(`${value}\n`);
+const printJson = (value: unknown) => print(JSON.stringify(value, null, 2));
+
+const fetchCapabilities = async (
+  client: WebSocketSwiftralinoClient
+): Promise<CapabilityManifest | null> => {
+  try {
+    const response = await client.sendMessage<CapabilityManifest>({
+      id: randomId(),
+      type: 'system',
+      action: 'capabilities',
+    });
+    return response.data ?? null;
+  } catch (error) {
+    // Backends without a manifest allow everything
+    if (error instanceof UnknownActionError) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+const ping = async (client: WebSocketSwiftralinoClient, options: CliOptions) => {
+  const startedAt = Date.now();
+  const response = await client.ping();
+  const latency = Date.now() - startedAt;
+  if (options.json) {
+    printJson({ latency, ...response.data });
+  } else {
+    print(`pong from ${options.url} in ${latency} ms`);
+  }
+};
+
+const status = async (client: WebSocketSwiftralinoClient, options: CliOptions) => {
+  const startedAt = Date.now();
+  const version = (await client.version()).data;
+  const latency = Date.now() - startedAt;
+  const description = await client.describe();
+  const capabilities = await fetchCapabilities(client);
+  if (options.json) {
+    printJson({ url: options.url, latency, version, description, capabilities });
+    return;
+  }
+  print(`URL        ${options.url}`);
+  print(`Backend    ${version?.version ?? '?'} (${version?.platform ?? '?'})`);
+  print(`Latency    ${latency} ms`);
+  if (description) {
+    print(`Protocol   ${description.protocolVersion}`);
+    Object.entries(description.apis).forEach(([action, operations]) =>
+      print(`API        ${action}: ${operations.join(', ')}`)
+    );
+    description.plugins.forEach((plugin) => print(`Plugin     ${plugin.name} ${plugin.version}`));
+  } else {
+    print('Protocol   not described by the backend');
+  }
+  print(`Granted    ${capabilities ? capabilities.granted.join(', ') || 'nothing' : 'everything'}`);
+  capabilities?.paths?.forEach((path) => print(`Path       ${path}`));
+  capabilities?.commands?.forEach((command) => print(`Command    ${command}`));
+};
+
+const call = async (client: WebSocketSwiftralinoClient, options: CliOptions) => {
+  const [, action, operation] = options.command;
+  if (!action || !operation) {
+    throw new UsageError('call needs an action and an operation');
+  }
+  const params = parseParams(action, operation, options.params);
+  // Any action goes, the backend decides what it serves
+  const response = await client.call(
+    action as APIAction,
+    operation as APIOperation<APIAction>,
+    params as never
+  );
+  printJson(response.data);
+};
+
+const COMMANDS: Record<
+  string,
+  (client: WebSocketSwiftralinoClient, options: CliOptions) => Promise<void>
+> = { ping, status, call };
+
+const run = async (args: string[]): Promise<number> => {
+  const options = parseArguments(args);
+  const [name] = options.command;
+  if (options.help || !name) {
+    print(USAGE);
+    return options.help ? 0 : USAGE_ERROR;
+  }
+  const command = COMMANDS[name];
+  if (!command) {
+    throw new UsageError(`Unknown command ${name}`);
+  }
+  const webSocket = await loadWebSocket(options.webSocketModule);
+
+  const client = new WebSocketSwiftralinoClient({
+    wsUrl: options.url,
+    webSocket,
+    reconnectAttempts: 0,
+    reconnectDelay: 0,
+    queueWhileDisconnected: false,
+    requestTimeout: options.timeout,
+    heartbeat: { interval: 0 },
+    tracing: { bufferSize: 0 },
+    auth: options.token ? { token: options.token } : undefined,
+  });
+  await client.connect();
+  try {
+    await command(client, options);
+  } finally {
+    client.disconnect();
+  }
+  return 0;
+};
+
+run(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error: unknown) => {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+      process.exit(USAGE_ERROR);
+    }
+    const message = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+    process.stderr.write(`${message}\n`);
+    process.exit(FAILED);
+  }
+);
@@ -0,0 +1,39 @@
+import React from 'react';
+import { useSwiftralinoConnections } from '@/lib/swiftralino-context';
+
+const STATUS_ICONS = {
+  connected: '🟢',
+  connecting: '🟡',
+  disconnected: '🔴',
+  error: '⚠️',
+} as const;
+
+// Picks the backend the panels talk to; hidden with a single backend
+export const BackendSwitcher: React.FC = () => {
+  const { connections, activeConnection, setActiveConnection } = useSwiftralinoConnections();
+
+  if (connections.length <= 1) {
+    return null;
+  }
+
+  return (
+    <div className='flex flex-wrap justify-center gap-2 mt-4' role='tablist'>
+      {connections.map(({ name, connectionStatus }) => (
+        <button
+          key={name}
+          role='tab'
+          aria-selected={name === activeConnection}
+          onClick={() => setActiveConnection(name)}
+          className={`px-4 py-2 rounded-lg transition-colors ${
+            name === activeConnection
+              ? 'bg-blue-600 text-white'
+              : 'bg-white/10 text-gray-300 hover:bg-white/20'
+          }`}
+        >
+          <span className='mr-2'>{STATUS_ICONS[connectionStatus]}</span>
+          {name}
+        </button>
+      ))}
+    </div>
+  );
+};
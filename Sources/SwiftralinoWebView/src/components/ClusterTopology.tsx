@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { platformStatus } from '@/lib/swiftralino-cluster';
+import { useClusterTopology } from '@/lib/swiftralino-hooks';
+
+const STATUS_STYLES = {
+  up: { icon: '🟢', label: 'Up', border: 'border-green-500/40' },
+  unreachable: { icon: '🔴', label: 'Unreachable', border: 'border-red-500/60' },
+} as const;
+
+// Often enough for the "seen 5s ago" labels
+const CLOCK_INTERVAL = 5000;
+
+const formatLastSeen = (lastSeen: number | undefined, now: number): string => {
+  if (lastSeen === undefined) {
+    return 'unknown';
+  }
+  const seconds = Math.max(0, Math.round(now / 1000 - lastSeen));
+  if (seconds < 5) {
+    return 'just now';
+  }
+  if (seconds < 60) {
+    return `${seconds}s ago`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m ago`;
+  }
+  return new Date(lastSeen * 1000).toLocaleString();
+};
+
+// Members of the cluster as the backend reports them, updated live by
+// membership events
+export const ClusterTopology: React.FC = () => {
+  const { platforms, isLoading, error } = useClusterTopology({
+    meta: { source: 'Cluster Topology' },
+  });
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const unreachable = platforms.filter((platform) => platformStatus(platform) !== 'up').length;
+
+  return (
+    <div>
+      <div className='flex justify-between items-center mb-3'>
+        <h4 className='text-lg font-semibold text-white'>
+          Cluster Topology ({platforms.length - unreachable}/{platforms.length} up)
+        </h4>
+        <span className='text-gray-400 text-xs'>Live</span>
+      </div>
+
+      {error && <div className='text-red-300 text-sm mb-2'>{error.message}</div>}
+
+      {platforms.length > 0 ? (
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-3'>
+          {platforms.map((platform) => {
+            const style = STATUS_STYLES[platformStatus(platform)];
+            return (
+              <div
+                key={platform.id}
+                className={`bg-black/20 rounded-lg p-3 border ${style.border}`}
+              >
+                <div className='flex justify-between items-center'>
+                  <span className='text-white font-medium'>{platform.deviceName}</span>
+                  <span className='text-sm text-gray-300'>
+                    {style.icon} {style.label}
+                  </span>
+                </div>
+                <div className='text-gray-400 text-sm'>
+                  {platform.platform} {platform.version}
+                </div>
+                <div className='text-gray-400 text-xs'>
+                  Capabilities: {platform.capabilities.join(', ') || 'none'}
+                </div>
+                <div className='text-gray-500 text-xs mt-1'>
+                  Last seen: {formatLastSeen(platform.lastSeen, now)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className='text-gray-400 italic'>
+          {isLoading ? 'Loading platforms...' : 'No platforms connected'}
+        </div>
+      )}
+    </div>
+  );
+};
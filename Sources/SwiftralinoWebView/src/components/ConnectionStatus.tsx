@@ -1,47 +1,74 @@
 import React from 'react';
+import { type SwiftralinoConnection, useSwiftralinoConnections } from '@/lib/swiftralino-context';
 
-interface ConnectionStatusProps {
-  status: 'connecting' | 'connected' | 'disconnected' | 'error';
-}
+// `target` names the backend in the status text
+const getStatusDisplay = (
+  { connectionStatus, connectionQuality }: SwiftralinoConnection,
+  target: string
+) => {
+  const latency =
+    connectionQuality.averageLatency != null ? ` (${connectionQuality.averageLatency} ms)` : '';
 
-export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({ status }) => {
-  const getStatusDisplay = () => {
-    switch (status) {
-      case 'connected':
+  switch (connectionStatus) {
+    case 'connected':
+      if (connectionQuality.quality === 'degraded' || connectionQuality.quality === 'stale') {
         return {
-          icon: '✅',
-          text: 'Connected to Swift backend',
-          className: 'bg-green-500/80',
+          icon: '🐢',
+          text: `Degraded connection to ${target}${latency}`,
+          className: 'bg-orange-500/80',
         };
-      case 'disconnected':
-        return {
-          icon: '❌',
-          text: 'Disconnected from Swift backend',
-          className: 'bg-red-500/80',
-        };
-      case 'connecting':
-        return {
-          icon: '🔄',
-          text: 'Connecting to Swift backend...',
-          className: 'bg-yellow-500/80 animate-pulse',
-        };
-      case 'error':
-        return {
-          icon: '⚠️',
-          text: 'Connection error',
-          className: 'bg-red-500/80',
-        };
-    }
-  };
+      }
+      return {
+        icon: '✅',
+        text: `Connected to ${target}${latency}`,
+        className: 'bg-green-500/80',
+      };
+    case 'disconnected':
+      return {
+        icon: '❌',
+        text: `Disconnected from ${target}`,
+        className: 'bg-red-500/80',
+      };
+    case 'connecting':
+      return {
+        icon: '🔄',
+        text: `Connecting to ${target}...`,
+        className: 'bg-yellow-500/80 animate-pulse',
+      };
+    case 'error':
+      return {
+        icon: '⚠️',
+        text: `Connection error (${target})`,
+        className: 'bg-red-500/80',
+      };
+  }
+};
 
-  const statusDisplay = getStatusDisplay();
+// One pill per backend; with several, the active one is outlined
+export const ConnectionStatus: React.FC = () => {
+  const { connections, activeConnection } = useSwiftralinoConnections();
+  const single = connections.length <= 1;
 
   return (
-    <div
-      className={`inline-block px-4 py-2 rounded-full text-white font-medium ${statusDisplay.className}`}
-    >
-      <span className='mr-2'>{statusDisplay.icon}</span>
-      {statusDisplay.text}
+    <div className='flex flex-wrap justify-center gap-2'>
+      {connections.map((connection) => {
+        const statusDisplay = getStatusDisplay(
+          connection,
+          single ? 'Swift backend' : connection.name
+        );
+        const isActive = !single && connection.name === activeConnection;
+        return (
+          <div
+            key={connection.name}
+            className={`inline-block px-4 py-2 rounded-full text-white font-medium ${
+              statusDisplay.className
+            } ${isActive ? 'ring-2 ring-white' : ''}`}
+          >
+            <span className='mr-2'>{statusDisplay.icon}</span>
+            {statusDisplay.text}
+          </div>
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { isWithinPath } from '@/lib/swiftralino-files';
+import { useDirectoryEntries } from '@/lib/swiftralino-hooks';
+
+interface DirectoryTreeProps {
+  currentPath: string;
+  showHidden: boolean;
+  onNavigate: (path: string) => void;
+}
+
+interface TreeNodeProps extends DirectoryTreeProps {
+  name: string;
+  path: string;
+  depth: number;
+}
+
+const TreeNode: React.FC<TreeNodeProps> = ({ name, path, depth, ...treeProps }) => {
+  const { currentPath, showHidden, onNavigate } = treeProps;
+  // Nodes on the current path open by themselves until toggled by hand
+  const [pinned, setPinned] = useState<boolean | null>(null);
+  const expanded = pinned ?? isWithinPath(currentPath, path);
+  // Children load lazily, only once the node is expanded
+  const { data, isLoading } = useDirectoryEntries(expanded ? path : null, {
+    meta: { source: 'File Explorer' },
+  });
+  // Names-only listings do not say which entries are folders; the ones on
+  // the current path are
+  const directories = (data?.entries ?? []).filter(
+    (entry) =>
+      (data?.detailed ? entry.type === 'directory' : isWithinPath(currentPath, entry.path)) &&
+      (showHidden || !entry.hidden)
+  );
+
+  return (
+    <li>
+      <div
+        className={`flex items-center rounded ${
+          path === currentPath ? 'bg-white/20 text-white' : 'text-gray-300 hover:bg-white/10'
+        }`}
+        style={{ paddingLeft: `${depth * 0.75}rem` }}
+      >
+        <button
+          onClick={() => setPinned(!expanded)}
+          className='w-5 shrink-0 text-xs text-gray-400'
+          aria-label={expanded ? `Collapse ${name}` : `Expand ${name}`}
+        >
+          {expanded ? '▾' : '▸'}
+        </button>
+        <button
+          onClick={() => onNavigate(path)}
+          className='flex-1 truncate text-left text-sm py-0.5'
+          title={path}
+        >
+          📁 {name}
+        </button>
+      </div>
+      {expanded && isLoading && (
+        <div className='text-xs text-gray-500' style={{ paddingLeft: `${depth * 0.75 + 1.25}rem` }}>
+          Loading...
+        </div>
+      )}
+      {expanded && directories.length > 0 && (
+        <ul>
+          {directories.map((directory) => (
+            <TreeNode
+              key={directory.path}
+              name={directory.name}
+              path={directory.path}
+              depth={depth + 1}
+              {...treeProps}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+export const DirectoryTree: React.FC<DirectoryTreeProps> = (props) => (
+  <ul className='bg-black/20 rounded-lg p-2 max-h-96 overflow-auto'>
+    <TreeNode name='/' path='/' depth={0} {...props} />
+  </ul>
+);
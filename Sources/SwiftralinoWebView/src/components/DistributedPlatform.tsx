@@ -1,25 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useSwiftralino } from '@/lib/swiftralino-context';
+import { selectPlatforms } from '@/lib/swiftralino-cluster';
+import {
+  swiftralinoKeys,
+  useClusterTopology,
+  useDistributedStatus,
+  useSupports,
+  useSwiftralinoMutation,
+} from '@/lib/swiftralino-hooks';
+import type {
+  DistributedTargetResult,
+  DistributedTargetStatus,
+  PlatformSelector,
+} from '@/types/swiftralino';
+import { ClusterTopology } from './ClusterTopology';
+import { KeyValueBrowser } from './KeyValueBrowser';
+import { TargetPicker } from './TargetPicker';
+
+const RESULT_STYLES: Record<DistributedTargetStatus, { label: string; className: string }> = {
+  succeeded: { label: '✅ Success', className: 'bg-green-500/20 border border-green-500' },
+  failed: { label: '❌ Failed', className: 'bg-red-500/20 border border-red-500' },
+  'timed-out': { label: '⏱️ Timed out', className: 'bg-yellow-500/20 border border-yellow-500' },
+  unreachable: { label: '🔌 Unreachable', className: 'bg-gray-500/20 border border-gray-500' },
+};
 
-interface Platform {
-  id: string;
-  deviceName: string;
-  platform: string;
-  version: string;
-  capabilities: string[];
-}
-
-interface ExecutionResult {
-  platformId: string;
-  success: boolean;
-  output: string;
-  timestamp: number;
-}
+const DEFAULT_TARGET_TIMEOUT_SECONDS = 30;
 
 export const DistributedPlatform: React.FC = () => {
   const { client, isConnected } = useSwiftralino();
-  const [isInitialized, setIsInitialized] = useState(false);
-  const [platforms, setPlatforms] = useState<Platform[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -30,87 +38,42 @@ export const DistributedPlatform: React.FC = () => {
 
   // Execution state
   const [scriptToExecute, setScriptToExecute] = useState('print("Hello from all platforms!")');
-  const [executionResults, setExecutionResults] = useState<ExecutionResult[]>([]);
-
-  // Data sharing state
-  const [shareKey, setShareKey] = useState('');
-  const [shareData, setShareData] = useState('');
-  const [retrieveKey, setRetrieveKey] = useState('');
-  const [retrievedData, setRetrievedData] = useState<string | null>(null);
+  const [executionResults, setExecutionResults] = useState<DistributedTargetResult[]>([]);
+  const [selector, setSelector] = useState<PlatformSelector>({});
+  const [targetTimeout, setTargetTimeout] = useState(DEFAULT_TARGET_TIMEOUT_SECONDS);
 
   // Join cluster state
   const [joinEndpoint, setJoinEndpoint] = useState('');
 
-  // Check distributed status on mount
-  useEffect(() => {
-    if (client && isConnected) {
-      checkStatus();
-    }
-  }, [client, isConnected]);
-
-  const checkStatus = async () => {
-    if (!client || !isConnected) {
-      return;
-    }
-
-    try {
-      const response = await client.getDistributedStatus();
-      if (response.type === 'response' && response.data) {
-        setIsInitialized(response.data.initialized);
-        if (response.data.initialized) {
-          await refreshPlatforms();
-        }
-      }
-    } catch (error) {
-      // Failed to check distributed status - silently handle the error
-    }
-  };
-
-  const handleInitialize = async () => {
-    if (!client || !isConnected) {
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await client.initializeDistributed({
-        clusterName,
-        host,
-        port,
-      });
-
-      if (response.type === 'response') {
-        setIsInitialized(true);
-        await refreshPlatforms();
-      } else {
-        setError('Failed to initialize distributed cluster');
-      }
-    } catch (error) {
-      // Failed to initialize distributed cluster
-      setError(error instanceof Error ? error.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const refreshPlatforms = async () => {
-    if (!client || !isConnected || !isInitialized) {
+  const meta = { source: 'Distributed Platform' };
+  const { data: status } = useDistributedStatus({ meta });
+  const isInitialized = status?.initialized ?? false;
+  const { platforms } = useClusterTopology({ meta });
+  // Backends without executeOn can only run scripts everywhere
+  const canTarget = useSupports('distributed', 'executeOn');
+  const targets = canTarget ? selectPlatforms(platforms, selector) : platforms;
+  const hasKeyValueStore = useSupports('distributed', 'keys');
+
+  // Both change the cluster, so status and platforms are refetched afterwards
+  const initialize = useSwiftralinoMutation('distributed', 'initialize', {
+    meta,
+    invalidates: [swiftralinoKeys.action('distributed')],
+  });
+  const join = useSwiftralinoMutation('distributed', 'join', {
+    meta,
+    invalidates: [swiftralinoKeys.action('distributed')],
+    onSuccess: () => setJoinEndpoint(''),
+  });
+  const busy = loading || initialize.isPending || join.isPending;
+
+  const handleInitialize = () => {
+    if (!isConnected) {
       return;
     }
-
-    try {
-      const response = await client.getConnectedPlatforms();
-      if (response.type === 'response' && response.data) {
-        setPlatforms(response.data.platforms);
-      }
-    } catch (error) {
-      // Failed to refresh platforms - silently handle the error
-    }
+    initialize.mutate({ clusterName, host, port });
   };
 
-  const handleExecuteOnAll = async () => {
+  const handleExecute = async () => {
     if (!client || !isConnected || !scriptToExecute.trim()) {
       return;
     }
@@ -119,11 +82,21 @@ export const DistributedPlatform: React.FC = () => {
     setError(null);
 
     try {
-      const response = await client.executeOnAllPlatforms(scriptToExecute);
-      if (response.type === 'response' && response.data) {
-        setExecutionResults(response.data.results);
+      if (canTarget) {
+        const execution = await client.executeOn(selector, scriptToExecute, {
+          targetTimeout: targetTimeout * 1000,
+        });
+        setExecutionResults(execution.results);
       } else {
-        setError('Failed to execute script on platforms');
+        const response = await client.executeOnAllPlatforms(scriptToExecute);
+        setExecutionResults(
+          (response.data?.results ?? []).map(({ platformId, success, output, timestamp }) => ({
+            platformId,
+            status: success ? 'succeeded' : 'failed',
+            output,
+            timestamp,
+          }))
+        );
       }
     } catch (error) {
       // Failed to execute script
@@ -133,76 +106,11 @@ export const DistributedPlatform: React.FC = () => {
     }
   };
 
-  const handleShareData = async () => {
-    if (!client || !isConnected || !shareKey.trim() || !shareData.trim()) {
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await client.shareDataDistributed(shareKey, shareData);
-      if (response.type === 'response') {
-        // Clear the form on success
-        setShareKey('');
-        setShareData('');
-      } else {
-        setError('Failed to share data');
-      }
-    } catch (error) {
-      // Failed to share data
-      setError(error instanceof Error ? error.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleRetrieveData = async () => {
-    if (!client || !isConnected || !retrieveKey.trim()) {
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await client.retrieveDataDistributed(retrieveKey);
-      if (response.type === 'response' && response.data) {
-        setRetrievedData(response.data.data);
-      } else {
-        setError('Failed to retrieve data');
-      }
-    } catch (error) {
-      // Failed to retrieve data
-      setError(error instanceof Error ? error.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const handleJoinCluster = async () => {
-    if (!client || !isConnected || !joinEndpoint.trim()) {
+  const handleJoinCluster = () => {
+    if (!isConnected || !joinEndpoint.trim()) {
       return;
     }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      const response = await client.joinCluster(joinEndpoint);
-      if (response.type === 'response') {
-        setJoinEndpoint('');
-        await refreshPlatforms();
-      } else {
-        setError('Failed to join cluster');
-      }
-    } catch (error) {
-      // Failed to join cluster
-      setError(error instanceof Error ? error.message : 'Unknown error');
-    } finally {
-      setLoading(false);
-    }
+    join.mutate({ endpoint: joinEndpoint });
   };
 
   return (
@@ -262,10 +170,10 @@ export const DistributedPlatform: React.FC = () => {
 
           <button
             onClick={handleInitialize}
-            disabled={!isConnected || loading}
+            disabled={!isConnected || busy}
             className='bg-green-600 hover:bg-green-700 disabled:bg-gray-500 text-white px-6 py-2 rounded-lg transition-colors'
           >
-            {loading ? 'Initializing...' : 'Initialize Cluster'}
+            {initialize.isPending ? 'Initializing...' : 'Initialize Cluster'}
           </button>
         </div>
       ) : (
@@ -275,45 +183,43 @@ export const DistributedPlatform: React.FC = () => {
             ✅ Distributed cluster initialized: {clusterName}
           </div>
 
-          {/* Connected Platforms */}
-          <div>
-            <div className='flex justify-between items-center mb-3'>
-              <h4 className='text-lg font-semibold text-white'>
-                Connected Platforms ({platforms.length})
-              </h4>
-              <button
-                onClick={refreshPlatforms}
-                disabled={loading}
-                className='bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white px-3 py-1 rounded text-sm transition-colors'
-              >
-                Refresh
-              </button>
-            </div>
+          {/* Cluster Topology */}
+          <ClusterTopology />
 
-            {platforms.length > 0 ? (
-              <div className='grid grid-cols-1 md:grid-cols-2 gap-3'>
-                {platforms.map((platform) => (
-                  <div key={platform.id} className='bg-black/20 rounded-lg p-3'>
-                    <div className='text-white font-medium'>{platform.deviceName}</div>
-                    <div className='text-gray-400 text-sm'>
-                      {platform.platform} {platform.version}
-                    </div>
-                    <div className='text-gray-400 text-xs'>
-                      Capabilities: {platform.capabilities.join(', ')}
-                    </div>
-                  </div>
-                ))}
+          {/* Execute on Platforms */}
+          <div>
+            <h4 className='text-lg font-semibold text-white mb-2'>Execute JavaScript</h4>
+            {canTarget ? (
+              <div className='bg-black/20 rounded-lg p-3 mb-3 space-y-3'>
+                <TargetPicker
+                  platforms={platforms}
+                  selector={selector}
+                  onChange={setSelector}
+                  disabled={busy}
+                />
+                <div className='flex flex-wrap items-center gap-4 text-sm text-gray-300'>
+                  <span>
+                    Runs on {targets.length} of {platforms.length} platforms
+                  </span>
+                  <label className='flex items-center gap-2'>
+                    Timeout per platform (s):
+                    <input
+                      type='number'
+                      min={1}
+                      value={targetTimeout}
+                      onChange={(e) =>
+                        setTargetTimeout(parseInt(e.target.value) || DEFAULT_TARGET_TIMEOUT_SECONDS)
+                      }
+                      className='w-20 px-2 py-1 bg-black/20 border border-gray-600 rounded text-white'
+                    />
+                  </label>
+                </div>
               </div>
             ) : (
-              <div className='text-gray-400 italic'>No platforms connected</div>
+              <p className='text-gray-400 text-sm mb-2'>
+                This backend runs scripts on every platform of the cluster
+              </p>
             )}
-          </div>
-
-          {/* Execute on All Platforms */}
-          <div>
-            <h4 className='text-lg font-semibold text-white mb-2'>
-              Execute JavaScript on All Platforms
-            </h4>
             <textarea
               value={scriptToExecute}
               onChange={(e) => setScriptToExecute(e.target.value)}
@@ -321,28 +227,30 @@ export const DistributedPlatform: React.FC = () => {
               placeholder='Enter JavaScript code to execute...'
             />
             <button
-              onClick={handleExecuteOnAll}
-              disabled={!isConnected || loading || !scriptToExecute.trim()}
+              onClick={handleExecute}
+              disabled={!isConnected || busy || !scriptToExecute.trim() || targets.length === 0}
               className='mt-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
             >
-              {loading ? 'Executing...' : 'Execute on All Platforms'}
+              {loading
+                ? 'Executing...'
+                : `Execute on ${targets.length} Platform${targets.length === 1 ? '' : 's'}`}
             </button>
 
             {executionResults.length > 0 && (
               <div className='mt-4 space-y-2'>
                 <h5 className='font-semibold text-white'>Execution Results:</h5>
-                {executionResults.map((result, index) => (
+                {executionResults.map((result) => (
                   <div
-                    key={index}
-                    className={`p-3 rounded-lg ${
-                      result.success
-                        ? 'bg-green-500/20 border border-green-500'
-                        : 'bg-red-500/20 border border-red-500'
-                    }`}
+                    key={result.platformId}
+                    className={`p-3 rounded-lg ${RESULT_STYLES[result.status].className}`}
                   >
-                    <div className='text-sm text-gray-300'>Platform: {result.platformId}</div>
                     <div className='text-sm text-gray-300'>
-                      Status: {result.success ? '✅ Success' : '❌ Failed'}
+                      Platform:{' '}
+                      {platforms.find(({ id }) => id === result.platformId)?.deviceName ??
+                        result.platformId}
+                    </div>
+                    <div className='text-sm text-gray-300'>
+                      Status: {RESULT_STYLES[result.status].label}
                     </div>
                     {result.output && (
                       <pre className='text-xs text-gray-400 mt-2 whitespace-pre-wrap'>
@@ -355,64 +263,8 @@ export const DistributedPlatform: React.FC = () => {
             )}
           </div>
 
-          {/* Data Sharing */}
-          <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
-            {/* Share Data */}
-            <div>
-              <h4 className='text-lg font-semibold text-white mb-2'>Share Data</h4>
-              <div className='space-y-2'>
-                <input
-                  type='text'
-                  value={shareKey}
-                  onChange={(e) => setShareKey(e.target.value)}
-                  className='w-full px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
-                  placeholder='Data key'
-                />
-                <textarea
-                  value={shareData}
-                  onChange={(e) => setShareData(e.target.value)}
-                  className='w-full h-20 px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
-                  placeholder='Data to share'
-                />
-                <button
-                  onClick={handleShareData}
-                  disabled={!isConnected || loading || !shareKey.trim() || !shareData.trim()}
-                  className='bg-orange-600 hover:bg-orange-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
-                >
-                  Share Data
-                </button>
-              </div>
-            </div>
-
-            {/* Retrieve Data */}
-            <div>
-              <h4 className='text-lg font-semibold text-white mb-2'>Retrieve Data</h4>
-              <div className='space-y-2'>
-                <input
-                  type='text'
-                  value={retrieveKey}
-                  onChange={(e) => setRetrieveKey(e.target.value)}
-                  className='w-full px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
-                  placeholder='Data key to retrieve'
-                />
-                <button
-                  onClick={handleRetrieveData}
-                  disabled={!isConnected || loading || !retrieveKey.trim()}
-                  className='bg-teal-600 hover:bg-teal-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
-                >
-                  Retrieve Data
-                </button>
-                {retrievedData !== null && (
-                  <div className='bg-black/20 rounded-lg p-3'>
-                    <div className='text-white font-medium'>Retrieved Data:</div>
-                    <pre className='text-gray-300 text-sm mt-1 whitespace-pre-wrap'>
-                      {retrievedData || '(null)'}
-                    </pre>
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
+          {/* Shared Data */}
+          {hasKeyValueStore && <KeyValueBrowser />}
 
           {/* Join Cluster */}
           <div>
@@ -427,7 +279,7 @@ export const DistributedPlatform: React.FC = () => {
               />
               <button
                 onClick={handleJoinCluster}
-                disabled={!isConnected || loading || !joinEndpoint.trim()}
+                disabled={!isConnected || busy || !joinEndpoint.trim()}
                 className='bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
               >
                 Join Cluster
@@ -0,0 +1,50 @@
+import React from 'react';
+import { useErrorStore } from '@/lib/swiftralino-error-store';
+
+export const ErrorLog: React.FC = () => {
+  const entries = useErrorStore((state) => state.entries);
+  const clear = useErrorStore((state) => state.clear);
+
+  return (
+    <div className='bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20'>
+      <div className='flex justify-between items-center mb-4'>
+        <h3 className='text-2xl font-semibold text-white flex items-center'>
+          <span className='text-3xl mr-3'>🧯</span>
+          Error Log
+        </h3>
+        <button
+          onClick={clear}
+          disabled={entries.length === 0}
+          className='bg-gray-600 hover:bg-gray-700 disabled:bg-gray-500 text-white px-3 py-1 rounded text-sm transition-colors'
+        >
+          Clear
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className='text-gray-400 italic'>No errors reported</div>
+      ) : (
+        <div className='max-h-64 overflow-y-auto space-y-2'>
+          {entries.map((entry) => (
+            <div key={entry.id} className='bg-black/20 rounded-lg p-3 text-sm'>
+              <div className='flex justify-between text-gray-400 text-xs'>
+                <span>
+                  {entry.source} · {entry.name}
+                  {entry.code && ` · ${entry.code}`}
+                </span>
+                <span>{new Date(entry.timestamp).toLocaleTimeString()}</span>
+              </div>
+              <div className='text-red-300 mt-1'>{entry.message}</div>
+              {(entry.endpoint || entry.requestId) && (
+                <div className='text-gray-500 text-xs mt-1 font-mono'>
+                  {entry.endpoint}
+                  {entry.requestId && ` #${entry.requestId}`}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
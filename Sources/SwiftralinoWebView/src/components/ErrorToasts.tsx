@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { type ErrorLogEntry, useErrorStore } from '@/lib/swiftralino-error-store';
+
+const TOAST_DURATION = 6000;
+const MAX_TOASTS = 3;
+
+const Toast: React.FC<{ entry: ErrorLogEntry }> = ({ entry }) => {
+  const dismiss = useErrorStore((state) => state.dismiss);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => dismiss(entry.id), TOAST_DURATION);
+    return () => clearTimeout(timeoutId);
+  }, [entry.id, dismiss]);
+
+  return (
+    <div className='bg-red-900/90 border border-red-500 text-red-100 rounded-lg px-4 py-3 shadow-lg'>
+      <div className='flex justify-between items-start'>
+        <div className='font-semibold'>
+          {entry.source}
+          {entry.endpoint && <span className='ml-2 text-xs text-red-300'>{entry.endpoint}</span>}
+        </div>
+        <button
+          onClick={() => dismiss(entry.id)}
+          className='ml-4 text-red-300 hover:text-white'
+          aria-label='Dismiss'
+        >
+          ✕
+        </button>
+      </div>
+      <div className='text-sm mt-1'>{entry.message}</div>
+    </div>
+  );
+};
+
+export const ErrorToasts: React.FC = () => {
+  const entries = useErrorStore((state) => state.entries);
+  const visible = entries.filter((entry) => !entry.dismissed).slice(0, MAX_TOASTS);
+
+  return (
+    <div className='fixed bottom-4 right-4 z-50 w-96 max-w-full space-y-2'>
+      {visible.map((entry) => (
+        <Toast key={entry.id} entry={entry} />
+      ))}
+    </div>
+  );
+};
@@ -1,28 +1,265 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { DirectoryTree } from './DirectoryTree';
+import { FilePreview } from './FilePreview';
 import { useSwiftralino } from '@/lib/swiftralino-context';
+import { useErrorStore } from '@/lib/swiftralino-error-store';
+import {
+  type FileSortKey,
+  extensionOf,
+  formatBytes,
+  fetchDirectoryListing,
+  formatModified,
+  isWithinPath,
+  joinPath,
+  parentPath,
+  pathAncestors,
+  sortEntries,
+} from '@/lib/swiftralino-files';
+import {
+  directoryEntriesKey,
+  swiftralinoKeys,
+  useDirectoryEntries,
+  useFileOperation,
+  useFileWatch,
+  useSupports,
+} from '@/lib/swiftralino-hooks';
+import type { SwiftralinoFileEntry } from '@/types/swiftralino';
+
+// Every backend has a root, unlike e.g. /Users or /home
+const DEFAULT_PATH = '/';
+
+const COLUMNS: Array<{ key: FileSortKey; label: string; className: string }> = [
+  { key: 'name', label: 'Name', className: 'text-left' },
+  { key: 'type', label: 'Type', className: 'text-left hidden sm:table-cell' },
+  { key: 'size', label: 'Size', className: 'text-right' },
+  { key: 'modified', label: 'Modified', className: 'text-left hidden md:table-cell' },
+];
+
+// At most one create/rename/delete is edited at a time, in the bar above the table
+type PendingOperation =
+  | { kind: 'createFile' }
+  | { kind: 'createDirectory' }
+  | { kind: 'rename'; entry: SwiftralinoFileEntry }
+  | { kind: 'remove'; entry: SwiftralinoFileEntry };
+
+const PENDING_LABELS: Record<PendingOperation['kind'], string> = {
+  createFile: 'New file',
+  createDirectory: 'New folder',
+  rename: 'Rename',
+  remove: 'Delete',
+};
+
+const MUTATION_OPTIONS = { meta: { source: 'File Explorer' } };
+
+const validateName = (name: string): string | null => {
+  if (!name) {
+    return 'Enter a name';
+  }
+  if (name.includes('/')) {
+    return 'Names cannot contain /';
+  }
+  if (name === '.' || name === '..') {
+    return `${name} is not a valid name`;
+  }
+  return null;
+};
+
+const entryIcon = (entry: SwiftralinoFileEntry): string => {
+  switch (entry.type) {
+    case 'directory':
+      return '📁';
+    case 'symlink':
+      return '🔗';
+    default:
+      return '📄';
+  }
+};
+
+const entryTypeLabel = (entry: SwiftralinoFileEntry): string => {
+  if (entry.type === 'directory') {
+    return 'Folder';
+  }
+  if (entry.type === 'symlink') {
+    return 'Link';
+  }
+  return extensionOf(entry.name).toUpperCase() || 'File';
+};
 
 export const FileExplorer: React.FC = () => {
-  const { client, isConnected } = useSwiftralino();
-  const [path, setPath] = useState('/Users');
-  const [files, setFiles] = useState<string[] | null>(null);
-  const [loading, setLoading] = useState(false);
+  const { client, isConnected, name: connection } = useSwiftralino();
+  const queryClient = useQueryClient();
+  const reportError = useErrorStore((state) => state.reportError);
+  const uploadInput = useRef<HTMLInputElement>(null);
+  const [currentPath, setCurrentPath] = useState(DEFAULT_PATH);
+  const [pathInput, setPathInput] = useState(DEFAULT_PATH);
+  const [selected, setSelected] = useState<SwiftralinoFileEntry | null>(null);
+  const [filter, setFilter] = useState('');
+  const [showHidden, setShowHidden] = useState(false);
+  const [sortKey, setSortKey] = useState<FileSortKey>('name');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [pending, setPending] = useState<PendingOperation | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [upload, setUpload] = useState<{ name: string; progress: number } | null>(null);
+  const { data, isFetching, refetch } = useDirectoryEntries(currentPath, {
+    meta: { source: 'File Explorer' },
+  });
+  // Changes on disk refresh the listing without a manual reload
+  const { watching } = useFileWatch(currentPath);
+  const writeFile = useFileOperation('writeFile', MUTATION_OPTIONS);
+  const mkdir = useFileOperation('mkdir', MUTATION_OPTIONS);
+  const rename = useFileOperation('rename', MUTATION_OPTIONS);
+  const remove = useFileOperation('remove', MUTATION_OPTIONS);
+  // Backends without these operations get a read-only browser
+  const canCreate = useSupports('filesystem', 'writeFile');
+  const canMkdir = useSupports('filesystem', 'mkdir');
+  const canUpload = useSupports('filesystem', 'writeChunk');
+  const canRename = useSupports('filesystem', 'rename');
+  const canRemove = useSupports('filesystem', 'remove');
+  const isMutating = writeFile.isPending || mkdir.isPending || rename.isPending || remove.isPending;
+  const nameError = pending?.kind === 'remove' ? null : validateName(nameInput.trim());
+
+  const entries = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const visible = (data?.entries ?? []).filter(
+      (entry) =>
+        (showHidden || !entry.hidden) && (!query || entry.name.toLowerCase().includes(query))
+    );
+    return sortEntries(visible, sortKey, sortDirection);
+  }, [data, filter, showHidden, sortKey, sortDirection]);
+
+  const navigate = (path: string) => {
+    setCurrentPath(path);
+    setPathInput(path);
+    setSelected(null);
+    setPending(null);
+  };
 
-  const handleReadDirectory = async () => {
-    if (!client || !isConnected || !path) {
+  const handleSubmitPath = (event: React.FormEvent) => {
+    event.preventDefault();
+    const path = pathInput.trim();
+    if (!path) {
       return;
     }
+    if (path === currentPath) {
+      refetch();
+    } else {
+      navigate(path);
+    }
+  };
 
-    setLoading(true);
+  // Only listings with metadata tell folders from files
+  const detailed = data?.detailed ?? true;
+
+  const handleOpen = async (entry: SwiftralinoFileEntry) => {
+    if (entry.type === 'directory') {
+      navigate(entry.path);
+      return;
+    }
+    if (detailed || !client) {
+      setSelected(entry);
+      return;
+    }
+    // Whatever lists as a directory is one; the listing stays cached for the
+    // navigation
     try {
-      const response = await client.readDirectory(path);
-      if (response.type === 'response' && response.data) {
-        setFiles(response.data.files);
+      await queryClient.fetchQuery({
+        queryKey: directoryEntriesKey(entry.path, connection),
+        queryFn: ({ signal }) =>
+          fetchDirectoryListing(client, entry.path, { signal, detailed: false }),
+      });
+      navigate(entry.path);
+    } catch (_error) {
+      setSelected(entry);
+    }
+  };
+
+  const startOperation = (operation: PendingOperation) => {
+    setPending(operation);
+    setNameInput(operation.kind === 'rename' ? operation.entry.name : '');
+  };
+
+  // The preview goes away with the file (or folder) it was showing
+  const clearSelectionWithin = (path: string) => {
+    if (selected && isWithinPath(selected.path, path)) {
+      setSelected(null);
+    }
+  };
+
+  const handleConfirm = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!pending) {
+      return;
+    }
+    if (pending.kind === 'remove') {
+      const { entry } = pending;
+      remove.mutate(
+        { path: entry.path, recursive: entry.type === 'directory' },
+        {
+          onSuccess: () => {
+            clearSelectionWithin(entry.path);
+            setPending(null);
+          },
+        }
+      );
+      return;
+    }
+    if (nameError) {
+      return;
+    }
+
+    const name = nameInput.trim();
+    const done = () => setPending(null);
+    switch (pending.kind) {
+      case 'createFile':
+        writeFile.mutate({ path: joinPath(currentPath, name), content: '' }, { onSuccess: done });
+        break;
+      case 'createDirectory':
+        mkdir.mutate({ path: joinPath(currentPath, name) }, { onSuccess: done });
+        break;
+      case 'rename': {
+        const { entry } = pending;
+        rename.mutate(
+          { from: entry.path, to: joinPath(parentPath(entry.path), name) },
+          {
+            onSuccess: () => {
+              clearSelectionWithin(entry.path);
+              done();
+            },
+          }
+        );
+        break;
       }
+    }
+  };
+
+  // Uploads stream in chunks, so large files do not need one huge frame
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!client || !file) {
+      return;
+    }
+    setUpload({ name: file.name, progress: 0 });
+    try {
+      await client.fs.writeStream(joinPath(currentPath, file.name), file, {
+        onProgress: ({ transferred, total }) =>
+          setUpload({ name: file.name, progress: total > 0 ? transferred / total : 1 }),
+      });
+      await queryClient.invalidateQueries({ queryKey: swiftralinoKeys.action('filesystem') });
     } catch (error) {
-      // Failed to read directory - silently handle the error
-      // In production, you might want to show a user-friendly error message
+      reportError('File Explorer', error);
     } finally {
-      setLoading(false);
+      setUpload(null);
+    }
+  };
+
+  const handleSort = (key: FileSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortKey(key);
+      setSortDirection('asc');
     }
   };
 
@@ -32,39 +269,259 @@ export const FileExplorer: React.FC = () => {
         <span className='text-3xl mr-3'>📁</span>
         File Explorer
       </h3>
-      <p className='text-gray-300 mb-4'>Read files and directories using the Swift backend.</p>
+      <p className='text-gray-300 mb-4'>
+        Browse, preview and manage files using the Swift backend.
+      </p>
+
+      <nav className='flex flex-wrap items-center text-sm text-gray-300 mb-3'>
+        {pathAncestors(currentPath).map((ancestor, index) => (
+          <React.Fragment key={ancestor.path}>
+            {index > 1 && <span className='mx-1 text-gray-500'>/</span>}
+            <button
+              onClick={() => navigate(ancestor.path)}
+              className='hover:text-white hover:underline'
+            >
+              {ancestor.name}
+            </button>
+          </React.Fragment>
+        ))}
+      </nav>
 
-      <div className='mb-4'>
-        <label className='block text-gray-300 mb-2'>Directory Path:</label>
+      <form onSubmit={handleSubmitPath} className='flex space-x-2 mb-3'>
         <input
           type='text'
-          value={path}
-          onChange={(e) => setPath(e.target.value)}
-          className='w-full px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
+          value={pathInput}
+          onChange={(e) => setPathInput(e.target.value)}
+          className='flex-1 px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
           placeholder='Enter directory path'
         />
-      </div>
+        <button
+          type='submit'
+          disabled={!isConnected || isFetching}
+          className='bg-green-600 hover:bg-green-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
+        >
+          {isFetching ? 'Loading...' : 'Go'}
+        </button>
+        <button
+          type='button'
+          onClick={() => navigate(parentPath(currentPath))}
+          disabled={currentPath === '/'}
+          className='bg-gray-600 hover:bg-gray-700 disabled:bg-gray-500 text-white px-3 py-2 rounded-lg transition-colors'
+          aria-label='Parent directory'
+        >
+          ⬆
+        </button>
+      </form>
 
-      <button
-        onClick={handleReadDirectory}
-        disabled={!isConnected || loading}
-        className='bg-green-600 hover:bg-green-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
-      >
-        {loading ? 'Loading...' : 'Read Directory'}
-      </button>
-
-      {files && (
-        <div className='mt-4 bg-black/20 rounded-lg p-4'>
-          <h4 className='text-white font-semibold mb-2'>Files ({files.length}):</h4>
-          <div className='max-h-48 overflow-y-auto'>
-            {files.map((file, index) => (
-              <div
-                key={index}
-                className='text-sm text-gray-300 py-1 border-b border-gray-700 last:border-b-0'
+      <div className='flex flex-wrap items-center gap-4 mb-4 text-sm'>
+        <input
+          type='search'
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className='px-3 py-1 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
+          placeholder='Filter by name'
+        />
+        <label className='flex items-center text-gray-300'>
+          <input
+            type='checkbox'
+            checked={showHidden}
+            onChange={(e) => setShowHidden(e.target.checked)}
+            className='mr-2'
+          />
+          Show hidden files
+        </label>
+        {data && (
+          <span className='text-gray-400'>
+            {entries.length} of {data.entries.length} items
+          </span>
+        )}
+        {!detailed && (
+          <span className='text-gray-400' title='The backend only reports names'>
+            Names only
+          </span>
+        )}
+        {watching && (
+          <span className='text-green-400' title='Refreshes when files in this folder change'>
+            ● Live
+          </span>
+        )}
+        <div className='flex gap-2 ml-auto'>
+          {canCreate && (
+            <button
+              onClick={() => startOperation({ kind: 'createFile' })}
+              disabled={!isConnected}
+              className='bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white px-3 py-1 rounded-lg transition-colors'
+            >
+              New File
+            </button>
+          )}
+          {canMkdir && (
+            <button
+              onClick={() => startOperation({ kind: 'createDirectory' })}
+              disabled={!isConnected}
+              className='bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white px-3 py-1 rounded-lg transition-colors'
+            >
+              New Folder
+            </button>
+          )}
+          {canUpload && (
+            <>
+              <button
+                onClick={() => uploadInput.current?.click()}
+                disabled={!isConnected || upload !== null}
+                className='bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white px-3 py-1 rounded-lg transition-colors'
               >
-                {file}
+                {upload ? `Uploading ${Math.round(upload.progress * 100)}%` : 'Upload'}
+              </button>
+              <input ref={uploadInput} type='file' onChange={handleUpload} className='hidden' />
+            </>
+          )}
+        </div>
+      </div>
+
+      {pending && (
+        <form
+          onSubmit={handleConfirm}
+          className='flex flex-wrap items-center gap-2 mb-4 p-3 bg-black/20 rounded-lg text-sm'
+        >
+          <span className='text-white font-medium'>
+            {PENDING_LABELS[pending.kind]}
+            {(pending.kind === 'rename' || pending.kind === 'remove') && ` ${pending.entry.name}`}
+          </span>
+          {pending.kind === 'remove' ? (
+            <span className='text-red-300'>
+              {pending.entry.type === 'directory'
+                ? 'The folder and everything in it will be deleted.'
+                : 'This cannot be undone.'}
+            </span>
+          ) : (
+            <input
+              type='text'
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              autoFocus
+              className='flex-1 min-w-[10rem] px-3 py-1 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
+              placeholder='Name'
+            />
+          )}
+          <button
+            type='submit'
+            disabled={isMutating || nameError !== null}
+            className={`${
+              pending.kind === 'remove'
+                ? 'bg-red-600 hover:bg-red-700'
+                : 'bg-green-600 hover:bg-green-700'
+            } disabled:bg-gray-500 text-white px-3 py-1 rounded-lg transition-colors`}
+          >
+            {pending.kind === 'remove' ? 'Delete' : 'Save'}
+          </button>
+          <button
+            type='button'
+            onClick={() => setPending(null)}
+            className='bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded-lg transition-colors'
+          >
+            Cancel
+          </button>
+          {nameError && nameInput && <span className='w-full text-red-300'>{nameError}</span>}
+        </form>
+      )}
+
+      {!isConnected ? (
+        <div className='text-gray-400 italic'>Connect to the backend to browse files.</div>
+      ) : (
+        <div className='grid grid-cols-1 lg:grid-cols-[14rem_1fr] xl:grid-cols-[14rem_1fr_24rem] gap-4'>
+          <DirectoryTree currentPath={currentPath} showHidden={showHidden} onNavigate={navigate} />
+
+          <div className='bg-black/20 rounded-lg max-h-96 overflow-auto min-w-0'>
+            <table className='w-full text-sm'>
+              <thead className='sticky top-0 bg-slate-800 text-gray-400'>
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th key={column.key} className={`px-3 py-2 font-medium ${column.className}`}>
+                      <button onClick={() => handleSort(column.key)} className='hover:text-white'>
+                        {column.label}
+                        {sortKey === column.key && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                      </button>
+                    </th>
+                  ))}
+                  <th className='px-3 py-2 font-medium text-left hidden lg:table-cell'>
+                    Permissions
+                  </th>
+                  <th className='px-3 py-2'>
+                    <span className='sr-only'>Actions</span>
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr
+                    key={entry.path}
+                    onClick={() => handleOpen(entry)}
+                    className={`cursor-pointer border-t border-gray-700 ${
+                      selected?.path === entry.path
+                        ? 'bg-white/20 text-white'
+                        : 'text-gray-300 hover:bg-white/10'
+                    } ${entry.hidden ? 'opacity-60' : ''}`}
+                  >
+                    <td className='px-3 py-1 truncate max-w-xs' title={entry.path}>
+                      {entryIcon(entry)} {entry.name}
+                    </td>
+                    <td className='px-3 py-1 hidden sm:table-cell'>{entryTypeLabel(entry)}</td>
+                    <td className='px-3 py-1 text-right whitespace-nowrap'>
+                      {entry.type === 'directory' || !detailed ? '—' : formatBytes(entry.size)}
+                    </td>
+                    <td className='px-3 py-1 whitespace-nowrap hidden md:table-cell'>
+                      {detailed ? formatModified(entry.modified) : '—'}
+                    </td>
+                    <td className='px-3 py-1 font-mono hidden lg:table-cell'>
+                      {detailed ? entry.permissions : '—'}
+                    </td>
+                    <td className='px-3 py-1 text-right whitespace-nowrap'>
+                      {canRename && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startOperation({ kind: 'rename', entry });
+                          }}
+                          className='px-1 opacity-70 hover:opacity-100'
+                          aria-label={`Rename ${entry.name}`}
+                        >
+                          ✏️
+                        </button>
+                      )}
+                      {canRemove && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            startOperation({ kind: 'remove', entry });
+                          }}
+                          className='px-1 opacity-70 hover:opacity-100'
+                          aria-label={`Delete ${entry.name}`}
+                        >
+                          🗑
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {data && entries.length === 0 && (
+              <div className='text-gray-400 italic p-3'>
+                {filter ? 'No entries match the filter' : 'Empty directory'}
+              </div>
+            )}
+          </div>
+
+          <div className='lg:col-span-2 xl:col-span-1 min-w-0'>
+            {selected ? (
+              // Keyed so the preview mode resets for every file
+              <FilePreview key={selected.path} entry={selected} detailed={detailed} />
+            ) : (
+              <div className='bg-black/20 rounded-lg p-4 text-gray-400 italic'>
+                Select a file to preview it.
               </div>
-            ))}
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { useSwiftralino } from '@/lib/swiftralino-context';
+import { decodeBase64, encodeBase64, encodeUtf8 } from '@/lib/swiftralino-encoding';
+import {
+  formatBytes,
+  formatModified,
+  hexDump,
+  imageMimeType,
+  previewKind,
+} from '@/lib/swiftralino-files';
+import { useErrorStore } from '@/lib/swiftralino-error-store';
+import { type TokenKind, languageFor, tokenize } from '@/lib/swiftralino-highlight';
+import { useFileContent, useSupports } from '@/lib/swiftralino-hooks';
+import type { APIResult } from '@/lib/swiftralino-protocol';
+import type { SwiftralinoFileEntry } from '@/types/swiftralino';
+
+type PreviewMode = 'text' | 'image' | 'hex';
+
+// readFile returns whole files, so bigger ones are not previewed
+const MAX_PREVIEW_BYTES = 1024 * 1024;
+const MAX_HEX_BYTES = 16 * 1024;
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  plain: 'text-gray-200',
+  comment: 'text-gray-500 italic',
+  string: 'text-green-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-300',
+};
+
+const MODE_LABELS: Record<PreviewMode, string> = { text: 'Text', image: 'Image', hex: 'Hex' };
+
+// Backends that ignore the encoding param always answer with utf8
+const contentBytes = (file: APIResult<'filesystem', 'readFile'>): Uint8Array =>
+  file.encoding === 'base64' ? decodeBase64(file.content) : encodeUtf8(file.content);
+
+interface FilePreviewProps {
+  entry: SwiftralinoFileEntry;
+  // False for entries from a names-only listing, whose metadata is made up
+  detailed?: boolean;
+}
+
+export const FilePreview: React.FC<FilePreviewProps> = ({ entry, detailed = true }) => {
+  const { client } = useSwiftralino();
+  const reportError = useErrorStore((state) => state.reportError);
+  // Fraction downloaded while a download runs
+  const [download, setDownload] = useState<number | null>(null);
+  const canDownload = useSupports('filesystem', 'readChunk');
+  const kind = previewKind(entry.name);
+  const modes: PreviewMode[] = kind === 'image' ? ['image', 'hex'] : ['text', 'hex'];
+  const [mode, setMode] = useState<PreviewMode>(kind === 'binary' ? 'hex' : modes[0]);
+  const tooLarge = entry.size > MAX_PREVIEW_BYTES;
+  const { data: file, isLoading } = useFileContent(
+    tooLarge ? null : entry.path,
+    mode === 'text' ? 'utf8' : 'base64',
+    { meta: { source: 'File Explorer' } }
+  );
+
+  const tokens = useMemo(
+    () => (file && mode === 'text' ? tokenize(file.content, languageFor(entry.name)) : []),
+    [file, mode, entry.name]
+  );
+  const hex = useMemo(
+    () => (file && mode === 'hex' ? hexDump(contentBytes(file).subarray(0, MAX_HEX_BYTES)) : ''),
+    [file, mode]
+  );
+
+  // Streamed in chunks, so files too large to preview can still be saved
+  const handleDownload = async () => {
+    if (!client) {
+      return;
+    }
+    setDownload(0);
+    try {
+      const file = await client.fs.readStream(entry.path, {
+        onProgress: ({ transferred, total }) => setDownload(total > 0 ? transferred / total : 1),
+      });
+      const url = URL.createObjectURL(file.toBlob(imageMimeType(entry.name)));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = entry.name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      reportError('File Explorer', error);
+    } finally {
+      setDownload(null);
+    }
+  };
+
+  const renderContent = () => {
+    if (tooLarge) {
+      return <div className='text-gray-400 italic'>Too large to preview.</div>;
+    }
+    if (isLoading || !file) {
+      return <div className='text-gray-400'>Loading...</div>;
+    }
+    if (mode === 'image') {
+      return (
+        <img
+          src={`data:${imageMimeType(entry.name)};base64,${
+            file.encoding === 'base64' ? file.content : encodeBase64(contentBytes(file))
+          }`}
+          alt={entry.name}
+          className='max-w-full max-h-80 mx-auto'
+        />
+      );
+    }
+    return (
+      <pre className='text-xs font-mono max-h-80 overflow-auto whitespace-pre'>
+        {mode === 'hex' ? (
+          <span className='text-gray-300'>
+            {hex}
+            {entry.size > MAX_HEX_BYTES && `\n… first ${formatBytes(MAX_HEX_BYTES)} shown`}
+          </span>
+        ) : (
+          tokens.map((token, index) => (
+            <span key={index} className={TOKEN_CLASSES[token.kind]}>
+              {token.text}
+            </span>
+          ))
+        )}
+      </pre>
+    );
+  };
+
+  return (
+    <div className='bg-black/20 rounded-lg p-4 min-w-0'>
+      <div className='flex items-start justify-between gap-2 mb-2'>
+        <div className='min-w-0'>
+          <div className='text-white font-semibold truncate' title={entry.path}>
+            {entry.name}
+          </div>
+          {detailed && (
+            <div className='text-xs text-gray-400'>
+              {formatBytes(entry.size)} · {formatModified(entry.modified)} ·{' '}
+              <span className='font-mono'>{entry.permissions}</span>
+            </div>
+          )}
+        </div>
+        <div className='flex shrink-0 gap-2 text-xs'>
+          {canDownload && (
+            <button
+              onClick={handleDownload}
+              disabled={!client || download !== null}
+              className='px-2 py-1 rounded-lg border border-gray-600 text-gray-300 hover:bg-white/10 disabled:text-gray-500'
+            >
+              {download === null ? 'Download' : `${Math.round(download * 100)}%`}
+            </button>
+          )}
+          <div className='flex rounded-lg overflow-hidden border border-gray-600'>
+            {modes.map((option) => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-2 py-1 ${
+                  option === mode ? 'bg-white/20 text-white' : 'text-gray-400 hover:bg-white/10'
+                }`}
+              >
+                {MODE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {renderContent()}
+    </div>
+  );
+};
@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react';
+import { useSwiftralino } from '@/lib/swiftralino-context';
+import { useKVEntry, useKVKeys } from '@/lib/swiftralino-hooks';
+import type { KVEntry, KVKeyInfo } from '@/types/swiftralino';
+
+interface Notice {
+  kind: 'error' | 'info';
+  text: string;
+}
+
+const formatExpiry = (expiresAt: number | null): string => {
+  if (expiresAt === null) {
+    return 'never expires';
+  }
+  const seconds = Math.max(0, Math.round(expiresAt - Date.now() / 1000));
+  return seconds < 60 ? `expires in ${seconds}s` : `expires in ${Math.ceil(seconds / 60)}m`;
+};
+
+const parseValue = (text: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch (_error) {
+    return null;
+  }
+};
+
+// Browses and edits the cluster's key-value store. Saves are compare-and-set
+// against the version the editor was loaded from, so concurrent writers
+// cannot overwrite each other unnoticed.
+export const KeyValueBrowser: React.FC = () => {
+  const { client, isConnected } = useSwiftralino();
+  const meta = { source: 'Key-Value Store' };
+  const [prefix, setPrefix] = useState('');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const keysQuery = useKVKeys(prefix, { meta });
+  const entryQuery = useKVEntry(selectedKey, { meta });
+  const keys: KVKeyInfo[] = keysQuery.data?.keys ?? [];
+  const entry = entryQuery.data?.entry ?? null;
+
+  // Editor state; `baseVersion` is 0 for a key that does not exist yet
+  const [draftKey, setDraftKey] = useState('');
+  const [draftValue, setDraftValue] = useState('');
+  const [ttlSeconds, setTtlSeconds] = useState('');
+  const [baseVersion, setBaseVersion] = useState(0);
+  const [dirty, setDirty] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadEntry = (loaded: KVEntry) => {
+    setDraftKey(loaded.key);
+    setDraftValue(JSON.stringify(loaded.value, null, 2));
+    setTtlSeconds('');
+    setBaseVersion(loaded.version);
+    setDirty(false);
+  };
+
+  // Follows changes made elsewhere unless there are unsaved edits
+  useEffect(() => {
+    if (!entry || entry.key !== selectedKey || entry.version === baseVersion) {
+      return;
+    }
+    if (dirty) {
+      setNotice({
+        kind: 'info',
+        text: `${entry.key} changed on the cluster (version ${entry.version}); saving will conflict`,
+      });
+    } else {
+      loadEntry(entry);
+    }
+  }, [entry, selectedKey, baseVersion, dirty]);
+
+  const startNewKey = () => {
+    setSelectedKey(null);
+    setDraftKey(prefix);
+    setDraftValue('');
+    setTtlSeconds('');
+    setBaseVersion(0);
+    setDirty(false);
+    setNotice(null);
+  };
+
+  const handleSave = async () => {
+    const parsed = parseValue(draftValue);
+    if (!client || !draftKey.trim()) {
+      return;
+    }
+    if (!parsed) {
+      setNotice({ kind: 'error', text: 'The value must be JSON, e.g. "text", 42 or {"a": 1}' });
+      return;
+    }
+    const ttl = ttlSeconds.trim() ? Number(ttlSeconds) * 1000 : undefined;
+    // Renaming in the editor writes a new key
+    const expectedVersion = draftKey === selectedKey ? baseVersion : 0;
+
+    setBusy(true);
+    setNotice(null);
+    try {
+      const result = await client.kv.compareAndSet(draftKey, expectedVersion, parsed.value, {
+        ttl,
+      });
+      if (result.written && result.entry) {
+        setSelectedKey(result.entry.key);
+        loadEntry(result.entry);
+        setNotice({ kind: 'info', text: `Saved ${draftKey} (version ${result.entry.version})` });
+      } else {
+        setNotice({
+          kind: 'error',
+          text: result.entry
+            ? `${draftKey} is at version ${result.entry.version} now; reload it before saving`
+            : `${draftKey} no longer exists`,
+        });
+      }
+    } catch (error) {
+      setNotice({ kind: 'error', text: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!client || selectedKey === null) {
+      return;
+    }
+    setBusy(true);
+    setNotice(null);
+    try {
+      const deleted = await client.kv.delete(selectedKey, { expectedVersion: baseVersion });
+      if (deleted) {
+        setNotice({ kind: 'info', text: `Deleted ${selectedKey}` });
+        startNewKey();
+      } else {
+        setNotice({ kind: 'error', text: `${selectedKey} changed or is gone; nothing deleted` });
+      }
+    } catch (error) {
+      setNotice({ kind: 'error', text: error instanceof Error ? error.message : 'Unknown error' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReload = () => {
+    if (entry) {
+      loadEntry(entry);
+      setNotice(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className='flex justify-between items-center mb-3'>
+        <h4 className='text-lg font-semibold text-white'>Shared Data ({keys.length} keys)</h4>
+        <button
+          onClick={startNewKey}
+          disabled={!isConnected || busy}
+          className='bg-orange-600 hover:bg-orange-700 disabled:bg-gray-500 text-white px-3 py-1 rounded text-sm transition-colors'
+        >
+          New Key
+        </button>
+      </div>
+
+      {notice && (
+        <div
+          className={`px-3 py-2 rounded-lg mb-3 text-sm ${
+            notice.kind === 'error'
+              ? 'bg-red-500/20 border border-red-500 text-red-300'
+              : 'bg-blue-500/20 border border-blue-500 text-blue-200'
+          }`}
+        >
+          {notice.text}
+        </div>
+      )}
+
+      <div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
+        {/* Key list */}
+        <div>
+          <input
+            type='text'
+            value={prefix}
+            onChange={(e) => setPrefix(e.target.value)}
+            className='w-full px-3 py-2 mb-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
+            placeholder='Filter by prefix, e.g. config/'
+          />
+          <div className='bg-black/20 rounded-lg max-h-64 overflow-y-auto'>
+            {keys.length > 0 ? (
+              keys.map((info) => (
+                <button
+                  key={info.key}
+                  onClick={() => {
+                    setSelectedKey(info.key);
+                    setDirty(false);
+                    setBaseVersion(0);
+                    setNotice(null);
+                  }}
+                  className={`w-full text-left px-3 py-2 border-b border-white/5 transition-colors ${
+                    info.key === selectedKey ? 'bg-white/20' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <div className='text-white font-mono text-sm truncate'>{info.key}</div>
+                  <div className='text-gray-400 text-xs'>
+                    v{info.version} · {formatExpiry(info.expiresAt)}
+                  </div>
+                </button>
+              ))
+            ) : (
+              <div className='text-gray-400 italic p-3'>
+                {keysQuery.isLoading ? 'Loading keys...' : 'No keys'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Editor */}
+        <div className='space-y-2'>
+          <input
+            type='text'
+            value={draftKey}
+            onChange={(e) => {
+              setDraftKey(e.target.value);
+              setDirty(true);
+            }}
+            className='w-full px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400 font-mono'
+            placeholder='Key'
+          />
+          <textarea
+            value={draftValue}
+            onChange={(e) => {
+              setDraftValue(e.target.value);
+              setDirty(true);
+            }}
+            className='w-full h-32 px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400 font-mono text-sm'
+            placeholder='JSON value, e.g. {"enabled": true}'
+          />
+          <div className='flex flex-wrap items-center gap-2'>
+            <input
+              type='number'
+              min={1}
+              value={ttlSeconds}
+              onChange={(e) => {
+                setTtlSeconds(e.target.value);
+                setDirty(true);
+              }}
+              className='w-32 px-3 py-2 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400'
+              placeholder='TTL (s)'
+            />
+            <button
+              onClick={handleSave}
+              disabled={!isConnected || busy || !draftKey.trim() || !draftValue.trim()}
+              className='bg-teal-600 hover:bg-teal-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
+            >
+              {baseVersion > 0 && draftKey === selectedKey ? 'Save' : 'Create'}
+            </button>
+            {selectedKey !== null && (
+              <>
+                <button
+                  onClick={handleReload}
+                  disabled={busy || !entry}
+                  className='bg-white/10 hover:bg-white/20 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
+                >
+                  Reload
+                </button>
+                <button
+                  onClick={handleDelete}
+                  disabled={!isConnected || busy || baseVersion === 0}
+                  className='bg-red-600 hover:bg-red-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
+                >
+                  Delete
+                </button>
+              </>
+            )}
+          </div>
+          {entry && entry.key === selectedKey && (
+            <div className='text-gray-400 text-xs'>
+              Version {entry.version}, updated {new Date(entry.updatedAt * 1000).toLocaleString()},{' '}
+              {formatExpiry(entry.expiresAt)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
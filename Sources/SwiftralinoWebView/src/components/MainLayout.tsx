@@ -1,13 +1,25 @@
 import React from 'react';
 import { useSwiftralino } from '@/lib/swiftralino-context';
+import { useSupports, useSwiftralinoQuerySync } from '@/lib/swiftralino-hooks';
+import { BackendSwitcher } from './BackendSwitcher';
 import { ConnectionStatus } from './ConnectionStatus';
 import { SystemInfo } from './SystemInfo';
 import { FileExplorer } from './FileExplorer';
 import { ProcessRunner } from './ProcessRunner';
 import { DistributedPlatform } from './DistributedPlatform';
+import { ErrorLog } from './ErrorLog';
+import { ErrorToasts } from './ErrorToasts';
+import { PermissionPrompt } from './PermissionPrompt';
+import { TraceInspector } from './TraceInspector';
 
 export const MainLayout: React.FC = () => {
-  const { connectionStatus } = useSwiftralino();
+  const { name, backend } = useSwiftralino();
+  useSwiftralinoQuerySync();
+  // Panels the backend cannot serve are left out
+  const hasSystem = useSupports('system');
+  const hasProcess = useSupports('process');
+  const hasFilesystem = useSupports('filesystem');
+  const hasDistributed = useSupports('distributed');
 
   return (
     <div className='min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900'>
@@ -20,17 +32,27 @@ export const MainLayout: React.FC = () => {
           <p className='text-xl text-gray-300 mb-6'>
             Modern cross-platform desktop apps with Swift backend & React frontend
           </p>
-          <ConnectionStatus status={connectionStatus} />
+          <ConnectionStatus />
+          <BackendSwitcher />
         </header>
 
-        {/* Main Content Grid */}
-        <div className='grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8 max-w-8xl mx-auto'>
-          <SystemInfo />
-          <FileExplorer />
-          <ProcessRunner />
-          <div className='lg:col-span-2 xl:col-span-3'>
-            <DistributedPlatform />
-          </div>
+        {/* Main Content Grid, remounted per backend so panel state does not leak across */}
+        <div
+          key={name}
+          className='grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-8 max-w-8xl mx-auto'
+        >
+          {hasSystem && <SystemInfo />}
+          {hasProcess && <ProcessRunner />}
+          {hasFilesystem && (
+            <div className='lg:col-span-2 xl:col-span-3'>
+              <FileExplorer />
+            </div>
+          )}
+          {hasDistributed && (
+            <div className='lg:col-span-2 xl:col-span-3'>
+              <DistributedPlatform />
+            </div>
+          )}
           <div className='lg:col-span-1 xl:col-span-1'>
             <div className='bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20'>
               <h3 className='text-2xl font-semibold text-white mb-4 flex items-center'>
@@ -57,17 +79,43 @@ export const MainLayout: React.FC = () => {
                   <span className='text-gray-400'>Distributed:</span>
                   <span className='text-white'>Swift Cluster</span>
                 </div>
+                {backend && (
+                  <>
+                    <div className='flex justify-between'>
+                      <span className='text-gray-400'>Protocol version:</span>
+                      <span className='text-white'>
+                        {backend.protocolVersion} ({backend.platform} {backend.version})
+                      </span>
+                    </div>
+                    <div className='flex justify-between gap-4'>
+                      <span className='text-gray-400'>Plugins:</span>
+                      <span className='text-white text-right'>
+                        {backend.plugins.length > 0
+                          ? backend.plugins.map((plugin) => plugin.name).join(', ')
+                          : 'None'}
+                      </span>
+                    </div>
+                  </>
+                )}
               </div>
             </div>
           </div>
+          <div className='lg:col-span-1 xl:col-span-2'>
+            <ErrorLog />
+          </div>
         </div>
 
         {/* Footer */}
         <footer className='text-center mt-16 text-gray-400'>
           <p>Built with Swift, Vapor, React, and modern web technologies</p>
           <p>Demonstrating lightweight cross-platform development</p>
+          <p className='text-sm mt-2'>Press Ctrl+Shift+X to inspect bridge requests</p>
         </footer>
       </div>
+
+      <ErrorToasts />
+      <PermissionPrompt />
+      <TraceInspector />
     </div>
   );
 };
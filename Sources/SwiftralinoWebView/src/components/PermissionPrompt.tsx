@@ -0,0 +1,75 @@
+import React from 'react';
+import { usePermissionStore } from '@/lib/swiftralino-permission-store';
+import { PERMISSION_DESCRIPTIONS } from '@/lib/swiftralino-permissions';
+
+export const PermissionPrompt: React.FC = () => {
+  const prompts = usePermissionStore((state) => state.prompts);
+  const respond = usePermissionStore((state) => state.respond);
+  const current = prompts[0];
+
+  if (!current) {
+    return null;
+  }
+
+  const { request } = current;
+  const endpoint = request.operation ? `${request.action}/${request.operation}` : request.action;
+
+  return (
+    <div className='fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4'>
+      <div
+        role='dialog'
+        aria-modal='true'
+        aria-labelledby='permission-prompt-title'
+        className='bg-slate-800 border border-white/20 rounded-2xl p-6 w-full max-w-md shadow-xl'
+      >
+        <h3
+          id='permission-prompt-title'
+          className='text-xl font-semibold text-white mb-2 flex items-center'
+        >
+          <span className='text-2xl mr-3'>🔐</span>
+          Permission request
+        </h3>
+        <p className='text-gray-300 mb-4'>
+          The app wants to use <span className='font-mono text-white'>{endpoint}</span>, which needs
+          a permission it has not been granted.
+        </p>
+        <div className='bg-black/20 rounded-lg p-3 mb-4 text-sm space-y-1'>
+          <div>
+            <span className='text-gray-400'>Permission: </span>
+            <span className='text-white font-medium'>{request.permission}</span>
+            <span className='text-gray-400'> · {PERMISSION_DESCRIPTIONS[request.permission]}</span>
+          </div>
+          {request.path && (
+            <div>
+              <span className='text-gray-400'>Path: </span>
+              <span className='text-white font-mono break-all'>{request.path}</span>
+            </div>
+          )}
+          {request.command && (
+            <div>
+              <span className='text-gray-400'>Command: </span>
+              <span className='text-white font-mono break-all'>{request.command}</span>
+            </div>
+          )}
+        </div>
+        <div className='flex justify-end space-x-2'>
+          <button
+            onClick={() => respond(current.id, false)}
+            className='bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded-lg transition-colors'
+          >
+            Deny
+          </button>
+          <button
+            onClick={() => respond(current.id, true)}
+            className='bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-lg transition-colors'
+          >
+            Allow
+          </button>
+        </div>
+        {prompts.length > 1 && (
+          <div className='text-xs text-gray-400 mt-3'>{prompts.length - 1} more waiting</div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,39 +1,102 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { useSwiftralino } from '@/lib/swiftralino-context';
-
-interface ExecuteResult {
-  exitCode: number;
-  output: string;
-  error: string;
-}
+import { useErrorStore } from '@/lib/swiftralino-error-store';
+import { useExecute, useSupports } from '@/lib/swiftralino-hooks';
+import {
+  EMPTY_PROCESS_OUTPUT,
+  type ProcessOutput,
+  appendProcessOutput,
+} from '@/lib/swiftralino-process';
+import type { SwiftralinoProcess, SwiftralinoProcessExit } from '@/types/swiftralino';
 
 export const ProcessRunner: React.FC = () => {
   const { client, isConnected } = useSwiftralino();
   const [command, setCommand] = useState('echo');
   const [args, setArgs] = useState('Hello from Swift!');
-  const [result, setResult] = useState<ExecuteResult | null>(null);
   const [loading, setLoading] = useState(false);
+  const execute = useExecute({ meta: { source: 'Process Runner' } });
+  const result = execute.data;
+  const reportError = useErrorStore((state) => state.reportError);
+
+  // Streaming mode state; backends without spawn only execute
+  const canStream = useSupports('process', 'spawn');
+  const [streamingChecked, setStreaming] = useState(false);
+  const streaming = streamingChecked && canStream;
+  const [runningProcess, setRunningProcess] = useState<SwiftralinoProcess | null>(null);
+  const [output, setOutput] = useState<ProcessOutput>(EMPTY_PROCESS_OUTPUT);
+  const [exit, setExit] = useState<SwiftralinoProcessExit | null>(null);
+  const [stdinLine, setStdinLine] = useState('');
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  // Output buffers in the handle until these listeners attach. Unmounting
+  // kills the process, since nobody would see its output anymore.
+  useEffect(() => {
+    if (!runningProcess) {
+      return;
+    }
+    const append = (stream: 'stdout' | 'stderr') => (text: string) =>
+      setOutput((current) => appendProcessOutput(current, stream, text));
+    const unsubscribe = [
+      runningProcess.onStdout(append('stdout')),
+      runningProcess.onStderr(append('stderr')),
+      runningProcess.onExit((processExit) => {
+        setExit(processExit);
+        setRunningProcess(null);
+      }),
+    ];
+    return () => {
+      unsubscribe.forEach((remove) => remove());
+      runningProcess.kill().catch(() => {});
+    };
+  }, [runningProcess]);
+
+  // Keep the live output scrolled to the latest line
+  useEffect(() => {
+    outputRef.current?.scrollTo({ top: outputRef.current.scrollHeight });
+  }, [output]);
+
+  const parseArgs = () => (args ? args.split(' ').filter((arg) => arg.trim()) : []);
+
+  const handleExecuteCommand = () => {
+    if (!isConnected || !command) {
+      return;
+    }
+    execute.mutate({ command, args: parseArgs() });
+  };
 
-  const handleExecuteCommand = async () => {
+  const handleSpawnCommand = async () => {
     if (!client || !isConnected || !command) {
       return;
     }
 
+    setOutput(EMPTY_PROCESS_OUTPUT);
+    setExit(null);
     setLoading(true);
     try {
-      const argsList = args ? args.split(' ').filter((arg) => arg.trim()) : [];
-      const response = await client.execute(command, argsList);
-      if (response.type === 'response' && response.data) {
-        setResult(response.data);
-      }
+      setRunningProcess(await client.spawn(command, parseArgs()));
     } catch (error) {
-      // Failed to execute command - silently handle the error
-      // In production, you might want to show a user-friendly error message
+      reportError('Process Runner', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleSendInput = async () => {
+    if (!runningProcess) {
+      return;
+    }
+    try {
+      await runningProcess.write(`${stdinLine}\n`);
+      setStdinLine('');
+    } catch (error) {
+      reportError('Process Runner', error);
+    }
+  };
+
+  const handleKill = () => {
+    runningProcess?.kill('SIGTERM').catch((error: unknown) => reportError('Process Runner', error));
+  };
+
   return (
     <div className='bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20'>
       <h3 className='text-2xl font-semibold text-white mb-4 flex items-center'>
@@ -64,17 +127,94 @@ export const ProcessRunner: React.FC = () => {
             placeholder='Enter arguments (space-separated)'
           />
         </div>
+
+        {canStream && (
+          <label className='flex items-center text-gray-300'>
+            <input
+              type='checkbox'
+              checked={streaming}
+              onChange={(e) => setStreaming(e.target.checked)}
+              disabled={runningProcess !== null}
+              className='mr-2'
+            />
+            Stream output live
+          </label>
+        )}
+      </div>
+
+      <div className='mt-4 flex space-x-2'>
+        <button
+          onClick={streaming ? handleSpawnCommand : handleExecuteCommand}
+          disabled={!isConnected || loading || execute.isPending || runningProcess !== null}
+          className='bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
+        >
+          {loading || execute.isPending || runningProcess ? 'Executing...' : 'Execute Command'}
+        </button>
+        {runningProcess && (
+          <button
+            onClick={handleKill}
+            className='bg-red-600 hover:bg-red-700 text-white px-4 py-2 rounded-lg transition-colors'
+          >
+            Kill
+          </button>
+        )}
       </div>
 
-      <button
-        onClick={handleExecuteCommand}
-        disabled={!isConnected || loading}
-        className='mt-4 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
-      >
-        {loading ? 'Executing...' : 'Execute Command'}
-      </button>
+      {streaming && (output.chunks.length > 0 || runningProcess || exit) && (
+        <div className='mt-4 bg-black/20 rounded-lg p-4 space-y-2'>
+          <pre
+            ref={outputRef}
+            className='text-sm max-h-64 overflow-y-auto bg-black/30 p-2 rounded whitespace-pre-wrap'
+          >
+            {output.dropped > 0 && (
+              <span className='block text-gray-400 italic'>
+                … {output.dropped.toLocaleString()} earlier characters not shown
+              </span>
+            )}
+            {output.chunks.map((chunk, index) => (
+              <span
+                key={index}
+                className={chunk.stream === 'stderr' ? 'text-red-300' : 'text-green-300'}
+              >
+                {chunk.text}
+              </span>
+            ))}
+          </pre>
+
+          {runningProcess && (
+            <div className='flex space-x-2'>
+              <input
+                type='text'
+                value={stdinLine}
+                onChange={(e) => setStdinLine(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSendInput()}
+                className='flex-1 px-3 py-1 bg-black/20 border border-gray-600 rounded-lg text-white placeholder-gray-400 font-mono text-sm'
+                placeholder='Send input to the process'
+              />
+              <button
+                onClick={handleSendInput}
+                className='bg-gray-600 hover:bg-gray-700 text-white px-3 py-1 rounded-lg text-sm transition-colors'
+              >
+                Send
+              </button>
+            </div>
+          )}
+
+          {exit && exit.disconnected && (
+            <div className='text-sm text-red-300'>
+              Connection lost; the backend ended the process
+            </div>
+          )}
+          {exit && !exit.disconnected && (
+            <div className='text-sm text-gray-300'>
+              <span className='font-semibold'>Exit Code:</span> {exit.exitCode ?? '—'}
+              {exit.signal && <span className='ml-2'>(signal {exit.signal})</span>}
+            </div>
+          )}
+        </div>
+      )}
 
-      {result && (
+      {!streaming && result && (
         <div className='mt-4 bg-black/20 rounded-lg p-4'>
           <div className='text-sm space-y-2'>
             <div className='text-gray-300'>
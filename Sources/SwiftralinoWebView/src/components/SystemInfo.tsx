@@ -1,36 +1,16 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { useSwiftralino } from '@/lib/swiftralino-context';
-
-interface SystemInfoData {
-  operatingSystem: string;
-  hostName: string;
-  processIdentifier: number;
-  uptime: number;
-}
+import { useSystemInfo } from '@/lib/swiftralino-hooks';
 
 export const SystemInfo: React.FC = () => {
-  const { client, isConnected } = useSwiftralino();
-  const [systemInfo, setSystemInfo] = useState<SystemInfoData | null>(null);
-  const [loading, setLoading] = useState(false);
-
-  const handleGetSystemInfo = async () => {
-    if (!client || !isConnected) {
-      return;
-    }
-
-    setLoading(true);
-    try {
-      const response = await client.getSystemInfo();
-      if (response.type === 'response' && response.data) {
-        setSystemInfo(response.data);
-      }
-    } catch (error) {
-      // Failed to get system info - silently handle the error
-      // In production, you might want to show a user-friendly error message
-    } finally {
-      setLoading(false);
-    }
-  };
+  const { isConnected } = useSwiftralino();
+  const {
+    data: systemInfo,
+    isFetching,
+    refetch,
+  } = useSystemInfo({
+    meta: { source: 'System Information' },
+  });
 
   return (
     <div className='bg-white/10 backdrop-blur-md rounded-2xl p-6 border border-white/20'>
@@ -43,11 +23,11 @@ export const SystemInfo: React.FC = () => {
       </p>
 
       <button
-        onClick={handleGetSystemInfo}
-        disabled={!isConnected || loading}
+        onClick={() => refetch()}
+        disabled={!isConnected || isFetching}
         className='bg-blue-600 hover:bg-blue-700 disabled:bg-gray-500 text-white px-4 py-2 rounded-lg transition-colors'
       >
-        {loading ? 'Loading...' : 'Get System Info'}
+        {isFetching ? 'Loading...' : 'Refresh System Info'}
       </button>
 
       {systemInfo && (
@@ -0,0 +1,99 @@
+import React from 'react';
+import type { ClusterPlatform, PlatformSelector } from '@/types/swiftralino';
+
+interface TargetPickerProps {
+  platforms: ClusterPlatform[];
+  selector: PlatformSelector;
+  onChange: (selector: PlatformSelector) => void;
+  disabled?: boolean;
+}
+
+const unique = (values: string[]) => [...new Set(values)].sort();
+
+// Nothing picked in a row means that row does not narrow the selection
+const toggle = (values: string[] | undefined, value: string): string[] | undefined => {
+  const current = values ?? [];
+  const next = current.includes(value)
+    ? current.filter((entry) => entry !== value)
+    : [...current, value];
+  return next.length > 0 ? next : undefined;
+};
+
+const ChipRow: React.FC<{
+  label: string;
+  options: Array<{ value: string; label: string }>;
+  selected: string[] | undefined;
+  onToggle: (value: string) => void;
+  disabled?: boolean;
+}> = ({ label, options, selected, onToggle, disabled }) => (
+  <div className='flex flex-wrap items-center gap-2'>
+    <span className='text-gray-400 text-sm w-28'>{label}:</span>
+    {options.map(({ value, label: optionLabel }) => (
+      <button
+        key={value}
+        onClick={() => onToggle(value)}
+        disabled={disabled}
+        aria-pressed={selected?.includes(value) ?? false}
+        className={`px-2 py-1 rounded text-xs transition-colors ${
+          selected?.includes(value)
+            ? 'bg-purple-600 text-white'
+            : 'bg-white/10 text-gray-300 hover:bg-white/20'
+        }`}
+      >
+        {optionLabel}
+      </button>
+    ))}
+  </div>
+);
+
+// Builds a PlatformSelector from what the cluster members report
+export const TargetPicker: React.FC<TargetPickerProps> = ({
+  platforms,
+  selector,
+  onChange,
+  disabled,
+}) => {
+  const capabilities = unique(platforms.flatMap((platform) => platform.capabilities));
+  const platformNames = unique(platforms.map((platform) => platform.platform));
+  const tags = unique(platforms.flatMap((platform) => platform.tags ?? []));
+  const selectedNames = selector.platform === undefined ? undefined : [selector.platform].flat();
+
+  return (
+    <div className='space-y-2'>
+      <ChipRow
+        label='Capabilities'
+        options={capabilities.map((value) => ({ value, label: value }))}
+        selected={selector.capabilities}
+        onToggle={(value) =>
+          onChange({ ...selector, capabilities: toggle(selector.capabilities, value) })
+        }
+        disabled={disabled}
+      />
+      <ChipRow
+        label='Platforms'
+        options={platformNames.map((value) => ({ value, label: value }))}
+        selected={selectedNames}
+        onToggle={(value) => onChange({ ...selector, platform: toggle(selectedNames, value) })}
+        disabled={disabled}
+      />
+      {tags.length > 0 && (
+        <ChipRow
+          label='Tags'
+          options={tags.map((value) => ({ value, label: value }))}
+          selected={selector.tags}
+          onToggle={(value) => onChange({ ...selector, tags: toggle(selector.tags, value) })}
+          disabled={disabled}
+        />
+      )}
+      <ChipRow
+        label='Members'
+        options={platforms.map((platform) => ({ value: platform.id, label: platform.deviceName }))}
+        selected={selector.platformIds}
+        onToggle={(value) =>
+          onChange({ ...selector, platformIds: toggle(selector.platformIds, value) })
+        }
+        disabled={disabled}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import React, { useCallback, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { useSwiftralino } from '@/lib/swiftralino-context';
+import { formatBytes } from '@/lib/swiftralino-files';
+import type { APIAction } from '@/lib/swiftralino-protocol';
+import { tracesToHar } from '@/lib/swiftralino-trace';
+import type { SwiftralinoTrace, SwiftralinoTraceOutcome } from '@/types/swiftralino';
+
+const NO_TRACES: SwiftralinoTrace[] = [];
+
+const OUTCOME_STYLES: Record<SwiftralinoTraceOutcome, string> = {
+  pending: 'text-yellow-300',
+  success: 'text-green-400',
+  error: 'text-red-400',
+  timeout: 'text-orange-400',
+  aborted: 'text-gray-400',
+};
+
+// Ctrl+Shift+X, or Cmd+Shift+X on macOS
+const isToggleShortcut = (event: KeyboardEvent) =>
+  (event.ctrlKey || event.metaKey) && event.shiftKey && event.key.toLowerCase() === 'x';
+
+const endpointOf = (trace: SwiftralinoTrace) =>
+  trace.operation ? `${trace.action}/${trace.operation}` : trace.action;
+
+const formatTime = (epochMs: number) =>
+  new Date(epochMs).toLocaleTimeString(undefined, { hour12: false });
+
+const downloadJson = (fileName: string, value: unknown) => {
+  const url = URL.createObjectURL(
+    new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' })
+  );
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Developer panel listing the active connection's recorded calls
+export const TraceInspector: React.FC = () => {
+  const { client, name } = useSwiftralino();
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState('');
+  const [outcome, setOutcome] = useState<SwiftralinoTraceOutcome | 'all'>('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  const subscribe = useCallback(
+    (onChange: () => void) => client?.onTrace(onChange) ?? (() => {}),
+    [client]
+  );
+  const traces = useSyncExternalStore(subscribe, () => client?.getTraces() ?? NO_TRACES);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isToggleShortcut(event)) {
+        event.preventDefault();
+        setOpen((current) => !current);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return traces
+      .filter(
+        (trace) =>
+          (outcome === 'all' || trace.outcome === outcome) &&
+          (!query ||
+            endpointOf(trace).toLowerCase().includes(query) ||
+            trace.id.toLowerCase().includes(query))
+      )
+      .reverse();
+  }, [traces, filter, outcome]);
+
+  if (!open) {
+    return null;
+  }
+
+  const selected = traces.find((trace) => trace.id === selectedId) ?? null;
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+
+  // Only API calls are replayed, through call() so the feature and permission
+  // checks apply as they did the first time; the outcome is recorded as a new trace
+  const canReplay = (trace: SwiftralinoTrace) =>
+    Boolean(client && trace.request && trace.type === 'api' && trace.operation);
+
+  const replay = (trace: SwiftralinoTrace) => {
+    if (!client || !trace.request || !canReplay(trace)) {
+      return;
+    }
+    const { operation, ...params } = trace.request.data ?? {};
+    setReplayError(null);
+    client
+      .call(trace.action as APIAction, operation as never, params as never)
+      .catch((error: unknown) => {
+        setReplayError(error instanceof Error ? error.message : String(error));
+      });
+  };
+
+  return (
+    <div className='fixed inset-x-0 bottom-0 z-40 h-[45vh] flex flex-col bg-slate-900/95 border-t border-white/20 text-sm text-gray-200 shadow-2xl'>
+      <div className='flex flex-wrap items-center gap-2 px-4 py-2 border-b border-white/10'>
+        <span className='font-semibold text-white mr-2'>🔍 Request Inspector</span>
+        <span className='text-gray-400'>
+          {name} · {visible.length} of {traces.length}
+        </span>
+        <input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder='Filter by action or id'
+          className='px-2 py-1 bg-black/30 border border-gray-600 rounded text-white placeholder-gray-500'
+        />
+        <select
+          value={outcome}
+          onChange={(e) => setOutcome(e.target.value as SwiftralinoTraceOutcome | 'all')}
+          className='px-2 py-1 bg-black/30 border border-gray-600 rounded text-white'
+        >
+          <option value='all'>All outcomes</option>
+          {Object.keys(OUTCOME_STYLES).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+        <div className='flex gap-2 ml-auto'>
+          <button
+            onClick={() => downloadJson(`swiftralino-traces-${stamp}.json`, visible)}
+            className='px-2 py-1 rounded border border-gray-600 hover:bg-white/10'
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => downloadJson(`swiftralino-traces-${stamp}.har`, tracesToHar(visible))}
+            className='px-2 py-1 rounded border border-gray-600 hover:bg-white/10'
+          >
+            Export HAR
+          </button>
+          <button
+            onClick={() => {
+              client?.clearTraces();
+              setSelectedId(null);
+            }}
+            className='px-2 py-1 rounded border border-gray-600 hover:bg-white/10'
+          >
+            Clear
+          </button>
+          <button
+            onClick={() => setOpen(false)}
+            className='px-2 py-1 rounded hover:bg-white/10'
+            aria-label='Close inspector'
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className='flex flex-1 min-h-0'>
+        <div className='flex-1 overflow-auto'>
+          <table className='w-full'>
+            <thead className='sticky top-0 bg-slate-900 text-gray-400 text-left'>
+              <tr>
+                <th className='px-3 py-1 font-normal'>Time</th>
+                <th className='px-3 py-1 font-normal'>Endpoint</th>
+                <th className='px-3 py-1 font-normal text-right'>Duration</th>
+                <th className='px-3 py-1 font-normal text-right'>Sent</th>
+                <th className='px-3 py-1 font-normal text-right'>Received</th>
+                <th className='px-3 py-1 font-normal'>Outcome</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((trace) => (
+                <tr
+                  key={trace.id}
+                  onClick={() => {
+                    setSelectedId(trace.id);
+                    setReplayError(null);
+                  }}
+                  className={`cursor-pointer hover:bg-white/5 ${
+                    trace.id === selectedId ? 'bg-white/10' : ''
+                  }`}
+                >
+                  <td className='px-3 py-1 whitespace-nowrap font-mono'>
+                    {formatTime(trace.startedAt)}
+                  </td>
+                  <td className='px-3 py-1 font-mono'>
+                    <span className='text-gray-500'>{trace.type} </span>
+                    {endpointOf(trace)}
+                  </td>
+                  <td className='px-3 py-1 text-right whitespace-nowrap'>
+                    {trace.duration === null ? '…' : `${trace.duration} ms`}
+                  </td>
+                  <td className='px-3 py-1 text-right whitespace-nowrap'>
+                    {formatBytes(trace.requestSize)}
+                  </td>
+                  <td className='px-3 py-1 text-right whitespace-nowrap'>
+                    {trace.responseSize === null ? '—' : formatBytes(trace.responseSize)}
+                  </td>
+                  <td className={`px-3 py-1 ${OUTCOME_STYLES[trace.outcome]}`}>{trace.outcome}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && (
+            <div className='text-gray-400 italic p-3'>
+              No requests recorded yet. Press Ctrl+Shift+X to hide this panel.
+            </div>
+          )}
+        </div>
+
+        {selected && (
+          <div className='w-2/5 border-l border-white/10 overflow-auto p-3 space-y-3'>
+            <div className='flex items-center gap-2'>
+              <span className='font-mono text-white break-all'>{selected.id}</span>
+              <button
+                onClick={() => replay(selected)}
+                disabled={!canReplay(selected)}
+                className='ml-auto px-2 py-1 rounded bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white'
+              >
+                Replay
+              </button>
+            </div>
+            {selected.error && (
+              <div className='text-red-300'>
+                {selected.error.name}: {selected.error.message}
+              </div>
+            )}
+            {replayError && <div className='text-red-300'>Replay failed: {replayError}</div>}
+            <div>
+              <div className='text-gray-400 mb-1'>Request</div>
+              <pre className='bg-black/30 rounded p-2 text-xs whitespace-pre-wrap break-all'>
+                {selected.request
+                  ? JSON.stringify(selected.request, null, 2)
+                  : `${formatBytes(selected.requestSize)}, too large to record`}
+              </pre>
+            </div>
+            <div>
+              <div className='text-gray-400 mb-1'>Response</div>
+              <pre className='bg-black/30 rounded p-2 text-xs whitespace-pre-wrap break-all'>
+                {selected.response
+                  ? JSON.stringify(selected.response, null, 2)
+                  : selected.responseSize !== null
+                    ? `${formatBytes(selected.responseSize)}, too large to record`
+                    : 'No response'}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SwiftralinoSession,
+  canonicalJson,
+  constantTimeEqual,
+  signMessage,
+  verifyMessage,
+} from './swiftralino-auth';
+import type { SwiftralinoMessage } from '@/types/swiftralino';
+
+const TOKEN = 'bridge-token';
+
+const message: SwiftralinoMessage = {
+  id: 'm1',
+  type: 'api',
+  action: 'filesystem',
+  data: { operation: 'readFile', path: '/tmp/a.txt' },
+};
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level and drops undefined fields', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 3, e: 4 }], c: undefined } })).toBe(
+      '{"a":{"d":[2,{"e":4,"f":3}]},"b":1}'
+    );
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+});
+
+describe('signMessage', () => {
+  it('signs the same bytes whatever the key order', () => {
+    const reordered = { ...message, data: { path: '/tmp/a.txt', operation: 'readFile' } };
+    expect(signMessage(reordered, TOKEN, 's1', 1).auth).toEqual(
+      signMessage(message, TOKEN, 's1', 1).auth
+    );
+  });
+
+  it('binds the signature to the session, sequence and token', () => {
+    const { signature } = signMessage(message, TOKEN, 's1', 1).auth!;
+    expect(signature).toMatch(/^[0-9a-f]{64}$/);
+    expect(signMessage(message, TOKEN, 's2', 1).auth?.signature).not.toBe(signature);
+    expect(signMessage(message, TOKEN, 's1', 2).auth?.signature).not.toBe(signature);
+    expect(signMessage(message, 'other', 's1', 1).auth?.signature).not.toBe(signature);
+  });
+});
+
+describe('constantTimeEqual', () => {
+  it('compares whole strings', () => {
+    expect(constantTimeEqual('abc', 'abc')).toBe(true);
+    expect(constantTimeEqual('abc', 'abd')).toBe(false);
+    expect(constantTimeEqual('abc', 'ab')).toBe(false);
+    expect(constantTimeEqual('ab', 'abc')).toBe(false);
+    expect(constantTimeEqual('', '')).toBe(true);
+  });
+});
+
+describe('verifyMessage', () => {
+  it('accepts untouched messages only', () => {
+    const signed = signMessage(message, TOKEN, 's1', 1);
+    expect(verifyMessage(signed, TOKEN)).toBe(true);
+    expect(verifyMessage(signed, 'other')).toBe(false);
+    expect(verifyMessage({ ...signed, data: { operation: 'readFile', path: '/etc' } }, TOKEN)).toBe(
+      false
+    );
+    expect(verifyMessage({ ...signed, auth: { ...signed.auth!, seq: 2 } }, TOKEN)).toBe(false);
+    expect(verifyMessage(message, TOKEN)).toBe(false);
+  });
+});
+
+describe('SwiftralinoSession', () => {
+  it('numbers the messages it signs', () => {
+    const session = new SwiftralinoSession(TOKEN, 's1');
+    const first = session.sign(message);
+    const second = session.sign(message);
+    expect([first.auth?.seq, second.auth?.seq]).toEqual([1, 2]);
+    expect(first.auth?.sessionId).toBe('s1');
+    expect(verifyMessage(second, TOKEN)).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { hmacSha256Hex } from './swiftralino-checksum';
+import { encodeUtf8 } from './swiftralino-encoding';
+import type { SwiftralinoMessage, SwiftralinoTokenSource } from '@/types/swiftralino';
+
+// Global the host sets to the per-launch token before the page loads
+export const DEFAULT_TOKEN_GLOBAL = '__SWIFTRALINO_TOKEN__';
+
+// Null when the source has no token to give
+export const resolveToken = async (source: SwiftralinoTokenSource): Promise<string | null> => {
+  if (typeof source === 'string') {
+    return source || null;
+  }
+  if (typeof source === 'function') {
+    return (await source()) || null;
+  }
+  if ('global' in source) {
+    const value = (globalThis as Record<string, unknown>)[source.global];
+    return typeof value === 'string' && value ? value : null;
+  }
+  const response = await fetch(source.url, { cache: 'no-store' });
+  return response.ok ? (await response.text()).trim() || null : null;
+};
+
+// JSON with sorted keys, so both ends sign the same bytes however their
+// JSON libraries order object fields
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+// signature = hex HMAC-SHA256 keyed with the token over these lines:
+// sessionId, seq, id, type, action, canonical JSON of data
+const signingPayload = (message: SwiftralinoMessage, sessionId: string, seq: number): string =>
+  [sessionId, seq, message.id, message.type, message.action, canonicalJson(message.data)].join(
+    '\n'
+  );
+
+export const signMessage = (
+  message: SwiftralinoMessage,
+  token: string,
+  sessionId: string,
+  seq: number
+): SwiftralinoMessage => ({
+  ...message,
+  auth: {
+    sessionId,
+    seq,
+    signature: hmacSha256Hex(
+      encodeUtf8(token),
+      encodeUtf8(signingPayload(message, sessionId, seq))
+    ),
+  },
+});
+
+// Takes as long for a near miss as for a wrong first character, so timing
+// does not reveal how much of a token or signature was guessed right
+export const constantTimeEqual = (a: string, b: string): boolean => {
+  const left = encodeUtf8(a);
+  const right = encodeUtf8(b);
+  let difference = left.length ^ right.length;
+  for (let index = 0; index < left.length; index++) {
+    difference |= left[index] ^ (right[index] ?? 0);
+  }
+  return difference === 0;
+};
+
+// For backends written in TypeScript; checks the signature, not the sequence
+export const verifyMessage = (message: SwiftralinoMessage, token: string): boolean => {
+  if (!message.auth || typeof message.auth.signature !== 'string') {
+    return false;
+  }
+  const { sessionId, seq, signature } = message.auth;
+  const { auth: _auth, ...unsigned } = message;
+  const expected = signMessage(unsigned, token, sessionId, seq).auth?.signature ?? '';
+  return constantTimeEqual(expected, signature);
+};
+
+// Signs outgoing messages for one authenticated connection
+export class SwiftralinoSession {
+  readonly sessionId: string;
+  private token: string;
+  private seq = 0;
+
+  constructor(token: string, sessionId: string) {
+    this.token = token;
+    this.sessionId = sessionId;
+  }
+
+  sign(message: SwiftralinoMessage): SwiftralinoMessage {
+    this.seq++;
+    return signMessage(message, this.token, this.sessionId, this.seq);
+  }
+}
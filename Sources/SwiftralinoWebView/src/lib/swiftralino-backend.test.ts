@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { signMessage } from './swiftralino-auth';
+import {
+  type BackendSession,
+  checkMessageAuth,
+  invalidMessageResponse,
+  isMessage,
+  permissionString,
+  validateParams,
+} from './swiftralino-backend';
+import type { SwiftralinoMessage } from '@/types/swiftralino';
+
+const TOKEN = 'bridge-token';
+
+const ping: SwiftralinoMessage = { id: 'p1', type: 'system', action: 'ping' };
+
+describe('isMessage', () => {
+  it('accepts objects with the envelope fields', () => {
+    expect(isMessage(ping)).toBe(true);
+    expect(isMessage({ ...ping, data: { operation: 'info' } })).toBe(true);
+  });
+
+  it('rejects anything else that parses as JSON', () => {
+    [null, [], 'ping', 1, { id: 1, type: 'system', action: 'ping' }, { ...ping, data: [] }].forEach(
+      (value) => expect(isMessage(value)).toBe(false)
+    );
+  });
+});
+
+describe('invalidMessageResponse', () => {
+  it('answers on the message id when there is one', () => {
+    expect(invalidMessageResponse({ id: 'x1', type: 3 })).toEqual({
+      id: 'x1',
+      type: 'error',
+      action: 'error',
+      data: { message: 'Invalid message format' },
+    });
+    expect(invalidMessageResponse(null).id).toEqual(expect.any(String));
+  });
+});
+
+describe('checkMessageAuth', () => {
+  const sign = (message: SwiftralinoMessage, seq: number, token = TOKEN) =>
+    signMessage(message, token, 's1', seq);
+
+  it('lets everything through without a token', () => {
+    expect(checkMessageAuth(ping, undefined, undefined)).toBeNull();
+  });
+
+  it('checks the handshake token', () => {
+    const handshake = (token: string): SwiftralinoMessage => ({
+      id: 'a1',
+      type: 'system',
+      action: 'authenticate',
+      data: { token },
+    });
+    expect(checkMessageAuth(handshake(TOKEN), TOKEN, undefined)).toBeNull();
+    expect(checkMessageAuth(handshake('guess'), TOKEN, undefined)).toBe(
+      'Authentication failed: invalid token'
+    );
+  });
+
+  it('requires a session before anything else', () => {
+    expect(checkMessageAuth(sign(ping, 1), TOKEN, undefined)).toBe('Authentication required');
+  });
+
+  it('accepts increasing sequence numbers and refuses replays', () => {
+    const session: BackendSession = { sessionId: 's1', lastSeq: 0 };
+    expect(checkMessageAuth(sign(ping, 1), TOKEN, session)).toBeNull();
+    expect(checkMessageAuth(sign(ping, 3), TOKEN, session)).toBeNull();
+    expect(session.lastSeq).toBe(3);
+    expect(checkMessageAuth(sign(ping, 3), TOKEN, session)).toBe(
+      'Authentication failed: invalid signature'
+    );
+    expect(checkMessageAuth(sign(ping, 2), TOKEN, session)).toBe(
+      'Authentication failed: invalid signature'
+    );
+  });
+
+  it('refuses unsigned, forged and foreign-session messages', () => {
+    const session: BackendSession = { sessionId: 's1', lastSeq: 0 };
+    expect(checkMessageAuth(ping, TOKEN, session)).not.toBeNull();
+    expect(checkMessageAuth(sign(ping, 1, 'guess'), TOKEN, session)).not.toBeNull();
+    expect(checkMessageAuth(signMessage(ping, TOKEN, 's2', 1), TOKEN, session)).not.toBeNull();
+    expect(session.lastSeq).toBe(0);
+  });
+
+  it('leaves batch envelopes to their members', () => {
+    const batch: SwiftralinoMessage = { id: 'b1', type: 'system', action: 'batch', data: {} };
+    expect(checkMessageAuth(batch, TOKEN, undefined)).toBeNull();
+  });
+});
+
+describe('validateParams', () => {
+  it('throws for params the protocol does not allow', () => {
+    expect(() => validateParams('filesystem', 'readFile', { path: '/a' })).not.toThrow();
+    expect(() => validateParams('filesystem', 'readFile', { path: 1 })).toThrow(
+      'Invalid parameters: path: expected string, got number'
+    );
+  });
+});
+
+describe('permissionString', () => {
+  it('renders mode bits like ls', () => {
+    expect(permissionString(0o755)).toBe('rwxr-xr-x');
+    expect(permissionString(0o640)).toBe('rw-r-----');
+  });
+});
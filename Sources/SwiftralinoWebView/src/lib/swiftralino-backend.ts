@@ -0,0 +1,109 @@
+import { constantTimeEqual, verifyMessage } from './swiftralino-auth';
+import { getParamsShape } from './swiftralino-protocol';
+import { randomId } from './swiftralino-runtime';
+import type { SwiftralinoMessage, SwiftralinoResponse } from '@/types/swiftralino';
+
+// Shared by the backends written in TypeScript, the in-memory mock and the
+// reference server in src/server, so both answer like MessageHandler.swift.
+
+// Reported as `API execution failed: <message>`, like the Swift APIError cases
+export class BackendAPIError extends Error {}
+
+export interface BackendSession {
+  sessionId: string;
+  lastSeq: number;
+}
+
+export const response = (message: SwiftralinoMessage, action: string, data: unknown) =>
+  ({ id: message.id, type: 'response', action, data }) satisfies SwiftralinoResponse;
+
+export const errorResponse = (message: SwiftralinoMessage, error: string) =>
+  ({
+    id: message.id,
+    type: 'error',
+    action: 'error',
+    data: { original_action: message.action, message: error },
+  }) satisfies SwiftralinoResponse;
+
+// Valid JSON is not necessarily a message, e.g. `null` or `[]`
+export const isMessage = (value: unknown): value is SwiftralinoMessage => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const { id, type, action, data } = value as Record<string, unknown>;
+  return (
+    typeof id === 'string' &&
+    typeof type === 'string' &&
+    typeof action === 'string' &&
+    (data === undefined || (typeof data === 'object' && data !== null && !Array.isArray(data)))
+  );
+};
+
+// Keeps the id when there is one, so a batch member still gets its answer
+export const invalidMessageResponse = (value: unknown): SwiftralinoResponse => {
+  const id = (value as { id?: unknown } | null)?.id;
+  return {
+    id: typeof id === 'string' ? id : randomId(),
+    type: 'error',
+    action: 'error',
+    data: { message: 'Invalid message format' },
+  };
+};
+
+export const permissionString = (mode: number): string =>
+  [6, 3, 0]
+    .map((shift) =>
+      ['r', 'w', 'x'].map((flag, bit) => (mode & ((0b100 >> bit) << shift) ? flag : '-')).join('')
+    )
+    .join('');
+
+// Throws for params the Swift side could not decode
+export const validateParams = (
+  action: string,
+  operation: string,
+  params: Record<string, unknown>
+): void => {
+  const issues = Object.entries(getParamsShape(action, operation) ?? {}).flatMap(([key, schema]) =>
+    schema.validate(params[key], key)
+  );
+  if (issues.length > 0) {
+    throw new BackendAPIError(`Invalid parameters: ${issues.join('; ')}`);
+  }
+};
+
+// The reason to refuse a message, if any. Without a token every message
+// passes; with one, everything but the handshake must carry a valid signature.
+export const checkMessageAuth = (
+  message: SwiftralinoMessage,
+  token: string | undefined,
+  session: BackendSession | undefined
+): string | null => {
+  if (token === undefined) {
+    return null;
+  }
+  if (message.type === 'system' && message.action === 'authenticate') {
+    const candidate = message.data?.token;
+    return typeof candidate === 'string' && constantTimeEqual(candidate, token)
+      ? null
+      : 'Authentication failed: invalid token';
+  }
+  // Every member of a batch is checked on its own, all of them before the
+  // first one runs
+  if (message.type === 'system' && message.action === 'batch') {
+    return null;
+  }
+  if (!session) {
+    return 'Authentication required';
+  }
+  const { auth } = message;
+  if (
+    !auth ||
+    auth.sessionId !== session.sessionId ||
+    auth.seq <= session.lastSeq ||
+    !verifyMessage(message, token)
+  ) {
+    return 'Authentication failed: invalid signature';
+  }
+  session.lastSeq = auth.seq;
+  return null;
+};
@@ -0,0 +1,105 @@
+import { defaultTimers, randomId } from './swiftralino-runtime';
+import type {
+  SwiftralinoBatchingConfig,
+  SwiftralinoMessage,
+  SwiftralinoTimers,
+} from '@/types/swiftralino';
+
+const DEFAULT_WINDOW = 0;
+const DEFAULT_MAX_SIZE = 50;
+
+interface BatcherCallbacks {
+  // Sends one group of messages, in order, as a single frame
+  send: (messages: SwiftralinoMessage[]) => void;
+}
+
+// Several messages travelling in one frame; the backend answers with a single
+// `batch` response holding every member's response
+export const createBatchMessage = (messages: SwiftralinoMessage[]): SwiftralinoMessage => ({
+  id: randomId(),
+  type: 'system',
+  action: 'batch',
+  data: { messages },
+});
+
+// Collects outgoing messages so they can share a frame: everything sent inside
+// collect() goes out together, and with `enabled` so does everything sent
+// within `window` ms
+export class MessageBatcher {
+  private config: Required<SwiftralinoBatchingConfig>;
+  private callbacks: BatcherCallbacks;
+  private outbox: SwiftralinoMessage[] = [];
+  private timers: SwiftralinoTimers;
+  private timerId: unknown = null;
+  private collecting = 0;
+  // Set once the backend turned a batch down, until the connection closes
+  private unsupported = false;
+
+  constructor(
+    config: SwiftralinoBatchingConfig,
+    callbacks: BatcherCallbacks,
+    timers: SwiftralinoTimers = defaultTimers
+  ) {
+    this.config = {
+      enabled: config.enabled ?? false,
+      window: config.window ?? DEFAULT_WINDOW,
+      maxSize: Math.max(1, config.maxSize ?? DEFAULT_MAX_SIZE),
+    };
+    this.callbacks = callbacks;
+    this.timers = timers;
+  }
+
+  // Runs `collect` and sends the messages it produced as one group
+  collect<T>(collect: () => T): T {
+    this.collecting++;
+    try {
+      return collect();
+    } finally {
+      this.collecting--;
+      if (this.collecting === 0) {
+        this.flush();
+      }
+    }
+  }
+
+  // False when the message should be sent on its own right away
+  enqueue(message: SwiftralinoMessage): boolean {
+    if (this.unsupported || (this.collecting === 0 && !this.config.enabled)) {
+      return false;
+    }
+    this.outbox.push(message);
+    if (this.collecting === 0 && this.timerId === null) {
+      this.timerId = this.timers.setTimeout(() => this.flush(), this.config.window);
+    }
+    return true;
+  }
+
+  flush(): void {
+    if (this.timerId !== null) {
+      this.timers.clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    const messages = this.outbox;
+    this.outbox = [];
+    for (let start = 0; start < messages.length; start += this.config.maxSize) {
+      this.callbacks.send(messages.slice(start, start + this.config.maxSize));
+    }
+  }
+
+  // Backends without batching answer the envelope with an unknown action error
+  disable(): void {
+    this.unsupported = true;
+  }
+
+  // On close: returns the unsent messages and forgets what the backend supported
+  reset(): SwiftralinoMessage[] {
+    if (this.timerId !== null) {
+      this.timers.clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    const dropped = this.outbox;
+    this.outbox = [];
+    this.unsupported = false;
+    return dropped;
+  }
+}
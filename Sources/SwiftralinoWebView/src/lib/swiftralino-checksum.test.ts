@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Sha256, hmacSha256Hex, sha256Hex } from './swiftralino-checksum';
+import { encodeUtf8 } from './swiftralino-encoding';
+
+describe('sha256Hex', () => {
+  it('matches the FIPS 180-2 vectors', () => {
+    expect(sha256Hex(new Uint8Array())).toBe(
+      'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+    );
+    expect(sha256Hex(encodeUtf8('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+    expect(sha256Hex(encodeUtf8('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('gives the same digest however the input is split', () => {
+    const bytes = encodeUtf8('x'.repeat(200));
+    const hash = new Sha256().update(bytes.subarray(0, 63)).update(bytes.subarray(63)).digest();
+    expect(hash).toBe(sha256Hex(bytes));
+  });
+});
+
+describe('hmacSha256Hex', () => {
+  it('matches the RFC 4231 vectors', () => {
+    expect(hmacSha256Hex(new Uint8Array(20).fill(0x0b), encodeUtf8('Hi There'))).toBe(
+      'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+    );
+    expect(hmacSha256Hex(encodeUtf8('Jefe'), encodeUtf8('what do ya want for nothing?'))).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+
+  it('hashes keys longer than a block first', () => {
+    expect(
+      hmacSha256Hex(
+        new Uint8Array(131).fill(0xaa),
+        encodeUtf8('Test Using Larger Than Block-Size Key - Hash Key First')
+      )
+    ).toBe('60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54');
+  });
+});
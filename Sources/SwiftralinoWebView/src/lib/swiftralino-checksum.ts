@@ -0,0 +1,116 @@
+// Incremental SHA-256, so transfers can hash chunk by chunk. WebCrypto only
+// hashes whole buffers and is missing outside secure contexts.
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+const toHex = (bytes: Uint8Array): string =>
+  Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+const rotr = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+export class Sha256 {
+  private state = new Uint32Array(INITIAL_STATE);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private words = new Uint32Array(64);
+
+  update(bytes: Uint8Array): this {
+    this.totalLength += bytes.length;
+    let offset = 0;
+    while (offset < bytes.length) {
+      const take = Math.min(64 - this.blockLength, bytes.length - offset);
+      this.block.set(bytes.subarray(offset, offset + take), this.blockLength);
+      this.blockLength += take;
+      offset += take;
+      if (this.blockLength === 64) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+    return this;
+  }
+
+  // Lowercase hex; pads the message, so call it once at the end
+  digest(): string {
+    return toHex(this.digestBytes());
+  }
+
+  digestBytes(): Uint8Array {
+    const bits = this.totalLength * 8;
+    const padding = new Uint8Array((this.blockLength < 56 ? 64 : 128) - this.blockLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 2 ** 32));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+    const bytes = new Uint8Array(32);
+    const output = new DataView(bytes.buffer);
+    this.state.forEach((word, index) => output.setUint32(index * 4, word));
+    return bytes;
+  }
+
+  private compress(): void {
+    const { block, words, state } = this;
+    for (let i = 0; i < 16; i++) {
+      words[i] =
+        (block[i * 4] << 24) |
+        (block[i * 4 + 1] << 16) |
+        (block[i * 4 + 2] << 8) |
+        block[i * 4 + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(words[i - 15], 7) ^ rotr(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotr(words[i - 2], 17) ^ rotr(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const t1 =
+        h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + words[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    // Uint32Array wraps the sums modulo 2^32
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+export const sha256Hex = (bytes: Uint8Array): string => new Sha256().update(bytes).digest();
+
+// RFC 2104 HMAC over SHA-256, hex encoded
+export const hmacSha256Hex = (key: Uint8Array, message: Uint8Array): string => {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? new Sha256().update(key).digestBytes() : key);
+  const inner = new Sha256().update(block.map((byte) => byte ^ 0x36)).update(message);
+  const outer = new Sha256().update(block.map((byte) => byte ^ 0x5c));
+  return toHex(outer.update(inner.digestBytes()).digestBytes());
+};
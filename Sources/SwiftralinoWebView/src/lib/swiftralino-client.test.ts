@@ -0,0 +1,332 @@
+import { describe, expect, it } from 'vitest';
+import { signMessage } from './swiftralino-auth';
+import { WebSocketSwiftralinoClient } from './swiftralino-client';
+import {
+  AuthenticationError,
+  ConnectionLostError,
+  ProtocolValidationError,
+  TransportError,
+} from './swiftralino-errors';
+import { MockSwiftralinoBackend, MockTransport } from './swiftralino-mock-backend';
+import { LazyMockTransport } from './swiftralino-transport';
+import type {
+  SwiftralinoConfig,
+  SwiftralinoIncomingMessage,
+  SwiftralinoMessage,
+  SwiftralinoResponse,
+  SwiftralinoTrace,
+  SwiftralinoTransportHandlers,
+} from '@/types/swiftralino';
+
+const TOKEN = 'bridge-token';
+const README = '/Users/demo/README.md';
+
+type Interceptor = (message: SwiftralinoMessage) => SwiftralinoIncomingMessage | undefined;
+
+// Mock transport that records what the client sends and can answer frames
+// itself instead of the backend
+class RecordingTransport extends MockTransport {
+  private frames: SwiftralinoMessage[];
+  private intercept: Interceptor;
+  private handlers: SwiftralinoTransportHandlers | null = null;
+
+  constructor(
+    backend: MockSwiftralinoBackend,
+    frames: SwiftralinoMessage[],
+    intercept: Interceptor
+  ) {
+    super(backend);
+    this.frames = frames;
+    this.intercept = intercept;
+  }
+
+  async open(handlers: SwiftralinoTransportHandlers): Promise<void> {
+    this.handlers = handlers;
+    return super.open(handlers);
+  }
+
+  send(frame: string): void {
+    const message = JSON.parse(frame) as SwiftralinoMessage;
+    this.frames.push(message);
+    const reply = this.intercept(message);
+    if (!reply) {
+      super.send(frame);
+      return;
+    }
+    setTimeout(() => this.handlers?.onMessage(JSON.stringify(reply)), 0);
+  }
+}
+
+const createClient = (
+  backend: MockSwiftralinoBackend,
+  config: Partial<SwiftralinoConfig> = {},
+  intercept: Interceptor = () => undefined
+) => {
+  const frames: SwiftralinoMessage[] = [];
+  const client = new WebSocketSwiftralinoClient({
+    wsUrl: '',
+    reconnectAttempts: 0,
+    reconnectDelay: 10,
+    reconnectJitter: 0,
+    heartbeat: { interval: 0 },
+    transport: () => new RecordingTransport(backend, frames, intercept),
+    ...config,
+  });
+  return { client, frames };
+};
+
+const readFile = (path = README): SwiftralinoMessage => ({
+  id: '',
+  type: 'api',
+  action: 'filesystem',
+  data: { operation: 'readFile', path },
+});
+
+const apiFrames = (frames: SwiftralinoMessage[]) =>
+  frames.filter((frame) => frame.type === 'api' || frame.action === 'batch');
+
+const echo = (text: string): SwiftralinoMessage => ({
+  id: '',
+  type: 'api',
+  action: 'process',
+  data: { operation: 'execute', command: 'echo', args: [text] },
+});
+
+describe('reconnecting', () => {
+  it('replays idempotent requests and fails the others', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 20 });
+    const { client } = createClient(backend, { reconnectAttempts: 3 });
+    await client.connect();
+
+    const read = client.sendMessage<{ content: string }>(readFile());
+    const run = client.sendMessage(echo('once'));
+    backend.dropConnections();
+
+    await expect(run).rejects.toBeInstanceOf(ConnectionLostError);
+    const response = await read;
+    expect(response.data?.content).toContain('# Demo');
+    expect(client.isConnected()).toBe(true);
+    client.disconnect();
+  });
+
+  it('queues calls made while reconnecting', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client } = createClient(backend, { reconnectAttempts: 3 });
+    await client.connect();
+
+    backend.dropConnections();
+    expect(client.isConnected()).toBe(false);
+    const run = await client.sendMessage<{ output: string }>(echo('queued'));
+    expect(run.data?.output).toBe('queued\n');
+    client.disconnect();
+  });
+
+  it('fails calls made while reconnecting when queueing is off', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client } = createClient(backend, {
+      reconnectAttempts: 3,
+      queueWhileDisconnected: false,
+    });
+    await client.connect();
+
+    backend.dropConnections();
+    await expect(client.sendMessage(readFile())).rejects.toBeInstanceOf(TransportError);
+    client.disconnect();
+  });
+
+  it('fails queued calls once it gives up', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 20 });
+    const { client } = createClient(backend);
+    await client.connect();
+
+    const read = client.sendMessage(readFile());
+    backend.dropConnections();
+    await expect(read).rejects.toBeInstanceOf(ConnectionLostError);
+  });
+});
+
+describe('batching', () => {
+  it('sends the messages in one frame and settles each on its own', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client, frames } = createClient(backend);
+    await client.connect();
+
+    const [read, missing] = client.batch<{ content: string }>([readFile(), readFile('/nope.txt')]);
+    await expect(read).resolves.toMatchObject({
+      data: { content: expect.stringContaining('Demo') },
+    });
+    await expect(missing).rejects.toThrow('/nope.txt');
+    expect(apiFrames(frames).map(({ action }) => action)).toEqual(['batch']);
+    client.disconnect();
+  });
+
+  it('falls back to single messages when the backend cannot batch', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client, frames } = createClient(backend, {}, (message) =>
+      message.action === 'batch'
+        ? {
+            id: message.id,
+            type: 'error',
+            action: 'error',
+            data: { message: 'Unknown system action: batch' },
+          }
+        : undefined
+    );
+    await client.connect();
+
+    const first = await Promise.all(client.batch([readFile(), readFile()]));
+    const second = await Promise.all(client.batch([readFile(), readFile()]));
+    expect([...first, ...second].every((response) => response.type === 'response')).toBe(true);
+    // The batch is tried once, then every message goes out on its own
+    expect(apiFrames(frames).map(({ action }) => action)).toEqual([
+      'batch',
+      'filesystem',
+      'filesystem',
+      'filesystem',
+      'filesystem',
+    ]);
+    client.disconnect();
+  });
+});
+
+describe('authentication', () => {
+  it('signs every message with increasing sequence numbers', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1, authToken: TOKEN });
+    const { client, frames } = createClient(backend, { auth: { token: TOKEN } });
+    await client.connect();
+
+    await client.sendMessage(readFile());
+    await Promise.all(client.batch([readFile(), readFile()]));
+
+    const signed = frames
+      .flatMap((frame) =>
+        frame.action === 'batch' ? (frame.data?.messages as SwiftralinoMessage[]) : [frame]
+      )
+      .filter((frame) => frame.action !== 'authenticate');
+    const seqs = signed.map((frame) => frame.auth?.seq ?? 0);
+    expect(seqs).toEqual([...seqs].sort((a, b) => a - b));
+    expect(new Set(seqs).size).toBe(signed.length);
+    expect(frames.find((frame) => frame.action === 'batch')?.auth).toBeUndefined();
+    client.disconnect();
+  });
+
+  it('refuses to connect with the wrong token', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1, authToken: TOKEN });
+    const { client } = createClient(backend, { auth: { token: 'guess' }, reconnectAttempts: 3 });
+    await expect(client.connect()).rejects.toBeInstanceOf(AuthenticationError);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it('has the backend refuse replayed frames', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1, authToken: TOKEN });
+    const replies: SwiftralinoResponse[] = [];
+    const connection = backend.connect(
+      (message) => replies.push(message as SwiftralinoResponse),
+      () => {}
+    );
+    const send = async (message: SwiftralinoMessage) => {
+      const count = replies.length;
+      backend.receive(connection, JSON.stringify(message));
+      await expect.poll(() => replies.length).toBe(count + 1);
+      return replies[count];
+    };
+
+    const handshake = await send({
+      id: 'a1',
+      type: 'system',
+      action: 'authenticate',
+      data: { token: TOKEN },
+    });
+    const { sessionId } = handshake.data as { sessionId: string };
+    const ping = signMessage({ id: 'p1', type: 'system', action: 'ping' }, TOKEN, sessionId, 1);
+
+    expect((await send(ping)).type).toBe('response');
+    expect(await send(ping)).toMatchObject({
+      type: 'error',
+      data: { message: 'Authentication failed: invalid signature' },
+    });
+  });
+});
+
+describe('response validation', () => {
+  const malformedInfo = (message: SwiftralinoMessage): SwiftralinoIncomingMessage | undefined =>
+    message.action === 'system' && message.data?.operation === 'info'
+      ? { id: message.id, type: 'response', action: 'system', data: { hostName: 42 } }
+      : undefined;
+
+  it('rejects responses that do not match the protocol', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client } = createClient(backend, {}, malformedInfo);
+    await client.connect();
+
+    const error = await client.getSystemInfo().catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(ProtocolValidationError);
+    expect((error as ProtocolValidationError).issues).toContain(
+      'data.hostName: expected string, got number'
+    );
+    client.disconnect();
+  });
+
+  it('passes them through when validation is off', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client } = createClient(backend, { validateResponses: false }, malformedInfo);
+    await client.connect();
+
+    await expect(client.getSystemInfo()).resolves.toMatchObject({ data: { hostName: 42 } });
+    client.disconnect();
+  });
+});
+
+describe('tracing', () => {
+  it('records calls and runs middleware around them', async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 1 });
+    const { client, frames } = createClient(backend, { tracing: { bufferSize: 10 } });
+    const settled: SwiftralinoTrace[] = [];
+    client.use({
+      onRequest: (message) =>
+        message.data?.path === '/elsewhere.txt'
+          ? { ...message, data: { ...message.data, path: README } }
+          : undefined,
+      onResponse: (_response, trace) => settled.push(trace),
+      onError: (_error, trace) => settled.push(trace),
+    });
+    await client.connect();
+
+    await client.sendMessage(readFile('/elsewhere.txt'));
+    await expect(client.sendMessage(readFile('/nope.txt'))).rejects.toThrow('/nope.txt');
+
+    expect(apiFrames(frames)[0].data?.path).toBe(README);
+    const traces = client.getTraces().filter(({ type }) => type === 'api');
+    expect(traces.map(({ operation, outcome }) => [operation, outcome])).toEqual([
+      ['readFile', 'success'],
+      ['readFile', 'error'],
+    ]);
+    expect(settled.filter(({ type }) => type === 'api')).toEqual(traces);
+    client.disconnect();
+  });
+});
+
+describe('transports', () => {
+  it('loads the in-memory backend when the mock is selected', async () => {
+    const client = new WebSocketSwiftralinoClient({
+      wsUrl: 'mock://transports',
+      transport: 'mock',
+      reconnectAttempts: 0,
+      reconnectDelay: 10,
+      heartbeat: { interval: 0 },
+    });
+    await client.connect();
+    const response = await client.readFile(README);
+    expect(response.data?.content).toEqual(expect.any(String));
+    client.disconnect();
+  });
+
+  it('does not open the mock once closed', async () => {
+    const transport = new LazyMockTransport('mock://closed');
+    transport.close();
+    await expect(
+      transport.open({ onMessage: () => {}, onClose: () => {}, onError: () => {} })
+    ).rejects.toBeInstanceOf(TransportError);
+    expect(transport.isOpen()).toBe(false);
+  });
+});
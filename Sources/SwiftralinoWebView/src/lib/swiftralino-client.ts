@@ -1,75 +1,328 @@
+import {
+  PROTOCOL_VERSION,
+  type APIAction,
+  type APIOperation,
+  type APIParams,
+  type APIResponse,
+  type APIResult,
+  type GeneratedAPI,
+  type SystemAction,
+  type SystemParams,
+  type SystemResult,
+  createGeneratedAPI,
+  getResultSchema,
+  isIdempotentMessage,
+} from './swiftralino-protocol';
+import { SwiftralinoSession, resolveToken } from './swiftralino-auth';
+import { MessageBatcher, createBatchMessage } from './swiftralino-batch';
+import {
+  AuthenticationError,
+  ConnectionLostError,
+  ProtocolValidationError,
+  ProtocolVersionError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  SwiftralinoError,
+  type SwiftralinoErrorContext,
+  TransportError,
+  UnknownActionError,
+  createBackendError,
+} from './swiftralino-errors';
+import { executeOnPlatforms } from './swiftralino-cluster';
+import { encodeBase64 } from './swiftralino-encoding';
+import { BackendFeatures, isCompatibleProtocol } from './swiftralino-features';
+import { readFileStream, writeFileStream } from './swiftralino-file-transfer';
+import { HeartbeatMonitor } from './swiftralino-heartbeat';
+import { createKeyValueStore } from './swiftralino-kv';
+import { PermissionManager } from './swiftralino-permissions';
+import { SwiftralinoProcessHandle } from './swiftralino-process';
+import { defaultTimers, randomId } from './swiftralino-runtime';
+import { createTransport } from './swiftralino-transport';
+import { TraceRecorder } from './swiftralino-trace';
+import { SwiftralinoFileWatcher } from './swiftralino-watch';
 import type {
+  BackendDescription,
+  CapabilityManifest,
+  ClipboardAPI,
+  ConnectionQualityStats,
+  DialogAPI,
+  DistributedExecuteOptions,
+  DistributedExecution,
+  DistributedKVAPI,
+  FileSystemAPI,
+  NotificationsAPI,
+  PlatformSelector,
+  ShellAPI,
+  SpawnOptions,
   SwiftralinoClient,
   SwiftralinoMessage,
+  SwiftralinoProcess,
+  SwiftralinoRequestOptions,
   SwiftralinoResponse,
   SwiftralinoConfig,
   SwiftralinoEventData,
+  SwiftralinoEventListener,
+  SwiftralinoEventMessage,
+  SwiftralinoEventTopic,
+  SwiftralinoFileEncoding,
+  SwiftralinoIncomingMessage,
+  SwiftralinoMiddleware,
+  SwiftralinoSubscription,
+  SwiftralinoTimers,
+  SwiftralinoTokenSource,
+  SwiftralinoTrace,
+  SwiftralinoTransport,
+  UpdaterAPI,
 } from '@/types/swiftralino';
 
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+const DEFAULT_MAX_RECONNECT_DELAY = 30000;
+const DEFAULT_RECONNECT_JITTER = 0.5;
+
+// Bytes always travel base64 encoded; strings keep the requested encoding
+const toFileContent = (content: string | Uint8Array, encoding?: SwiftralinoFileEncoding) =>
+  typeof content === 'string'
+    ? { content, encoding }
+    : { content: encodeBase64(content), encoding: 'base64' as const };
+
+// Dialogs wait for the user, so they never time out unless configured to
+const DEFAULT_ACTION_TIMEOUTS: Record<string, number> = { dialog: 0 };
+
 export class WebSocketSwiftralinoClient implements SwiftralinoClient {
-  private ws: WebSocket | null = null;
+  private transport: SwiftralinoTransport | null = null;
   private config: SwiftralinoConfig;
   private isConnectedState = false;
+  // In-flight requests plus, while reconnecting, requests queued for sending
   private pendingRequests = new Map<
     string,
     {
+      context: SwiftralinoErrorContext;
+      // Serialized, and signed, each time it is sent
+      message: SwiftralinoMessage;
+      idempotent: boolean;
+      sent: boolean;
       resolve: (value: SwiftralinoResponse) => void;
       reject: (error: Error) => void;
+      // Clears the timeout timer and detaches the abort listener
+      cleanup: () => void;
     }
   >();
   private eventListeners = new Map<string, Set<(data?: unknown) => void>>();
-  private reconnectTimeoutId: number | null = null;
+  private serverEventListeners = new Map<string, Set<SwiftralinoEventListener<string>>>();
+  // Backend-side subscriptions, reference counted per topic
+  private topicSubscriptions = new Map<string, number>();
+  private reconnectTimeoutId: unknown = null;
   private reconnectAttempts = 0;
+  private reconnecting = false;
+  private manuallyDisconnected = false;
+  private heartbeat: HeartbeatMonitor;
+  private permissions: PermissionManager;
+  private features: BackendFeatures;
+  // Set once the bridge handshake succeeded; null without auth
+  private session: SwiftralinoSession | null = null;
+  private handshaking = false;
+  private batcher: MessageBatcher;
+  // Member ids of the batches sent, keyed by batch id
+  private batches = new Map<string, string[]>();
+  private tracer: TraceRecorder;
+  private middleware: SwiftralinoMiddleware[];
+  private timers: SwiftralinoTimers;
 
   constructor(config: SwiftralinoConfig) {
     this.config = config;
+    this.timers = config.timers ?? defaultTimers;
+    this.tracer = new TraceRecorder(config.tracing ?? {});
+    this.middleware = [...(config.middleware ?? [])];
+    this.batcher = new MessageBatcher(
+      config.batching ?? {},
+      { send: (messages) => this.sendBatch(messages) },
+      this.timers
+    );
+    this.heartbeat = new HeartbeatMonitor(
+      config.heartbeat ?? {},
+      {
+        ping: async (timeout) => {
+          // A lost pong must fail rather than be replayed after reconnecting
+          await this.ping({ timeout, idempotent: false });
+        },
+        onStale: () => this.dropConnection(),
+        onStats: (stats) => this.dispatchEvent('quality', stats),
+      },
+      this.timers
+    );
+    this.permissions = new PermissionManager(config.permissions ?? {}, {
+      fetchManifest: async () => (await this.callSystem('capabilities')).data ?? null,
+      requestGrant: async (request) => {
+        const { permission, path, command } = request;
+        const response = await this.callSystem('requestPermission', { permission, path, command });
+        return response.data as CapabilityManifest;
+      },
+      onChange: (manifest) => this.dispatchEvent('capabilities', manifest),
+    });
+    this.features = new BackendFeatures({
+      fetchDescription: async () => (await this.callSystem('describe')).data ?? null,
+      onChange: (description) => {
+        this.dispatchEvent('description', description);
+        if (description && !isCompatibleProtocol(description.protocolVersion)) {
+          const error = new ProtocolVersionError(
+            { action: 'describe' },
+            description.protocolVersion,
+            PROTOCOL_VERSION
+          );
+          this.dispatchEvent('error', { error });
+        }
+      },
+    });
   }
 
+  readonly fs: FileSystemAPI = {
+    readDirectory: (path, options) => this.readDirectory(path, options),
+    listDirectory: (path, options) => this.listDirectory(path, options),
+    readFile: (path, options) => this.readFile(path, options),
+    writeFile: (path, content, options = {}) =>
+      this.call(
+        'filesystem',
+        'writeFile',
+        {
+          path,
+          ...toFileContent(content, options.encoding),
+          createDirectories: options.createDirectories,
+        },
+        options
+      ),
+    appendFile: (path, content, options = {}) =>
+      this.call(
+        'filesystem',
+        'appendFile',
+        { path, ...toFileContent(content, options.encoding) },
+        options
+      ),
+    mkdir: (path, options = {}) =>
+      this.call('filesystem', 'mkdir', { path, recursive: options.recursive }, options),
+    rename: (from, to, options = {}) =>
+      this.call('filesystem', 'rename', { from, to, overwrite: options.overwrite }, options),
+    copy: (from, to, options = {}) =>
+      this.call('filesystem', 'copy', { from, to, overwrite: options.overwrite }, options),
+    remove: (path, options = {}) =>
+      this.call('filesystem', 'remove', { path, recursive: options.recursive }, options),
+    stat: (path, options) => this.call('filesystem', 'stat', { path }, options),
+    exists: (path, options) => this.call('filesystem', 'exists', { path }, options),
+    readStream: (path, options) => readFileStream(this, path, options),
+    writeStream: (path, data, options) => writeFileStream(this, path, data, options),
+    watch: async (path, options) => {
+      const watcher = new SwiftralinoFileWatcher(this, path, options, this.timers);
+      await watcher.start();
+      return watcher;
+    },
+  };
+
+  readonly kv: DistributedKVAPI = createKeyValueStore(this);
+
+  // Plugin API namespaces
+  readonly clipboard: ClipboardAPI = {
+    writeText: (text, options) => this.call('clipboard', 'writeText', { text }, options),
+    readText: (options) => this.call('clipboard', 'readText', {}, options),
+    clear: (options) => this.call('clipboard', 'clear', {}, options),
+  };
+
+  readonly notifications: NotificationsAPI = {
+    show: (notification, options) => this.call('notification', 'show', notification, options),
+    requestPermission: (options) => this.call('notification', 'requestPermission', {}, options),
+  };
+
+  readonly dialog: DialogAPI = {
+    message: (dialog, options) => this.call('dialog', 'message', dialog, options),
+    confirm: (dialog, options) => this.call('dialog', 'confirm', dialog, options),
+    open: (dialog, options) => this.call('dialog', 'open', dialog, options),
+    save: (dialog, options) => this.call('dialog', 'save', dialog, options),
+  };
+
+  readonly shell: ShellAPI = {
+    execute: (command, args = [], options = {}) =>
+      this.call('shell', 'execute', { command, args, cwd: options.workingDir }, options),
+    open: (path, options) => this.call('shell', 'open', { path }, options),
+  };
+
+  readonly updater: UpdaterAPI = {
+    checkForUpdate: (options) => this.call('updater', 'checkForUpdate', {}, options),
+    installUpdate: (options) => this.call('updater', 'installUpdate', {}, options),
+    getVersion: (options) => this.call('updater', 'getVersion', {}, options),
+  };
+
+  readonly api: GeneratedAPI = createGeneratedAPI((action, operation, params, options) =>
+    this.call(action as APIAction, operation as never, params as never, options)
+  );
+
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        this.ws = new WebSocket(this.config.wsUrl);
-
-        this.ws.onopen = () => {
-          // Connected to Swiftralino backend
-          this.isConnectedState = true;
-          this.reconnectAttempts = 0;
-          this.dispatchEvent('connected');
-          resolve();
-        };
-
-        this.ws.onmessage = (event) => {
-          this.handleMessage(event.data);
-        };
-
-        this.ws.onclose = () => {
-          // Disconnected from Swiftralino backend
-          this.isConnectedState = false;
-          this.dispatchEvent('disconnected');
-          this.attemptReconnect();
-        };
-
-        this.ws.onerror = (error) => {
-          // WebSocket error occurred
+    this.manuallyDisconnected = false;
+    const transport = createTransport(this.config);
+    this.transport = transport;
+
+    // Events of a transport that has since been dropped are ignored
+    const isCurrent = () => this.transport === transport;
+    await transport.open({
+      onMessage: (frame) => {
+        if (isCurrent()) {
+          this.handleMessage(frame);
+        }
+      },
+      onClose: () => {
+        if (isCurrent()) {
+          this.handleClose();
+        }
+      },
+      onError: (error) => {
+        if (isCurrent()) {
           this.dispatchEvent('error', { error });
-          reject(new Error('WebSocket connection failed'));
-        };
+        }
+      },
+    });
+
+    this.session = null;
+    const { auth } = this.config;
+    if (auth) {
+      try {
+        this.session = await this.authenticate(auth.token);
       } catch (error) {
-        reject(error);
+        if (!isCurrent()) {
+          throw error;
+        }
+        // Auth failures are final; anything else is retried like a failed connect
+        if (error instanceof AuthenticationError) {
+          this.refuseConnection(error);
+        } else {
+          this.dropConnection();
+        }
+        throw error;
       }
-    });
+    }
+
+    // Connected to Swiftralino backend
+    this.isConnectedState = true;
+    this.reconnectAttempts = 0;
+    this.reconnecting = false;
+    // Calls made meanwhile wait for the description and manifest before they are checked
+    this.features.load();
+    this.permissions.load();
+    this.dispatchEvent('connected');
+    this.resubscribeTopics();
+    this.flushQueuedRequests();
+    this.heartbeat.start();
   }
 
   disconnect(): void {
-    if (this.reconnectTimeoutId) {
-      clearTimeout(this.reconnectTimeoutId);
+    this.manuallyDisconnected = true;
+    this.reconnecting = false;
+    if (this.reconnectTimeoutId !== null) {
+      this.timers.clearTimeout(this.reconnectTimeoutId);
       this.reconnectTimeoutId = null;
     }
+    this.rejectPendingRequests(() => true);
+    this.heartbeat.stop();
 
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    // The transport reports the close, which dispatches 'disconnected'
+    this.transport?.close();
     this.isConnectedState = false;
   }
 
@@ -77,6 +330,27 @@ export class WebSocketSwiftralinoClient implements SwiftralinoClient {
     return this.isConnectedState;
   }
 
+  getCapabilities(): CapabilityManifest | null {
+    return this.permissions.getManifest();
+  }
+
+  async describe(): Promise<BackendDescription | null> {
+    await this.features.load();
+    return this.features.getDescription();
+  }
+
+  getBackendDescription(): BackendDescription | null {
+    return this.features.getDescription();
+  }
+
+  supports(action: string, operation?: string): boolean {
+    return this.features.supports(action, operation);
+  }
+
+  getConnectionStats(): ConnectionQualityStats {
+    return this.heartbeat.getStats();
+  }
+
   addEventListener<K extends keyof SwiftralinoEventData>(
     event: K,
     callback: (data?: SwiftralinoEventData[K]) => void
@@ -97,254 +371,408 @@ export class WebSocketSwiftralinoClient implements SwiftralinoClient {
     this.eventListeners.get(event)?.delete(callback as (data?: unknown) => void);
   }
 
-  async sendMessage<T = unknown>(message: SwiftralinoMessage): Promise<SwiftralinoResponse<T>> {
-    if (!this.isConnectedState || !this.ws) {
-      throw new Error('Not connected to backend');
+  on<K extends SwiftralinoEventTopic>(topic: K, listener: SwiftralinoEventListener<K>): () => void {
+    if (!this.serverEventListeners.has(topic)) {
+      this.serverEventListeners.set(topic, new Set());
+    }
+    this.serverEventListeners.get(topic)?.add(listener as SwiftralinoEventListener<string>);
+    return () => this.off(topic, listener);
+  }
+
+  off<K extends SwiftralinoEventTopic>(topic: K, listener: SwiftralinoEventListener<K>): void {
+    const listeners = this.serverEventListeners.get(topic);
+    listeners?.delete(listener as SwiftralinoEventListener<string>);
+    if (listeners?.size === 0) {
+      this.serverEventListeners.delete(topic);
+    }
+  }
+
+  async subscribe<K extends SwiftralinoEventTopic>(
+    topic: K,
+    listener?: SwiftralinoEventListener<K>
+  ): Promise<SwiftralinoSubscription> {
+    const removeListener = listener ? this.on(topic, listener) : undefined;
+    const count = this.topicSubscriptions.get(topic) ?? 0;
+    this.topicSubscriptions.set(topic, count + 1);
+
+    // Only the first subscriber tells the backend; while disconnected the
+    // topic is picked up by resubscribeTopics() once the socket opens
+    if (count === 0 && this.isConnectedState) {
+      try {
+        await this.sendTopicMessage('subscribe', topic);
+      } catch (error) {
+        this.releaseTopic(topic);
+        removeListener?.();
+        throw error;
+      }
+    }
+
+    let active = true;
+    return {
+      topic,
+      unsubscribe: async () => {
+        if (!active) {
+          return;
+        }
+        active = false;
+        removeListener?.();
+        if (this.releaseTopic(topic) && this.isConnectedState) {
+          await this.sendTopicMessage('unsubscribe', topic);
+        }
+      },
+    };
+  }
+
+  getTraces(): SwiftralinoTrace[] {
+    return this.tracer.getTraces();
+  }
+
+  clearTraces(): void {
+    this.tracer.clear();
+  }
+
+  onTrace(listener: (traces: SwiftralinoTrace[]) => void): () => void {
+    return this.tracer.subscribe(listener);
+  }
+
+  use(middleware: SwiftralinoMiddleware): () => void {
+    this.middleware = [...this.middleware, middleware];
+    return () => {
+      this.middleware = this.middleware.filter((entry) => entry !== middleware);
+    };
+  }
+
+  // Runs the middleware and records the call; nothing here awaits, so
+  // batch() still sees the message queued synchronously
+  async sendMessage<T = unknown>(
+    message: SwiftralinoMessage,
+    options: SwiftralinoRequestOptions = {}
+  ): Promise<SwiftralinoResponse<T>> {
+    const { middleware } = this;
+    const outgoing = middleware.reduce<SwiftralinoMessage>(
+      (current, entry) => entry.onRequest?.(current) ?? current,
+      { ...message, id: message.id || randomId() }
+    );
+    const trace = this.tracer.start(outgoing);
+    const response = this.deliverMessage<T>(outgoing, options);
+    response.then(
+      (result) => {
+        const settled = this.tracer.succeed(trace, result);
+        middleware.forEach((entry) => entry.onResponse?.(result, settled));
+      },
+      (error: Error) => {
+        const settled = this.tracer.fail(trace, error);
+        middleware.forEach((entry) => entry.onError?.(error, settled));
+      }
+    );
+    return response;
+  }
+
+  private async deliverMessage<T>(
+    message: SwiftralinoMessage,
+    options: SwiftralinoRequestOptions
+  ): Promise<SwiftralinoResponse<T>> {
+    const messageId = message.id;
+    const operation = message.data?.operation;
+    const context: SwiftralinoErrorContext = {
+      action: message.action,
+      operation: typeof operation === 'string' ? operation : undefined,
+      requestId: messageId,
+    };
+
+    // Only the handshake itself may go out before the connection is up
+    const handshake =
+      this.handshaking && message.type === 'system' && message.action === 'authenticate';
+    const queueable = this.reconnecting && this.config.queueWhileDisconnected !== false;
+    if (!this.isConnectedState && !queueable && !handshake) {
+      throw new TransportError('Not connected to backend', context);
+    }
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new RequestAbortedError(context);
     }
 
     return new Promise<SwiftralinoResponse<T>>((resolve, reject) => {
-      const messageId = message.id || crypto.randomUUID();
-      const messageWithId = { ...message, id: messageId };
+      const outgoing = { ...message, id: messageId };
+      const timeout = options.timeout ?? this.resolveTimeout(message);
+      let timeoutId: unknown;
 
-      this.pendingRequests.set(messageId, {
+      const onAbort = () => this.cancelRequest(messageId, new RequestAbortedError(context));
+
+      const pendingRequest = {
+        context,
+        message: outgoing,
+        idempotent: options.idempotent ?? isIdempotentMessage(message),
+        sent: false,
         resolve: resolve as (value: SwiftralinoResponse) => void,
         reject,
-      });
+        cleanup: () => {
+          this.timers.clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+      this.pendingRequests.set(messageId, pendingRequest);
 
-      const { ws } = this;
-      if (ws && ws.readyState === WebSocket.OPEN) {
-        ws.send(JSON.stringify(messageWithId));
-      } else {
-        reject(new Error('WebSocket is not ready'));
+      const { transport } = this;
+      if (transport?.isOpen() && (this.isConnectedState || handshake)) {
+        if (handshake || !this.batcher.enqueue(outgoing)) {
+          this.sendFrame(transport, outgoing);
+        }
+        pendingRequest.sent = true;
+      } else if (!queueable) {
+        this.takePendingRequest(messageId);
+        reject(new TransportError('Transport is not ready', context));
+        return;
+      } else if (
+        this.countQueuedRequests() > (this.config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE)
+      ) {
+        this.takePendingRequest(messageId);
+        reject(new ConnectionLostError(context, 'Request queue is full'));
         return;
       }
 
-      // Timeout after 30 seconds
-      setTimeout(() => {
-        if (this.pendingRequests.has(messageId)) {
-          this.pendingRequests.delete(messageId);
-          reject(new Error('Request timeout'));
-        }
-      }, 30000);
+      if (timeout > 0) {
+        timeoutId = this.timers.setTimeout(
+          () => this.cancelRequest(messageId, new RequestTimeoutError(context, timeout)),
+          timeout
+        );
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
   // API Methods
-  async ping(): Promise<SwiftralinoResponse<{ timestamp: number }>> {
-    return this.sendMessage<{ timestamp: number }>({
-      id: crypto.randomUUID(),
-      type: 'system',
-      action: 'ping',
-    });
+  async ping(
+    options?: SwiftralinoRequestOptions
+  ): Promise<SwiftralinoResponse<SystemResult<'ping'>>> {
+    return this.callSystem('ping', undefined, options);
   }
 
-  async version(): Promise<SwiftralinoResponse<{ version: string; platform: string }>> {
-    return this.sendMessage<{ version: string; platform: string }>({
-      id: crypto.randomUUID(),
-      type: 'system',
-      action: 'version',
-    });
+  async version(
+    options?: SwiftralinoRequestOptions
+  ): Promise<SwiftralinoResponse<SystemResult<'version'>>> {
+    return this.callSystem('version', undefined, options);
   }
 
-  async readDirectory(path: string): Promise<SwiftralinoResponse<{ files: string[] }>> {
-    return this.sendMessage<{ files: string[] }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'filesystem',
-      data: { operation: 'readDirectory', path },
-    });
+  async readDirectory(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'readDirectory'>> {
+    return this.call('filesystem', 'readDirectory', { path }, options);
   }
 
-  async readFile(path: string): Promise<SwiftralinoResponse<{ content: string }>> {
-    return this.sendMessage<{ content: string }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'filesystem',
-      data: { operation: 'readFile', path },
-    });
+  async listDirectory(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'listDirectory'>> {
+    return this.call('filesystem', 'listDirectory', { path }, options);
+  }
+
+  async readFile(
+    path: string,
+    options: { encoding?: SwiftralinoFileEncoding } & SwiftralinoRequestOptions = {}
+  ): Promise<APIResponse<'filesystem', 'readFile'>> {
+    return this.call('filesystem', 'readFile', { path, encoding: options.encoding }, options);
   }
 
   async execute(
     command: string,
-    args: string[] = []
-  ): Promise<
-    SwiftralinoResponse<{
-      exitCode: number;
-      output: string;
-      error: string;
-    }>
-  > {
-    return this.sendMessage<{
-      exitCode: number;
-      output: string;
-      error: string;
-    }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'process',
-      data: { operation: 'execute', command, args },
-    });
+    args: string[] = [],
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'process', 'execute'>> {
+    return this.call('process', 'execute', { command, args }, options);
   }
 
-  async getSystemInfo(): Promise<
-    SwiftralinoResponse<{
-      operatingSystem: string;
-      hostName: string;
-      processIdentifier: number;
-      uptime: number;
-    }>
-  > {
-    return this.sendMessage<{
-      operatingSystem: string;
-      hostName: string;
-      processIdentifier: number;
-      uptime: number;
-    }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'system',
-      data: { operation: 'info' },
-    });
+  async spawn(
+    command: string,
+    args: string[] = [],
+    options: SpawnOptions = {}
+  ): Promise<SwiftralinoProcess> {
+    const handle = new SwiftralinoProcessHandle(this, randomId());
+    await handle.start(command, args, options);
+    return handle;
+  }
+
+  async getSystemInfo(options?: SwiftralinoRequestOptions): Promise<APIResponse<'system', 'info'>> {
+    return this.call('system', 'info', {}, options);
   }
 
   // Distributed API Methods
-  async initializeDistributed(config?: {
-    clusterName?: string;
-    host?: string;
-    port?: number;
-  }): Promise<SwiftralinoResponse<{ status: string; clusterName: string }>> {
-    return this.sendMessage<{ status: string; clusterName: string }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: {
-        operation: 'initialize',
-        ...config,
-      },
-    });
+  async initializeDistributed(
+    config?: APIParams<'distributed', 'initialize'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'initialize'>> {
+    return this.call('distributed', 'initialize', config, options);
   }
 
-  async getConnectedPlatforms(): Promise<
-    SwiftralinoResponse<{
-      platforms: Array<{
-        id: string;
-        deviceName: string;
-        platform: string;
-        version: string;
-        capabilities: string[];
-      }>;
-    }>
-  > {
-    return this.sendMessage<{
-      platforms: Array<{
-        id: string;
-        deviceName: string;
-        platform: string;
-        version: string;
-        capabilities: string[];
-      }>;
-    }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: { operation: 'platforms' },
-    });
+  async getConnectedPlatforms(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'platforms'>> {
+    return this.call('distributed', 'platforms', {}, options);
   }
 
-  async executeOnAllPlatforms(script: string): Promise<
-    SwiftralinoResponse<{
-      results: Array<{
-        platformId: string;
-        success: boolean;
-        output: string;
-        timestamp: number;
-      }>;
-    }>
-  > {
-    return this.sendMessage<{
-      results: Array<{
-        platformId: string;
-        success: boolean;
-        output: string;
-        timestamp: number;
-      }>;
-    }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: { operation: 'execute', script },
-    });
+  async executeOnAllPlatforms(
+    script: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'execute'>> {
+    return this.call('distributed', 'execute', { script }, options);
+  }
+
+  async executeOn(
+    selector: PlatformSelector,
+    script: string,
+    options?: DistributedExecuteOptions
+  ): Promise<DistributedExecution> {
+    return executeOnPlatforms(this, selector, script, options);
   }
 
   async shareDataDistributed(
     key: string,
-    data: string
-  ): Promise<SwiftralinoResponse<{ status: string; key: string }>> {
-    return this.sendMessage<{ status: string; key: string }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: { operation: 'share', key, data },
-    });
+    data: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'share'>> {
+    return this.call('distributed', 'share', { key, data }, options);
   }
 
   async retrieveDataDistributed(
-    key: string
-  ): Promise<SwiftralinoResponse<{ key: string; data: string | null }>> {
-    return this.sendMessage<{ key: string; data: string | null }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: { operation: 'retrieve', key },
-    });
+    key: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'retrieve'>> {
+    return this.call('distributed', 'retrieve', { key }, options);
   }
 
   async joinCluster(
-    endpoint: string
-  ): Promise<SwiftralinoResponse<{ status: string; endpoint: string }>> {
-    return this.sendMessage<{ status: string; endpoint: string }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: { operation: 'join', endpoint },
-    });
+    endpoint: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'join'>> {
+    return this.call('distributed', 'join', { endpoint }, options);
   }
 
-  async getDistributedStatus(): Promise<
-    SwiftralinoResponse<{ initialized: boolean; [key: string]: unknown }>
-  > {
-    return this.sendMessage<{ initialized: boolean; [key: string]: unknown }>({
-      id: crypto.randomUUID(),
-      type: 'api',
-      action: 'distributed',
-      data: { operation: 'status' },
-    });
+  async getDistributedStatus(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'status'>> {
+    return this.call('distributed', 'status', {}, options);
+  }
+
+  async call<A extends APIAction, O extends APIOperation<A>>(
+    action: A,
+    operation: O,
+    params?: APIParams<A, O>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<A, O>> {
+    await this.features.check(action, operation);
+    await this.permissions.authorize(action, operation, { ...params });
+    const response = await this.sendMessage<APIResult<A, O>>(
+      {
+        id: randomId(),
+        type: 'api',
+        action,
+        data: { operation, ...params },
+      },
+      options
+    );
+    return this.validateResponse(response, action, operation);
+  }
+
+  batch<T = unknown>(
+    messages: SwiftralinoMessage[],
+    options?: SwiftralinoRequestOptions
+  ): Array<Promise<SwiftralinoResponse<T>>> {
+    // sendMessage() queues synchronously, so all of them land in this batch
+    return this.batcher.collect(() =>
+      messages.map((message) => this.sendMessage<T>(message, options))
+    );
+  }
+
+  private async callSystem<M extends SystemAction>(
+    action: M,
+    params?: SystemParams<M>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<SwiftralinoResponse<SystemResult<M>>> {
+    const response = await this.sendMessage<SystemResult<M>>(
+      { id: randomId(), type: 'system', action, data: params },
+      options
+    );
+    return this.validateResponse(response, action);
+  }
+
+  private validateResponse<T>(
+    response: SwiftralinoResponse<T>,
+    action: string,
+    operation?: string
+  ): SwiftralinoResponse<T> {
+    const schema = getResultSchema(action, operation);
+    if (this.config.validateResponses === false || !schema) {
+      return response;
+    }
+    const issues = schema.validate(response.data, 'data');
+    if (issues.length > 0) {
+      throw new ProtocolValidationError({ action, operation, requestId: response.id }, issues);
+    }
+    return response;
   }
 
   private handleMessage(data: string): void {
     try {
-      const message: SwiftralinoResponse = JSON.parse(data);
-
-      const pendingRequest = this.pendingRequests.get(message.id);
-      if (pendingRequest) {
-        this.pendingRequests.delete(message.id);
-
-        if (message.type === 'error') {
-          const errorMessage =
-            typeof message.data === 'object' && message.data && 'message' in message.data
-              ? String(message.data.message)
-              : 'Unknown error';
-          pendingRequest.reject(new Error(errorMessage));
-        } else {
-          pendingRequest.resolve(message);
-        }
-      }
-    } catch (error) {
+      this.handleIncomingMessage(JSON.parse(data));
+    } catch {
       // Failed to parse message - silently ignore malformed messages
       // In production, you might want to log this to a proper logging service
     }
   }
 
+  private handleIncomingMessage(message: SwiftralinoIncomingMessage): void {
+    if (message.type === 'event') {
+      this.dispatchServerEvent(message);
+      return;
+    }
+
+    const members = this.batches.get(message.id);
+    if (members) {
+      this.batches.delete(message.id);
+      this.handleBatchResponse(message, members);
+      return;
+    }
+
+    const pendingRequest = this.takePendingRequest(message.id);
+    if (pendingRequest) {
+      if (message.type === 'error') {
+        pendingRequest.reject(createBackendError(message, pendingRequest.context));
+      } else {
+        pendingRequest.resolve(message);
+      }
+    }
+  }
+
+  private handleBatchResponse(message: SwiftralinoResponse, members: string[]): void {
+    if (message.type === 'response') {
+      const { responses } = message.data as SystemResult<'batch'>;
+      responses.forEach((response) =>
+        this.handleIncomingMessage(response as SwiftralinoIncomingMessage)
+      );
+      return;
+    }
+
+    // Backends without batching never ran the members, so send them one by one
+    const error = createBackendError(message, { action: 'batch', requestId: message.id });
+    if (error instanceof UnknownActionError) {
+      this.batcher.disable();
+      const { transport } = this;
+      members.forEach((id) => {
+        const pendingRequest = this.pendingRequests.get(id);
+        if (pendingRequest && transport?.isOpen()) {
+          this.sendFrame(transport, pendingRequest.message);
+        }
+      });
+      return;
+    }
+    members.forEach((id) => {
+      const pendingRequest = this.takePendingRequest(id);
+      pendingRequest?.reject(createBackendError(message, pendingRequest.context));
+    });
+  }
+
   private dispatchEvent<K extends keyof SwiftralinoEventData>(
     event: K,
     data?: SwiftralinoEventData[K]
@@ -353,18 +781,263 @@ export class WebSocketSwiftralinoClient implements SwiftralinoClient {
     listeners?.forEach((callback) => callback(data));
   }
 
+  private takePendingRequest(id: string) {
+    const pendingRequest = this.pendingRequests.get(id);
+    if (pendingRequest) {
+      this.pendingRequests.delete(id);
+      pendingRequest.cleanup();
+    }
+    return pendingRequest;
+  }
+
+  // Rejects the request locally and asks the backend to stop working on it
+  private cancelRequest(id: string, reason: Error): void {
+    const pendingRequest = this.takePendingRequest(id);
+    if (!pendingRequest) {
+      return;
+    }
+    pendingRequest.reject(reason);
+
+    if (pendingRequest.sent && this.transport?.isOpen()) {
+      const cancelMessage: SwiftralinoMessage = {
+        id: randomId(),
+        type: 'system',
+        action: 'cancel',
+        data: { requestId: id },
+      };
+      this.sendFrame(this.transport, cancelMessage);
+    }
+  }
+
+  private resolveTimeout(message: SwiftralinoMessage): number {
+    const { requestTimeout = DEFAULT_REQUEST_TIMEOUT } = this.config;
+    const actionTimeouts = { ...DEFAULT_ACTION_TIMEOUTS, ...this.config.actionTimeouts };
+    const operation = message.data?.operation;
+    const operationTimeout =
+      typeof operation === 'string' ? actionTimeouts[`${message.action}/${operation}`] : undefined;
+    return operationTimeout ?? actionTimeouts[message.action] ?? requestTimeout;
+  }
+
+  private dispatchServerEvent(message: SwiftralinoEventMessage): void {
+    // Exact topic listeners first, then wildcard listeners
+    for (const topic of [message.action, '*']) {
+      this.serverEventListeners.get(topic)?.forEach((listener) => listener(message.data, message));
+    }
+  }
+
+  private async sendTopicMessage(
+    action: 'subscribe' | 'unsubscribe',
+    topic: string
+  ): Promise<void> {
+    await this.sendMessage({
+      id: randomId(),
+      type: 'event',
+      action,
+      data: { topic },
+    });
+  }
+
+  // Returns true when the last subscriber of the topic is gone
+  private releaseTopic(topic: string): boolean {
+    const remaining = (this.topicSubscriptions.get(topic) ?? 1) - 1;
+    if (remaining > 0) {
+      this.topicSubscriptions.set(topic, remaining);
+      return false;
+    }
+    this.topicSubscriptions.delete(topic);
+    return true;
+  }
+
+  private resubscribeTopics(): void {
+    this.topicSubscriptions.forEach((_count, topic) => {
+      this.sendTopicMessage('subscribe', topic).catch((error: unknown) => {
+        this.dispatchEvent('error', { error });
+      });
+    });
+  }
+
+  private handleClose(): void {
+    // Disconnected from Swiftralino backend
+    this.isConnectedState = false;
+    this.heartbeat.stop();
+    // Batched messages still waiting for their frame were never sent
+    this.batcher.reset().forEach((message) => {
+      const pendingRequest = this.pendingRequests.get(message.id);
+      if (pendingRequest) {
+        pendingRequest.sent = false;
+      }
+    });
+    this.batches.clear();
+    this.dispatchEvent('disconnected');
+    if (this.manuallyDisconnected) {
+      return;
+    }
+    this.requeueInFlightRequests();
+    this.attemptReconnect();
+  }
+
+  // A half-open socket may never report its close, so detach the transport
+  // and run the close path right away
+  private dropConnection(): void {
+    const { transport } = this;
+    if (!transport) {
+      return;
+    }
+    this.transport = null;
+    transport.close();
+    this.handleClose();
+  }
+
+  private countQueuedRequests(): number {
+    let count = 0;
+    this.pendingRequests.forEach((request) => {
+      count += request.sent ? 0 : 1;
+    });
+    return count;
+  }
+
+  // After a drop, idempotent requests are replayed on reconnect and the rest
+  // fail, since the backend may or may not have executed them
+  private requeueInFlightRequests(): void {
+    this.pendingRequests.forEach((request) => {
+      if (request.sent && request.idempotent) {
+        request.sent = false;
+      }
+    });
+    this.rejectPendingRequests((request) => request.sent);
+  }
+
+  private flushQueuedRequests(): void {
+    const { transport } = this;
+    this.batcher.collect(() =>
+      this.pendingRequests.forEach((request) => {
+        if (!request.sent && transport?.isOpen()) {
+          if (!this.batcher.enqueue(request.message)) {
+            this.sendFrame(transport, request.message);
+          }
+          request.sent = true;
+        }
+      })
+    );
+  }
+
+  private rejectPendingRequests(
+    predicate: (request: { sent: boolean }) => boolean,
+    reason: (context: SwiftralinoErrorContext) => Error = (context) =>
+      new ConnectionLostError(context)
+  ): void {
+    this.pendingRequests.forEach((request, id) => {
+      if (predicate(request)) {
+        this.takePendingRequest(id);
+        request.reject(reason(request.context));
+      }
+    });
+  }
+
+  private sendFrame(transport: SwiftralinoTransport, message: SwiftralinoMessage): void {
+    transport.send(JSON.stringify(this.session ? this.session.sign(message) : message));
+  }
+
+  // Members answered or cancelled meanwhile are left out; a lone message
+  // needs no envelope
+  private sendBatch(messages: SwiftralinoMessage[]): void {
+    const { transport } = this;
+    const members = messages.filter((message) => this.pendingRequests.has(message.id));
+    if (!transport?.isOpen() || members.length === 0) {
+      return;
+    }
+    if (members.length === 1) {
+      this.sendFrame(transport, members[0]);
+      return;
+    }
+    // Members are signed one by one; the envelope itself carries no authority
+    const envelope = createBatchMessage(
+      members.map((message) => (this.session ? this.session.sign(message) : message))
+    );
+    this.batches.set(
+      envelope.id,
+      members.map((message) => message.id)
+    );
+    transport.send(JSON.stringify(envelope));
+  }
+
+  private async authenticate(source: SwiftralinoTokenSource): Promise<SwiftralinoSession> {
+    const context = { action: 'authenticate' };
+    const token = await resolveToken(source).catch(() => null);
+    if (!token) {
+      throw new AuthenticationError('Authentication failed: no bridge token available', context);
+    }
+
+    this.handshaking = true;
+    try {
+      const response = await this.callSystem('authenticate', { token });
+      return new SwiftralinoSession(
+        token,
+        (response.data as SystemResult<'authenticate'>).sessionId
+      );
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      // A backend without the handshake cannot be trusted either
+      if (
+        error instanceof SwiftralinoError &&
+        error.code !== 'transport' &&
+        error.code !== 'timeout'
+      ) {
+        throw new AuthenticationError(`Authentication failed: ${error.message}`, {
+          ...context,
+          requestId: error.requestId,
+          details: error.details,
+        });
+      }
+      throw error;
+    } finally {
+      this.handshaking = false;
+    }
+  }
+
+  // Without a valid session the client stops: no reconnects, no queued calls
+  private refuseConnection(error: AuthenticationError): void {
+    const { transport } = this;
+    this.manuallyDisconnected = true;
+    this.reconnecting = false;
+    this.transport = null;
+    transport?.close();
+    this.rejectPendingRequests(
+      () => true,
+      () => error
+    );
+    this.dispatchEvent('error', { error });
+  }
+
+  private getReconnectDelay(attempt: number): number {
+    const {
+      reconnectDelay,
+      maxReconnectDelay = DEFAULT_MAX_RECONNECT_DELAY,
+      reconnectJitter = DEFAULT_RECONNECT_JITTER,
+    } = this.config;
+    const backoff = Math.min(reconnectDelay * 2 ** (attempt - 1), maxReconnectDelay);
+    // Randomly shave off up to `reconnectJitter` of the delay so clients
+    // dropped together do not reconnect in lockstep
+    return Math.round(backoff * (1 - reconnectJitter * Math.random()));
+  }
+
   private attemptReconnect(): void {
     if (this.reconnectAttempts >= this.config.reconnectAttempts) {
+      this.reconnecting = false;
+      this.rejectPendingRequests(() => true);
       return;
     }
 
     this.reconnectAttempts++;
-    // Attempting reconnection with retry count
+    this.reconnecting = true;
 
-    this.reconnectTimeoutId = window.setTimeout(() => {
+    this.reconnectTimeoutId = this.timers.setTimeout(() => {
+      this.reconnectTimeoutId = null;
       this.connect().catch(() => {
         // Reconnection failed, will try again
       });
-    }, this.config.reconnectDelay);
+    }, this.getReconnectDelay(this.reconnectAttempts));
   }
 }
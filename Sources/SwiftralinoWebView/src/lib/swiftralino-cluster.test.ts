@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyClusterEvent,
+  executeOnPlatforms,
+  matchesSelector,
+  selectPlatforms,
+} from './swiftralino-cluster';
+import { PartialExecutionError } from './swiftralino-errors';
+import type { ClusterPlatform, SwiftralinoClient } from '@/types/swiftralino';
+
+const member = (id: string, overrides: Partial<ClusterPlatform> = {}): ClusterPlatform => ({
+  id,
+  deviceName: `${id}.local`,
+  platform: 'Linux',
+  version: '1.0',
+  capabilities: ['filesystem', 'process'],
+  status: 'up',
+  lastSeen: 100,
+  ...overrides,
+});
+
+describe('applyClusterEvent', () => {
+  const platforms = [member('a'), member('b')];
+
+  it('appends members that join and replaces ones that rejoin in place', () => {
+    const joined = applyClusterEvent(
+      platforms,
+      {
+        topic: 'cluster:member-joined',
+        payload: { platform: member('c', { lastSeen: undefined }) },
+      },
+      200
+    );
+    expect(joined.map(({ id }) => id)).toEqual(['a', 'b', 'c']);
+    expect(joined[2]).toMatchObject({ status: 'up', lastSeen: 200 });
+
+    const rejoined = applyClusterEvent(
+      [member('a', { status: 'unreachable' }), member('b')],
+      { topic: 'cluster:member-joined', payload: { platform: member('a', { version: '2.0' }) } },
+      200
+    );
+    expect(rejoined.map(({ id }) => id)).toEqual(['a', 'b']);
+    expect(rejoined[0]).toMatchObject({ status: 'up', version: '2.0', lastSeen: 100 });
+  });
+
+  it('drops members that leave', () => {
+    expect(
+      applyClusterEvent(platforms, { topic: 'cluster:member-left', payload: { platformId: 'a' } })
+    ).toEqual([platforms[1]]);
+  });
+
+  it('marks unreachable members without touching the others', () => {
+    const next = applyClusterEvent(platforms, {
+      topic: 'cluster:member-unreachable',
+      payload: { platformId: 'b', lastSeen: 150 },
+    });
+    expect(next[0]).toBe(platforms[0]);
+    expect(next[1]).toMatchObject({ id: 'b', status: 'unreachable', lastSeen: 150 });
+    expect(platforms[1].status).toBe('up');
+  });
+});
+
+describe('matchesSelector', () => {
+  const mac = member('mac', { platform: 'macOS', capabilities: ['camera'], tags: ['desk', 'ci'] });
+
+  it('selects everything with an empty selector', () => {
+    expect(matchesSelector(mac, {})).toBe(true);
+  });
+
+  it('needs every criterion to match', () => {
+    expect(matchesSelector(mac, { platformIds: ['mac'], platform: 'MACOS' })).toBe(true);
+    expect(matchesSelector(mac, { platform: ['Linux', 'macos'] })).toBe(true);
+    expect(matchesSelector(mac, { platformIds: ['mac'], platform: 'Linux' })).toBe(false);
+  });
+
+  it('needs all listed capabilities and tags', () => {
+    expect(matchesSelector(mac, { capabilities: ['camera'], tags: ['ci', 'desk'] })).toBe(true);
+    expect(matchesSelector(mac, { capabilities: ['camera', 'process'] })).toBe(false);
+    expect(matchesSelector(member('a'), { tags: ['ci'] })).toBe(false);
+  });
+
+  it('filters platform lists in order', () => {
+    const platforms = [member('a'), mac, member('b')];
+    expect(selectPlatforms(platforms, { platform: 'linux' }).map(({ id }) => id)).toEqual([
+      'a',
+      'b',
+    ]);
+  });
+});
+
+describe('executeOnPlatforms', () => {
+  const platforms = [member('a'), member('b'), member('c', { status: 'unreachable' })];
+
+  // Answers `platforms` from the list and runs the script successfully on
+  // every target but `b`
+  const createClient = () => {
+    const calls: Array<{ operation: string; params: Record<string, unknown> }> = [];
+    const client = {
+      call: async (_action: string, operation: string, params: Record<string, unknown>) => {
+        calls.push({ operation, params });
+        if (operation === 'platforms') {
+          return { id: '1', type: 'response', action: 'distributed', data: { platforms } };
+        }
+        const targets = params.targets as string[];
+        return {
+          id: '2',
+          type: 'response',
+          action: 'distributed',
+          data: {
+            results: targets.map((platformId) => ({
+              platformId,
+              success: platformId !== 'b',
+              output: platformId === 'b' ? 'exit 1' : 'ok',
+              timestamp: 1,
+            })),
+          },
+        };
+      },
+    };
+    return { calls, client: client as unknown as Pick<SwiftralinoClient, 'call'> };
+  };
+
+  it('sends the script to reachable targets only', async () => {
+    const { calls, client } = createClient();
+    const execution = await executeOnPlatforms(client, {}, 'uptime', { targetTimeout: 1000 });
+    expect(calls[1].params).toEqual({ script: 'uptime', targets: ['a', 'b'], timeout: 1000 });
+    expect(execution.complete).toBe(false);
+    expect(execution.results.map(({ platformId, status }) => [platformId, status])).toEqual([
+      ['a', 'succeeded'],
+      ['b', 'failed'],
+      ['c', 'unreachable'],
+    ]);
+  });
+
+  it('skips the round trip when no target is reachable', async () => {
+    const { calls, client } = createClient();
+    const execution = await executeOnPlatforms(client, { platformIds: ['c'] }, 'uptime');
+    expect(calls.map(({ operation }) => operation)).toEqual(['platforms']);
+    expect(execution.results).toEqual([
+      { platformId: 'c', status: 'unreachable', output: 'c.local is unreachable' },
+    ]);
+  });
+
+  it('throws with the partial results when every target is required', async () => {
+    const { client } = createClient();
+    const error = await executeOnPlatforms(client, { platformIds: ['a', 'b'] }, 'uptime', {
+      requireAll: true,
+    }).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(PartialExecutionError);
+    expect((error as PartialExecutionError).message).toBe('Script succeeded on 1 of 2 platforms');
+    await expect(
+      executeOnPlatforms(client, { platformIds: ['a'] }, 'uptime', { requireAll: true })
+    ).resolves.toMatchObject({ complete: true });
+  });
+});
@@ -0,0 +1,143 @@
+import { PartialExecutionError } from './swiftralino-errors';
+import type { APIResult } from './swiftralino-protocol';
+import type {
+  ClusterPlatform,
+  ClusterPlatformStatus,
+  DistributedExecuteOptions,
+  DistributedExecution,
+  DistributedTargetResult,
+  PlatformSelector,
+  SwiftralinoClient,
+  SwiftralinoServerEvents,
+} from '@/types/swiftralino';
+
+// Membership events the backend pushes while a cluster is running
+export const CLUSTER_TOPICS = [
+  'cluster:member-joined',
+  'cluster:member-left',
+  'cluster:member-unreachable',
+] as const;
+
+export type ClusterTopic = (typeof CLUSTER_TOPICS)[number];
+
+export type ClusterEvent = {
+  [K in ClusterTopic]: { topic: K; payload: SwiftralinoServerEvents[K] };
+}[ClusterTopic];
+
+// Backends without membership tracking only list members they can reach
+export const platformStatus = (platform: ClusterPlatform): ClusterPlatformStatus =>
+  platform.status ?? 'up';
+
+// Folds one membership event into a platform list, keeping its order; `now`
+// is in seconds like the backend's timestamps
+export const applyClusterEvent = (
+  platforms: ClusterPlatform[],
+  event: ClusterEvent,
+  now = Date.now() / 1000
+): ClusterPlatform[] => {
+  switch (event.topic) {
+    case 'cluster:member-joined': {
+      const joined: ClusterPlatform = {
+        ...event.payload.platform,
+        status: 'up',
+        lastSeen: event.payload.platform.lastSeen ?? now,
+      };
+      const index = platforms.findIndex((platform) => platform.id === joined.id);
+      return index === -1
+        ? [...platforms, joined]
+        : platforms.map((platform, position) => (position === index ? joined : platform));
+    }
+    case 'cluster:member-left':
+      return platforms.filter((platform) => platform.id !== event.payload.platformId);
+    case 'cluster:member-unreachable': {
+      const { platformId, lastSeen } = event.payload;
+      return platforms.map((platform) =>
+        platform.id === platformId ? { ...platform, status: 'unreachable', lastSeen } : platform
+      );
+    }
+  }
+};
+
+const DEFAULT_TARGET_TIMEOUT = 30000;
+// Allowance for the round trip on top of the slowest target
+const EXECUTE_TIMEOUT_MARGIN = 5000;
+
+type ClusterClient = Pick<SwiftralinoClient, 'call'>;
+
+const includesAll = (values: string[] | undefined, required: string[] | undefined) =>
+  !required || required.every((value) => values?.includes(value));
+
+export const matchesSelector = (platform: ClusterPlatform, selector: PlatformSelector): boolean => {
+  const names = selector.platform === undefined ? undefined : [selector.platform].flat();
+  return (
+    (!selector.platformIds || selector.platformIds.includes(platform.id)) &&
+    (!names || names.some((name) => name.toLowerCase() === platform.platform.toLowerCase())) &&
+    includesAll(platform.capabilities, selector.capabilities) &&
+    includesAll(platform.tags, selector.tags)
+  );
+};
+
+export const selectPlatforms = (
+  platforms: ClusterPlatform[],
+  selector: PlatformSelector
+): ClusterPlatform[] => platforms.filter((platform) => matchesSelector(platform, selector));
+
+const targetResult = (
+  platform: ClusterPlatform,
+  result: APIResult<'distributed', 'executeOn'>['results'][number] | undefined
+): DistributedTargetResult => {
+  const platformId = platform.id;
+  if (platformStatus(platform) !== 'up') {
+    return { platformId, status: 'unreachable', output: `${platform.deviceName} is unreachable` };
+  }
+  if (!result) {
+    return { platformId, status: 'failed', output: 'The backend reported no result' };
+  }
+  const status = result.timedOut ? 'timed-out' : result.success ? 'succeeded' : 'failed';
+  return { platformId, status, output: result.output, timestamp: result.timestamp };
+};
+
+// Resolves the selector against the current members and runs the script on
+// the reachable ones. Targets that fail do not fail the call unless
+// `requireAll` is set.
+export const executeOnPlatforms = async (
+  client: ClusterClient,
+  selector: PlatformSelector,
+  script: string,
+  options: DistributedExecuteOptions = {}
+): Promise<DistributedExecution> => {
+  const { targetTimeout = DEFAULT_TARGET_TIMEOUT, requireAll = false, ...requestOptions } = options;
+  const members = await client.call('distributed', 'platforms', {}, requestOptions);
+  const targets = selectPlatforms(members.data?.platforms ?? [], selector);
+  const reachable = targets.filter((platform) => platformStatus(platform) === 'up');
+
+  let executed: APIResult<'distributed', 'executeOn'>['results'] = [];
+  if (reachable.length > 0) {
+    const response = await client.call(
+      'distributed',
+      'executeOn',
+      { script, targets: reachable.map(({ id }) => id), timeout: targetTimeout },
+      {
+        ...requestOptions,
+        timeout: requestOptions.timeout ?? targetTimeout + EXECUTE_TIMEOUT_MARGIN,
+      }
+    );
+    executed = response.data?.results ?? [];
+  }
+
+  const results = targets.map((platform) =>
+    targetResult(
+      platform,
+      executed.find(({ platformId }) => platformId === platform.id)
+    )
+  );
+  const execution = {
+    targets,
+    results,
+    complete: results.every(({ status }) => status === 'succeeded'),
+  };
+  if (requireAll && !execution.complete) {
+    throw new PartialExecutionError({ action: 'distributed', operation: 'executeOn' }, execution);
+  }
+  return execution;
+};
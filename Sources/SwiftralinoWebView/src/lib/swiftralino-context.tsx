@@ -1,86 +1,223 @@
 import React, { type ReactNode, createContext, useContext, useEffect, useState } from 'react';
+import { DEFAULT_TOKEN_GLOBAL } from './swiftralino-auth';
 import { WebSocketSwiftralinoClient } from './swiftralino-client';
-import type { SwiftralinoClient, SwiftralinoConfig, ImportMetaEnv } from '@/types/swiftralino';
+import { initialConnectionStats } from './swiftralino-heartbeat';
+import { usePermissionStore } from './swiftralino-permission-store';
+import type {
+  BackendDescription,
+  ConnectionQualityStats,
+  SwiftralinoClient,
+  SwiftralinoConfig,
+  ImportMetaEnv,
+  SwiftralinoAuthConfig,
+} from '@/types/swiftralino';
 
-interface SwiftralinoContextType {
+// Name of the only connection when no backends are configured
+export const DEFAULT_CONNECTION = 'default';
+
+// Hosts that support the handshake inject the token into the page or serve it
+// at VITE_SWIFTRALINO_TOKEN_URL; without either the bridge is used as is.
+// That token belongs to the local bridge, so only the default connection gets it.
+const defaultAuth = (env: ImportMetaEnv | undefined): SwiftralinoAuthConfig | undefined => {
+  if (env?.VITE_SWIFTRALINO_TOKEN_URL) {
+    return { token: { url: env.VITE_SWIFTRALINO_TOKEN_URL } };
+  }
+  if (DEFAULT_TOKEN_GLOBAL in globalThis) {
+    return { token: { global: DEFAULT_TOKEN_GLOBAL } };
+  }
+  return undefined;
+};
+
+// VITE_SWIFTRALINO_BACKENDS=default=ws://127.0.0.1:8080/bridge,build=ws://build.lan:8080/bridge
+const parseBackends = (
+  value: string | undefined
+): Record<string, Partial<SwiftralinoConfig>> | undefined => {
+  const entries = (value ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.includes('='))
+    .map((entry) => {
+      const separator = entry.indexOf('=');
+      return [entry.slice(0, separator).trim(), { wsUrl: entry.slice(separator + 1).trim() }];
+    });
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+};
+
+export type SwiftralinoConnectionStatus = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+export interface SwiftralinoConnection {
+  name: string;
   client: SwiftralinoClient | null;
   isConnected: boolean;
-  connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
+  connectionStatus: SwiftralinoConnectionStatus;
+  connectionQuality: ConnectionQualityStats;
+  // What the backend serves, null until it described itself (or if it cannot)
+  backend: BackendDescription | null;
 }
 
-const SwiftralinoContext = createContext<SwiftralinoContextType>({
+interface SwiftralinoContextType {
+  // In the order the backends were configured
+  connections: SwiftralinoConnection[];
+  activeConnection: string;
+  setActiveConnection: (name: string) => void;
+}
+
+const disconnected = (name: string): SwiftralinoConnection => ({
+  name,
   client: null,
   isConnected: false,
   connectionStatus: 'disconnected',
+  connectionQuality: initialConnectionStats,
+  backend: null,
 });
 
+const SwiftralinoContext = createContext<SwiftralinoContextType>({
+  connections: [],
+  activeConnection: DEFAULT_CONNECTION,
+  setActiveConnection: () => {},
+});
+
+// The named connection, or the one picked in the backend switcher
 // eslint-disable-next-line react-refresh/only-export-components
-export const useSwiftralino = () => {
+export const useSwiftralino = (name?: string): SwiftralinoConnection => {
   const context = useContext(SwiftralinoContext);
   if (!context) {
     throw new Error('useSwiftralino must be used within a SwiftralinoProvider');
   }
-  return context;
+  const target = name ?? context.activeConnection;
+  const connection = context.connections.find((entry) => entry.name === target);
+  if (!connection && name !== undefined && context.connections.length > 0) {
+    throw new Error(`Unknown Swiftralino connection: ${name}`);
+  }
+  return connection ?? disconnected(target);
+};
+
+// eslint-disable-next-line react-refresh/only-export-components
+export const useSwiftralinoConnections = () => {
+  const { connections, activeConnection, setActiveConnection } = useContext(SwiftralinoContext);
+  return { connections, activeConnection, setActiveConnection };
 };
 
 interface SwiftralinoProviderProps {
   children: ReactNode;
+  // Settings shared by every connection, except `auth`, which only applies to the
+  // default one
   config?: Partial<SwiftralinoConfig>;
+  // Named backends, each merged over `config`. Defaults to the ones in
+  // VITE_SWIFTRALINO_BACKENDS, or a single connection to VITE_WS_URL. Backends
+  // other than DEFAULT_CONNECTION authenticate only with their own `auth`.
+  backends?: Record<string, Partial<SwiftralinoConfig>>;
 }
 
 export const SwiftralinoProvider: React.FC<SwiftralinoProviderProps> = ({
   children,
   config: userConfig,
+  backends: userBackends,
 }) => {
-  const [client, setClient] = useState<SwiftralinoClient | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<
-    'connecting' | 'connected' | 'disconnected' | 'error'
-  >('disconnected');
+  const [connections, setConnections] = useState<SwiftralinoConnection[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
 
   useEffect(() => {
     const { env } = import.meta as unknown as { env: ImportMetaEnv };
-    const config: SwiftralinoConfig = {
-      wsUrl: env?.VITE_WS_URL || 'ws://127.0.0.1:8080/bridge',
-      reconnectAttempts: 5,
-      reconnectDelay: 2000,
-      ...userConfig,
+    const backends = userBackends ??
+      parseBackends(env?.VITE_SWIFTRALINO_BACKENDS) ?? { [DEFAULT_CONNECTION]: {} };
+    const names = Object.keys(backends);
+
+    // Keyed by client, so late events of a replaced client change nothing
+    const updateConnection = (
+      client: SwiftralinoClient,
+      update: Partial<SwiftralinoConnection>
+    ) => {
+      setConnections((current) =>
+        current.map((connection) =>
+          connection.client === client ? { ...connection, ...update } : connection
+        )
+      );
     };
 
-    const swiftralinoClient = new WebSocketSwiftralinoClient(config);
+    const clients = names.map((name) => {
+      const config: SwiftralinoConfig = {
+        wsUrl: env?.VITE_WS_URL || 'ws://127.0.0.1:8080/bridge',
+        // VITE_SWIFTRALINO_TRANSPORT=mock runs the UI without the Swift server
+        transport: env?.VITE_SWIFTRALINO_TRANSPORT === 'mock' ? 'mock' : 'websocket',
+        reconnectAttempts: 5,
+        reconnectDelay: 2000,
+        ...userConfig,
+        ...backends[name],
+        // Never send the local token to a remote backend
+        auth:
+          name === DEFAULT_CONNECTION
+            ? (backends[name].auth ?? userConfig?.auth ?? defaultAuth(env))
+            : backends[name].auth,
+        // Refused calls ask the user through <PermissionPrompt />
+        permissions: {
+          onRequest: (request) => usePermissionStore.getState().prompt(request),
+          ...userConfig?.permissions,
+          ...backends[name].permissions,
+        },
+      };
 
-    // Set up event listeners
-    swiftralinoClient.addEventListener('connected', () => {
-      setIsConnected(true);
-      setConnectionStatus('connected');
-    });
+      const swiftralinoClient = new WebSocketSwiftralinoClient(config);
 
-    swiftralinoClient.addEventListener('disconnected', () => {
-      setIsConnected(false);
-      setConnectionStatus('disconnected');
-    });
+      // Set up event listeners
+      swiftralinoClient.addEventListener('connected', () => {
+        updateConnection(swiftralinoClient, { isConnected: true, connectionStatus: 'connected' });
+      });
+
+      swiftralinoClient.addEventListener('disconnected', () => {
+        updateConnection(swiftralinoClient, {
+          isConnected: false,
+          connectionStatus: 'disconnected',
+        });
+      });
+
+      swiftralinoClient.addEventListener('error', () => {
+        updateConnection(swiftralinoClient, { connectionStatus: 'error' });
+      });
 
-    swiftralinoClient.addEventListener('error', () => {
-      setConnectionStatus('error');
+      swiftralinoClient.addEventListener('quality', (stats) => {
+        updateConnection(swiftralinoClient, { connectionQuality: stats ?? initialConnectionStats });
+      });
+
+      swiftralinoClient.addEventListener('description', (description) => {
+        updateConnection(swiftralinoClient, { backend: description ?? null });
+      });
+
+      return swiftralinoClient;
     });
 
-    setClient(swiftralinoClient);
-    setConnectionStatus('connecting');
+    setConnections(
+      names.map((name, index) => ({
+        ...disconnected(name),
+        client: clients[index],
+        connectionStatus: 'connecting',
+      }))
+    );
 
-    // Connect to backend
-    swiftralinoClient.connect().catch((_error: unknown) => {
-      // Connection failed - set error state
-      setConnectionStatus('error');
+    // Connect to every backend; one failing leaves the others alone
+    clients.forEach((swiftralinoClient) => {
+      swiftralinoClient.connect().catch((_error: unknown) => {
+        // Connection failed - set error state
+        updateConnection(swiftralinoClient, { connectionStatus: 'error' });
+      });
     });
 
     // Cleanup on unmount
     return () => {
-      swiftralinoClient.disconnect();
+      clients.forEach((swiftralinoClient) => swiftralinoClient.disconnect());
     };
-  }, [userConfig]);
+  }, [userConfig, userBackends]);
+
+  // The first backend until another one is picked, or when the picked one is gone
+  const activeConnection =
+    connections.find((connection) => connection.name === selected)?.name ??
+    connections[0]?.name ??
+    DEFAULT_CONNECTION;
 
   return (
-    <SwiftralinoContext.Provider value={{ client, isConnected, connectionStatus }}>
+    <SwiftralinoContext.Provider
+      value={{ connections, activeConnection, setActiveConnection: setSelected }}
+    >
       {children}
     </SwiftralinoContext.Provider>
   );
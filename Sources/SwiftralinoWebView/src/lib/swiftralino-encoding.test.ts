@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase64, decodeUtf8, encodeBase64, encodeUtf8 } from './swiftralino-encoding';
+
+describe('encoding', () => {
+  it('round-trips base64', () => {
+    const bytes = new Uint8Array([0, 1, 254, 255]);
+    expect(encodeBase64(bytes)).toBe('AAH+/w==');
+    expect(decodeBase64('AAH+/w==')).toEqual(bytes);
+  });
+
+  it('round-trips UTF-8', () => {
+    expect(decodeUtf8(encodeUtf8('héllo ✓'))).toBe('héllo ✓');
+    expect(encodeUtf8('é')).toEqual(new Uint8Array([0xc3, 0xa9]));
+  });
+});
@@ -0,0 +1,19 @@
+// Bytes travel through the JSON protocol as base64 strings
+
+// String.fromCharCode takes its input as arguments, so convert in slices
+const BASE64_SLICE = 0x8000;
+
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let offset = 0; offset < bytes.length; offset += BASE64_SLICE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_SLICE));
+  }
+  return btoa(binary);
+};
+
+export const decodeBase64 = (text: string): Uint8Array =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+export const encodeUtf8 = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+export const decodeUtf8 = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
@@ -0,0 +1,84 @@
+import { create } from 'zustand';
+import {
+  RequestAbortedError,
+  SwiftralinoError,
+  UnsupportedOperationError,
+} from './swiftralino-errors';
+import { randomId } from './swiftralino-runtime';
+
+export interface ErrorLogEntry {
+  id: string;
+  // Component or feature that reported the error
+  source: string;
+  message: string;
+  name: string;
+  code?: SwiftralinoError['code'];
+  endpoint?: string;
+  requestId?: string;
+  details?: Record<string, unknown>;
+  timestamp: number;
+  // Hidden from the toasts, still listed in the log panel
+  dismissed: boolean;
+}
+
+interface ErrorStoreState {
+  entries: ErrorLogEntry[];
+  reportError: (source: string, error: unknown) => void;
+  dismiss: (id: string) => void;
+  clear: () => void;
+}
+
+const MAX_ENTRIES = 100;
+
+const toEntry = (source: string, error: unknown): ErrorLogEntry => {
+  const base = {
+    id: randomId(),
+    source,
+    timestamp: Date.now(),
+    dismissed: false,
+  };
+
+  if (error instanceof SwiftralinoError) {
+    return {
+      ...base,
+      message: error.message,
+      name: error.name,
+      code: error.code,
+      endpoint: error.endpoint,
+      requestId: error.requestId,
+      details: error.details,
+    };
+  }
+  if (error instanceof Error) {
+    return { ...base, message: error.message, name: error.name };
+  }
+  return { ...base, message: String(error), name: 'Error' };
+};
+
+export const useErrorStore = create<ErrorStoreState>((set) => ({
+  entries: [],
+
+  reportError: (source, error) => {
+    // Aborts are initiated by the user and are not worth surfacing
+    if (error instanceof RequestAbortedError) {
+      return;
+    }
+    // Panels hide what the backend does not serve; only calls made before
+    // the description arrived end up here
+    if (error instanceof UnsupportedOperationError) {
+      return;
+    }
+    set((state) => ({
+      entries: [toEntry(source, error), ...state.entries].slice(0, MAX_ENTRIES),
+    }));
+  },
+
+  dismiss: (id) =>
+    set((state) => ({
+      entries: state.entries.map((entry) =>
+        entry.id === id ? { ...entry, dismissed: true } : entry
+      ),
+    })),
+
+  clear: () => set({ entries: [] }),
+}));
@@ -0,0 +1,229 @@
+import type { DistributedExecution, SwiftralinoResponse } from '@/types/swiftralino';
+
+export type SwiftralinoErrorCode =
+  | 'timeout'
+  | 'aborted'
+  | 'transport'
+  | 'unknown-action'
+  | 'permission-denied'
+  | 'unauthenticated'
+  | 'backend-exception'
+  | 'protocol'
+  | 'integrity'
+  | 'partial';
+
+export interface SwiftralinoErrorContext {
+  action: string;
+  operation?: string;
+  requestId?: string;
+  // Error payload as sent by the backend, including `original_action`
+  details?: Record<string, unknown>;
+}
+
+// Base class for every error raised by the client
+export class SwiftralinoError extends Error {
+  readonly code: SwiftralinoErrorCode;
+  readonly action: string;
+  readonly operation: string | undefined;
+  readonly requestId: string | undefined;
+  readonly details: Record<string, unknown> | undefined;
+
+  constructor(code: SwiftralinoErrorCode, message: string, context: SwiftralinoErrorContext) {
+    super(message);
+    this.name = 'SwiftralinoError';
+    this.code = code;
+    this.action = context.action;
+    this.operation = context.operation;
+    this.requestId = context.requestId;
+    this.details = context.details;
+  }
+
+  // `filesystem/readDirectory` style label for messages and logs
+  get endpoint(): string {
+    return this.operation ? `${this.action}/${this.operation}` : this.action;
+  }
+}
+
+export class RequestTimeoutError extends SwiftralinoError {
+  readonly timeout: number;
+
+  constructor(context: SwiftralinoErrorContext, timeout: number) {
+    super('timeout', `Request ${context.action} timed out after ${timeout}ms`, context);
+    this.name = 'RequestTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+export class RequestAbortedError extends SwiftralinoError {
+  constructor(context: SwiftralinoErrorContext) {
+    super('aborted', `Request ${context.action} was aborted`, context);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+// The request could not be delivered or its answer never arrived
+export class TransportError extends SwiftralinoError {
+  constructor(message: string, context: SwiftralinoErrorContext) {
+    super('transport', message, context);
+    this.name = 'TransportError';
+  }
+}
+
+export class ConnectionLostError extends TransportError {
+  constructor(context: SwiftralinoErrorContext, message = 'Connection to backend lost') {
+    super(`${message} (${context.action})`, context);
+    this.name = 'ConnectionLostError';
+  }
+}
+
+export class UnknownActionError extends SwiftralinoError {
+  constructor(message: string, context: SwiftralinoErrorContext) {
+    super('unknown-action', message, context);
+    this.name = 'UnknownActionError';
+  }
+}
+
+// Refused locally: the backend described itself without this operation
+export class UnsupportedOperationError extends UnknownActionError {
+  constructor(context: SwiftralinoErrorContext) {
+    const endpoint = context.operation ? `${context.action}/${context.operation}` : context.action;
+    super(`Unsupported operation: the backend does not provide ${endpoint}`, context);
+    this.name = 'UnsupportedOperationError';
+  }
+}
+
+export class PermissionDeniedError extends SwiftralinoError {
+  constructor(message: string, context: SwiftralinoErrorContext) {
+    super('permission-denied', message, context);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+// The bridge handshake failed, or the backend refused the session or a signature
+export class AuthenticationError extends SwiftralinoError {
+  constructor(message: string, context: SwiftralinoErrorContext) {
+    super('unauthenticated', message, context);
+    this.name = 'AuthenticationError';
+  }
+}
+
+// The backend accepted the request but the API threw while executing it
+export class BackendExceptionError extends SwiftralinoError {
+  constructor(message: string, context: SwiftralinoErrorContext) {
+    super('backend-exception', message, context);
+    this.name = 'BackendExceptionError';
+  }
+}
+
+export class ProtocolValidationError extends SwiftralinoError {
+  readonly issues: string[];
+
+  constructor(context: SwiftralinoErrorContext, issues: string[]) {
+    const endpoint = context.operation ? `${context.action}/${context.operation}` : context.action;
+    super(
+      'protocol',
+      `Backend response for ${endpoint} does not match the protocol: ${issues.join('; ')}`,
+      context
+    );
+    this.name = 'ProtocolValidationError';
+    this.issues = issues;
+  }
+}
+
+export class ProtocolVersionError extends SwiftralinoError {
+  readonly backendVersion: string;
+  readonly clientVersion: string;
+
+  constructor(context: SwiftralinoErrorContext, backendVersion: string, clientVersion: string) {
+    super(
+      'protocol',
+      `Backend speaks protocol ${backendVersion}, this client ${clientVersion}`,
+      context
+    );
+    this.name = 'ProtocolVersionError';
+    this.backendVersion = backendVersion;
+    this.clientVersion = clientVersion;
+  }
+}
+
+// A transferred file does not hash to what the other side has
+export class ChecksumMismatchError extends SwiftralinoError {
+  readonly path: string;
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(context: SwiftralinoErrorContext, path: string, expected: string, actual: string) {
+    super(
+      'integrity',
+      `Checksum mismatch for ${path}: expected ${expected}, got ${actual}`,
+      context
+    );
+    this.name = 'ChecksumMismatchError';
+    this.path = path;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+// Some targets of a distributed execution did not succeed; the rest did run
+export class PartialExecutionError extends SwiftralinoError {
+  readonly execution: DistributedExecution;
+
+  constructor(context: SwiftralinoErrorContext, execution: DistributedExecution) {
+    const succeeded = execution.results.filter(({ status }) => status === 'succeeded').length;
+    super(
+      'partial',
+      `Script succeeded on ${succeeded} of ${execution.targets.length} platforms`,
+      context
+    );
+    this.name = 'PartialExecutionError';
+    this.execution = execution;
+  }
+}
+
+const BACKEND_ERROR_CODES = [
+  'unknown-action',
+  'permission-denied',
+  'unauthenticated',
+  'backend-exception',
+] as const;
+
+type BackendErrorCode = (typeof BACKEND_ERROR_CODES)[number];
+
+const classifyBackendError = (code: unknown, message: string): BackendErrorCode => {
+  if (BACKEND_ERROR_CODES.includes(code as BackendErrorCode)) {
+    return code as BackendErrorCode;
+  }
+  // Backends without error codes only send MessageHandler's wording
+  if (/unknown (api|system) action|unsupported (message type|operation)/i.test(message)) {
+    return 'unknown-action';
+  }
+  if (/authentication (failed|required)/i.test(message)) {
+    return 'unauthenticated';
+  }
+  return /permission denied/i.test(message) ? 'permission-denied' : 'backend-exception';
+};
+
+// Turns a `type: 'error'` response into the matching error class
+export const createBackendError = (
+  response: SwiftralinoResponse,
+  context: SwiftralinoErrorContext
+): SwiftralinoError => {
+  const details =
+    typeof response.data === 'object' && response.data !== null
+      ? (response.data as Record<string, unknown>)
+      : {};
+  const message = typeof details.message === 'string' ? details.message : 'Unknown error';
+  const errorContext = { ...context, details };
+
+  switch (classifyBackendError(details.code, message)) {
+    case 'unknown-action':
+      return new UnknownActionError(message, errorContext);
+    case 'permission-denied':
+      return new PermissionDeniedError(message, errorContext);
+    case 'unauthenticated':
+      return new AuthenticationError(message, errorContext);
+    default:
+      return new BackendExceptionError(message, errorContext);
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TransportError,
+  UnknownActionError,
+  UnsupportedOperationError,
+} from './swiftralino-errors';
+import {
+  BackendFeatures,
+  UNDESCRIBED_BACKEND,
+  isCompatibleProtocol,
+  supportsOperation,
+} from './swiftralino-features';
+import { PROTOCOL_VERSION } from './swiftralino-protocol';
+import type { BackendDescription } from '@/types/swiftralino';
+
+const description: BackendDescription = {
+  protocolVersion: PROTOCOL_VERSION,
+  version: '1.0.0',
+  platform: 'test',
+  apis: { filesystem: ['readDirectory', 'readFile'], process: ['execute'] },
+  plugins: [],
+};
+
+const loadFeatures = async (fetchDescription: () => Promise<BackendDescription | null>) => {
+  const changes: Array<BackendDescription | null> = [];
+  const features = new BackendFeatures({
+    fetchDescription,
+    onChange: (next) => changes.push(next),
+  });
+  await features.load();
+  return { features, changes };
+};
+
+describe('supportsOperation', () => {
+  it('assumes everything is served without a description', () => {
+    expect(supportsOperation(null, 'clipboard', 'read')).toBe(true);
+  });
+
+  it('checks the action and operation against the description', () => {
+    expect(supportsOperation(description, 'filesystem')).toBe(true);
+    expect(supportsOperation(description, 'filesystem', 'readFile')).toBe(true);
+    expect(supportsOperation(description, 'filesystem', 'listDirectory')).toBe(false);
+    expect(supportsOperation(description, 'distributed')).toBe(false);
+  });
+});
+
+describe('isCompatibleProtocol', () => {
+  it('compares major versions', () => {
+    expect(isCompatibleProtocol('1.4')).toBe(true);
+    expect(isCompatibleProtocol('2.0')).toBe(false);
+  });
+});
+
+describe('BackendFeatures', () => {
+  it('rules out what the description leaves out', async () => {
+    const { features, changes } = await loadFeatures(async () => description);
+    expect(changes).toEqual([description]);
+    await expect(features.check('process', 'spawn')).rejects.toBeInstanceOf(
+      UnsupportedOperationError
+    );
+    await expect(features.check('process', 'execute')).resolves.toBeUndefined();
+  });
+
+  it('falls back to the undescribed backend when describe is unknown', async () => {
+    const { features, changes } = await loadFeatures(() =>
+      Promise.reject(
+        new UnknownActionError('Unknown system action: describe', { action: 'describe' })
+      )
+    );
+    expect(changes).toEqual([UNDESCRIBED_BACKEND]);
+    expect(features.supports('filesystem', 'readDirectory')).toBe(true);
+    expect(features.supports('filesystem', 'writeFile')).toBe(true);
+    expect(features.supports('filesystem', 'listDirectory')).toBe(false);
+    expect(features.supports('process', 'spawn')).toBe(false);
+    expect(features.supports('clipboard', 'readText')).toBe(true);
+    expect(features.supports('shell', 'execute')).toBe(true);
+  });
+
+  it('lets the backend decide when describe failed otherwise', async () => {
+    const { features, changes } = await loadFeatures(() =>
+      Promise.reject(new TransportError('Not connected to backend', { action: 'describe' }))
+    );
+    expect(changes).toEqual([null]);
+    expect(features.supports('process', 'spawn')).toBe(true);
+  });
+});
@@ -0,0 +1,109 @@
+import { UnknownActionError, UnsupportedOperationError } from './swiftralino-errors';
+import { PROTOCOL_VERSION, swiftralinoProtocol } from './swiftralino-protocol';
+import type { BackendDescription } from '@/types/swiftralino';
+
+// Actions of the Swift plugins (PluginAPIs.swift). The Swift server only serves
+// those listed under `plugins` in swiftralino.json and answers the others with
+// an unknown action, so calls to them are left for it to refuse.
+const SWIFT_PLUGIN_ACTIONS = ['clipboard', 'notification', 'dialog', 'shell', 'updater'] as const;
+
+// Stands in for backends that answer `describe` with an unknown action: they
+// predate it, like the Swift MessageHandler, and serve only what it does
+export const UNDESCRIBED_BACKEND: BackendDescription = {
+  protocolVersion: PROTOCOL_VERSION,
+  version: 'unknown',
+  platform: 'unknown',
+  apis: {
+    filesystem: [
+      'readDirectory',
+      'readFile',
+      'writeFile',
+      'appendFile',
+      'mkdir',
+      'rename',
+      'copy',
+      'remove',
+      'stat',
+      'exists',
+    ],
+    system: ['info'],
+    process: ['execute'],
+    ...Object.fromEntries(
+      SWIFT_PLUGIN_ACTIONS.map((action) => [action, Object.keys(swiftralinoProtocol.apis[action])])
+    ),
+  },
+  plugins: [],
+};
+
+// Without a description, e.g. when `describe` failed for other reasons,
+// every action is assumed to be served and the backend has the final say
+export const supportsOperation = (
+  description: BackendDescription | null,
+  action: string,
+  operation?: string
+): boolean => {
+  if (!description) {
+    return true;
+  }
+  const operations = description.apis[action];
+  return operations !== undefined && (operation === undefined || operations.includes(operation));
+};
+
+const majorVersion = (version: string) => version.split('.')[0];
+
+export const isCompatibleProtocol = (version: string): boolean =>
+  majorVersion(version) === majorVersion(PROTOCOL_VERSION);
+
+interface BackendFeaturesHooks {
+  fetchDescription: () => Promise<BackendDescription | null>;
+  onChange: (description: BackendDescription | null) => void;
+}
+
+// What the connected backend serves, so unsupported calls fail without a
+// round trip and the UI can hide what it cannot use
+export class BackendFeatures {
+  private hooks: BackendFeaturesHooks;
+  private description: BackendDescription | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(hooks: BackendFeaturesHooks) {
+    this.hooks = hooks;
+  }
+
+  getDescription(): BackendDescription | null {
+    return this.description;
+  }
+
+  supports(action: string, operation?: string): boolean {
+    return supportsOperation(this.description, action, operation);
+  }
+
+  // Runs on every connect, since the backend may have been replaced meanwhile
+  load(): Promise<void> {
+    const loading = this.hooks.fetchDescription().then(
+      (description) => this.setDescription(description),
+      (error) =>
+        this.setDescription(error instanceof UnknownActionError ? UNDESCRIBED_BACKEND : null)
+    );
+    this.loading = loading;
+    loading.then(() => {
+      if (this.loading === loading) {
+        this.loading = null;
+      }
+    });
+    return loading;
+  }
+
+  // Rejects with UnsupportedOperationError once the description rules the call out
+  async check(action: string, operation: string | undefined): Promise<void> {
+    await this.loading;
+    if (!this.supports(action, operation)) {
+      throw new UnsupportedOperationError({ action, operation });
+    }
+  }
+
+  private setDescription(description: BackendDescription | null): void {
+    this.description = description;
+    this.hooks.onChange(description);
+  }
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { sha256Hex } from './swiftralino-checksum';
+import { WebSocketSwiftralinoClient } from './swiftralino-client';
+import { encodeUtf8 } from './swiftralino-encoding';
+import { ChecksumMismatchError } from './swiftralino-errors';
+import { readFileStream, writeFileStream } from './swiftralino-file-transfer';
+import { MockSwiftralinoBackend, MockTransport } from './swiftralino-mock-backend';
+import type { FileTransferProgress, SwiftralinoClient } from '@/types/swiftralino';
+
+describe('file streaming', () => {
+  let client: WebSocketSwiftralinoClient;
+
+  beforeEach(async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 0 });
+    client = new WebSocketSwiftralinoClient({
+      wsUrl: '',
+      reconnectAttempts: 0,
+      reconnectDelay: 10,
+      heartbeat: { interval: 0 },
+      transport: () => new MockTransport(backend),
+    });
+    await client.connect();
+  });
+
+  afterEach(() => client.disconnect());
+
+  it('writes and reads back binary data in chunks', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 250, 251, 252, 253, 254, 255, 10]);
+    const progress: FileTransferProgress[] = [];
+    const written = await writeFileStream(client, '/tmp/blob.bin', bytes, {
+      chunkSize: 4,
+      onProgress: (update) => progress.push(update),
+    });
+    expect(written).toEqual({ path: '/tmp/blob.bin', size: 10, checksum: sha256Hex(bytes) });
+    expect(progress.map(({ transferred }) => transferred)).toEqual([4, 8, 10]);
+
+    const read = await readFileStream(client, '/tmp/blob.bin', { chunkSize: 3 });
+    expect(read.bytes).toEqual(bytes);
+    expect(read.checksum).toBe(written.checksum);
+  });
+
+  it('creates empty files', async () => {
+    await writeFileStream(client, '/tmp/empty.txt', '');
+    const read = await readFileStream(client, '/tmp/empty.txt');
+    expect(read.size).toBe(0);
+  });
+});
+
+describe('checksum verification', () => {
+  it('rejects when the backend hashes to something else', async () => {
+    const content = 'hello';
+    const fake = {
+      call: async (_action: string, operation: string) => ({
+        id: operation,
+        type: 'response',
+        action: 'filesystem',
+        data:
+          operation === 'checksum'
+            ? { path: '/a', algorithm: 'sha256', digest: 'f'.repeat(64) }
+            : { path: '/a', size: content.length },
+      }),
+    } as unknown as Pick<SwiftralinoClient, 'call'>;
+
+    const error = await writeFileStream(fake, '/a', content).catch((reason: unknown) => reason);
+    expect(error).toBeInstanceOf(ChecksumMismatchError);
+    await expect(writeFileStream(fake, '/a', content, { verify: false })).resolves.toEqual({
+      path: '/a',
+      size: 5,
+      checksum: sha256Hex(encodeUtf8(content)),
+    });
+  });
+});
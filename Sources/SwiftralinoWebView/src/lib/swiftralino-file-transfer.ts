@@ -0,0 +1,130 @@
+import { Sha256 } from './swiftralino-checksum';
+import { decodeBase64, encodeBase64, encodeUtf8 } from './swiftralino-encoding';
+import { ChecksumMismatchError } from './swiftralino-errors';
+import type { APIResult } from './swiftralino-protocol';
+import type {
+  FileReadResult,
+  FileStreamOptions,
+  FileTransferResult,
+  SwiftralinoClient,
+} from '@/types/swiftralino';
+
+// Files move as a series of readChunk/writeChunk calls, each small enough for
+// one frame, and are hashed on the way so both ends can be compared after.
+
+export const DEFAULT_CHUNK_SIZE = 256 * 1024;
+
+type TransferClient = Pick<SwiftralinoClient, 'call'>;
+
+const concatBytes = (chunks: Uint8Array[], length: number): Uint8Array => {
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const verifyChecksum = async (
+  client: TransferClient,
+  path: string,
+  checksum: string,
+  options: FileStreamOptions
+): Promise<void> => {
+  const response = await client.call(
+    'filesystem',
+    'checksum',
+    { path, algorithm: 'sha256' },
+    options
+  );
+  const { digest } = response.data as APIResult<'filesystem', 'checksum'>;
+  if (digest !== checksum) {
+    throw new ChecksumMismatchError(
+      { action: 'filesystem', operation: 'checksum', requestId: response.id },
+      path,
+      digest,
+      checksum
+    );
+  }
+};
+
+export const readFileStream = async (
+  client: TransferClient,
+  path: string,
+  options: FileStreamOptions = {}
+): Promise<FileReadResult> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const hash = new Sha256();
+  const chunks: Uint8Array[] = [];
+  let transferred = 0;
+  let eof = false;
+
+  while (!eof) {
+    const response = await client.call(
+      'filesystem',
+      'readChunk',
+      { path, offset: transferred, length: chunkSize },
+      options
+    );
+    const chunk = response.data as APIResult<'filesystem', 'readChunk'>;
+    const bytes = decodeBase64(chunk.content);
+    hash.update(bytes);
+    chunks.push(bytes);
+    transferred += bytes.length;
+    options.onProgress?.({ path, transferred, total: chunk.size });
+    // An empty chunk means the file shrank under us; verification reports it
+    eof = chunk.eof || bytes.length === 0;
+  }
+
+  const bytes = concatBytes(chunks, transferred);
+  const checksum = hash.digest();
+  if (options.verify ?? true) {
+    await verifyChecksum(client, path, checksum, options);
+  }
+  return {
+    path,
+    size: transferred,
+    checksum,
+    bytes,
+    toBlob: (type) => new Blob([bytes], type ? { type } : undefined),
+  };
+};
+
+export const writeFileStream = async (
+  client: TransferClient,
+  path: string,
+  data: Blob | Uint8Array | string,
+  options: FileStreamOptions = {}
+): Promise<FileTransferResult> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const source = typeof data === 'string' ? encodeUtf8(data) : data;
+  const total = source instanceof Blob ? source.size : source.length;
+  // Blobs are read one chunk at a time instead of loaded whole
+  const readSlice = async (start: number, end: number) =>
+    source instanceof Blob
+      ? new Uint8Array(await source.slice(start, end).arrayBuffer())
+      : source.subarray(start, end);
+  const hash = new Sha256();
+  let offset = 0;
+
+  // Runs at least once so empty files get created too
+  do {
+    const bytes = await readSlice(offset, Math.min(offset + chunkSize, total));
+    await client.call(
+      'filesystem',
+      'writeChunk',
+      { path, content: encodeBase64(bytes), offset },
+      options
+    );
+    hash.update(bytes);
+    offset += bytes.length;
+    options.onProgress?.({ path, transferred: offset, total });
+  } while (offset < total);
+
+  const checksum = hash.digest();
+  if (options.verify ?? true) {
+    await verifyChecksum(client, path, checksum, options);
+  }
+  return { path, size: total, checksum };
+};
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { WebSocketSwiftralinoClient } from './swiftralino-client';
+import {
+  extensionOf,
+  fetchDirectoryListing,
+  formatBytes,
+  globToRegExp,
+  hexDump,
+  isWatchedPath,
+  isWithinPath,
+  joinPath,
+  parentPath,
+  pathAncestors,
+  previewKind,
+  resolvePath,
+  sortEntries,
+} from './swiftralino-files';
+import { MockSwiftralinoBackend, MockTransport } from './swiftralino-mock-backend';
+import type { SwiftralinoFileEntry } from '@/types/swiftralino';
+
+const entry = (
+  name: string,
+  type: SwiftralinoFileEntry['type'],
+  size = 0,
+  modified = 0
+): SwiftralinoFileEntry => ({
+  name,
+  path: `/${name}`,
+  type,
+  size,
+  modified,
+  permissions: 'rw-r--r--',
+  hidden: false,
+});
+
+describe('paths', () => {
+  it('joins and splits paths', () => {
+    expect(joinPath('/', 'a')).toBe('/a');
+    expect(joinPath('/a', 'b')).toBe('/a/b');
+    expect(parentPath('/a/b')).toBe('/a');
+    expect(parentPath('/a')).toBe('/');
+  });
+
+  it('resolves absolute paths only', () => {
+    expect(resolvePath('/a/./b//../c/')).toBe('/a/c');
+    expect(resolvePath('/..')).toBe('/');
+    expect(resolvePath('a/b')).toBeNull();
+    expect(resolvePath('~/a')).toBeNull();
+  });
+
+  it('lists ancestors for breadcrumbs', () => {
+    expect(pathAncestors('/Users/demo')).toEqual([
+      { name: '/', path: '/' },
+      { name: 'Users', path: '/Users' },
+      { name: 'demo', path: '/Users/demo' },
+    ]);
+  });
+
+  it('matches whole segments only', () => {
+    expect(isWithinPath('/a/b', '/a')).toBe(true);
+    expect(isWithinPath('/a', '/a')).toBe(true);
+    expect(isWithinPath('/ab', '/a')).toBe(false);
+    expect(isWithinPath('/anything', '/')).toBe(true);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('keeps * and ? within a segment', () => {
+    expect(globToRegExp('*.ts').test('a.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/a.ts')).toBe(false);
+    expect(globToRegExp('?.md').test('a.md')).toBe(true);
+    expect(globToRegExp('?.md').test('ab.md')).toBe(false);
+  });
+
+  it('lets ** cross segments, including none', () => {
+    expect(globToRegExp('src/**/*.ts').test('src/a.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/lib/deep/a.ts')).toBe(true);
+    expect(globToRegExp('/tmp/**').test('/tmp/a/b')).toBe(true);
+  });
+
+  it('picks one of the braced alternatives and escapes the rest', () => {
+    expect(globToRegExp('*.{ts,tsx}').test('a.tsx')).toBe(true);
+    expect(globToRegExp('*.{ts,tsx}').test('a.js')).toBe(false);
+    expect(globToRegExp('a+b.(c)').test('a+b.(c)')).toBe(true);
+  });
+});
+
+describe('isWatchedPath', () => {
+  it('limits shallow watches to direct children', () => {
+    expect(isWatchedPath('/a/b', '/a')).toBe(true);
+    expect(isWatchedPath('/a/b/c', '/a')).toBe(false);
+    expect(isWatchedPath('/a/b/c', '/a', { recursive: true })).toBe(true);
+  });
+
+  it('matches globs against the name or the relative path', () => {
+    expect(isWatchedPath('/a/b/c.ts', '/a', { recursive: true, glob: '*.ts' })).toBe(true);
+    expect(isWatchedPath('/a/b/c.ts', '/a', { recursive: true, glob: 'b/*.ts' })).toBe(true);
+    expect(isWatchedPath('/a/d/c.ts', '/a', { recursive: true, glob: 'b/*.ts' })).toBe(false);
+    expect(isWatchedPath('/a', '/a', { glob: '*.ts' })).toBe(true);
+  });
+});
+
+describe('file presentation', () => {
+  it('classifies previews by extension', () => {
+    expect(extensionOf('a.TXT')).toBe('txt');
+    expect(extensionOf('.zshrc')).toBe('');
+    expect(previewKind('photo.png')).toBe('image');
+    expect(previewKind('Makefile')).toBe('text');
+    expect(previewKind('app.exe')).toBe('binary');
+  });
+
+  it('formats sizes', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(1536)).toBe('1.5 KB');
+    expect(formatBytes(5 * 1024 ** 3)).toBe('5.0 GB');
+  });
+
+  it('sorts directories first in either direction', () => {
+    const entries = [
+      entry('b.txt', 'file', 10),
+      entry('src', 'directory'),
+      entry('a10.txt', 'file', 30),
+      entry('a9.txt', 'file', 20),
+    ];
+    expect(sortEntries(entries, 'name', 'asc').map(({ name }) => name)).toEqual([
+      'src',
+      'a9.txt',
+      'a10.txt',
+      'b.txt',
+    ]);
+    expect(sortEntries(entries, 'size', 'desc').map(({ name }) => name)).toEqual([
+      'src',
+      'a10.txt',
+      'a9.txt',
+      'b.txt',
+    ]);
+  });
+
+  it('dumps bytes as hex and ascii', () => {
+    expect(hexDump(new Uint8Array([0x48, 0x69, 0x00]))).toBe(
+      `00000000  48 69 00${' '.repeat(39)}  |Hi.|`
+    );
+  });
+});
+
+describe('fetchDirectoryListing', () => {
+  const connect = async (unsupported: string[] = []) => {
+    const backend = new MockSwiftralinoBackend({
+      latency: 0,
+      files: { '/data/a.txt': 'a', '/data/.hidden': 'h', '/data/sub/b.txt': 'b' },
+      unsupported,
+    });
+    const client = new WebSocketSwiftralinoClient({
+      wsUrl: '',
+      reconnectAttempts: 0,
+      reconnectDelay: 10,
+      heartbeat: { interval: 0 },
+      transport: () => new MockTransport(backend),
+    });
+    await client.connect();
+    return client;
+  };
+
+  it('lists with metadata where the backend can', async () => {
+    const client = await connect();
+    const listing = await fetchDirectoryListing(client, '/data');
+    expect(listing.detailed).toBe(true);
+    expect(listing.entries.find(({ name }) => name === 'sub')?.type).toBe('directory');
+    client.disconnect();
+  });
+
+  it('falls back to names when listDirectory is unknown', async () => {
+    const client = await connect(['filesystem/listDirectory']);
+    const listing = await fetchDirectoryListing(client, '/data');
+    expect(listing.detailed).toBe(false);
+    expect(listing.entries.map(({ name, path, hidden }) => [name, path, hidden])).toEqual(
+      expect.arrayContaining([
+        ['a.txt', '/data/a.txt', false],
+        ['.hidden', '/data/.hidden', true],
+        ['sub', '/data/sub', false],
+      ])
+    );
+    expect(listing.entries.every(({ type }) => type === 'other')).toBe(true);
+    client.disconnect();
+  });
+});
@@ -0,0 +1,233 @@
+import { UnknownActionError } from './swiftralino-errors';
+import type {
+  SwiftralinoClient,
+  SwiftralinoDirectoryListing,
+  SwiftralinoFileEntry,
+  SwiftralinoRequestOptions,
+} from '@/types/swiftralino';
+
+export type PreviewKind = 'text' | 'image' | 'binary';
+
+export type FileSortKey = 'name' | 'size' | 'modified' | 'type';
+
+export const joinPath = (directory: string, name: string): string =>
+  directory.endsWith('/') ? `${directory}${name}` : `${directory}/${name}`;
+
+export const parentPath = (path: string): string => path.slice(0, path.lastIndexOf('/')) || '/';
+
+// Collapses `.`, `..` and repeated slashes; null for relative and `~` paths,
+// which only the backend can resolve
+export const resolvePath = (path: string): string | null => {
+  if (!path.startsWith('/')) {
+    return null;
+  }
+  const segments: string[] = [];
+  path.split('/').forEach((segment) => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+  return `/${segments.join('/')}`;
+};
+
+// `/Users/demo` -> [/, /Users, /Users/demo], for breadcrumbs
+export const pathAncestors = (path: string): Array<{ name: string; path: string }> => {
+  const segments = path.split('/').filter(Boolean);
+  return [
+    { name: '/', path: '/' },
+    ...segments.map((name, index) => ({
+      name,
+      path: `/${segments.slice(0, index + 1).join('/')}`,
+    })),
+  ];
+};
+
+export const isWithinPath = (path: string, ancestor: string): boolean =>
+  path === ancestor || path.startsWith(ancestor === '/' ? '/' : `${ancestor}/`);
+
+// `*` and `?` stay within a path segment, `**` crosses them, `{a,b}` picks one
+export const globToRegExp = (glob: string): RegExp => {
+  let pattern = '';
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directory at all
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      braces++;
+      pattern += '(?:';
+    } else if (char === '}' && braces > 0) {
+      braces--;
+      pattern += ')';
+    } else if (char === ',' && braces > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$|()[\]{}\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
+
+export interface WatchScope {
+  recursive?: boolean;
+  glob?: string;
+}
+
+// Whether a change to `path` concerns a watch on `root`. Globs without a `/`
+// match the file name, others the path relative to the root; changes to the
+// root itself always count.
+export const isWatchedPath = (path: string, root: string, scope: WatchScope = {}): boolean => {
+  const inScope = scope.recursive
+    ? isWithinPath(path, root)
+    : path === root || parentPath(path) === root;
+  if (!inScope || !scope.glob || path === root) {
+    return inScope;
+  }
+  const relative = path.slice(root === '/' ? 1 : root.length + 1);
+  const subject = scope.glob.includes('/')
+    ? relative
+    : relative.slice(relative.lastIndexOf('/') + 1);
+  return globToRegExp(scope.glob).test(subject);
+};
+
+export const extensionOf = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+};
+
+const TEXT_EXTENSIONS = new Set(
+  `
+    txt md markdown json yml yaml toml xml html css csv log js jsx mjs cjs ts tsx swift py rb go rs
+    c h m cpp java kt sh bash zsh env ini conf lock plist resolved
+  `
+    .trim()
+    .split(/\s+/)
+);
+
+export const imageMimeType = (name: string): string | undefined => IMAGE_TYPES[extensionOf(name)];
+
+export const previewKind = (name: string): PreviewKind => {
+  if (imageMimeType(name)) {
+    return 'image';
+  }
+  const extension = extensionOf(name);
+  // Dotfiles and extensionless files (Makefile, LICENSE) are usually text
+  return extension === '' || TEXT_EXTENSIONS.has(extension) ? 'text' : 'binary';
+};
+
+export const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+export const formatModified = (seconds: number): string =>
+  new Date(seconds * 1000).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+const namedEntry = (directory: string, name: string): SwiftralinoFileEntry => ({
+  name,
+  path: joinPath(directory, name),
+  type: 'other',
+  size: 0,
+  modified: 0,
+  permissions: '',
+  hidden: name.startsWith('.'),
+});
+
+// listDirectory where the backend has it, otherwise the names readDirectory
+// returns. `detailed: false` skips the attempt for backends that described
+// themselves without listDirectory.
+export const fetchDirectoryListing = async (
+  client: Pick<SwiftralinoClient, 'call'>,
+  path: string,
+  options: SwiftralinoRequestOptions & { detailed?: boolean } = {}
+): Promise<SwiftralinoDirectoryListing> => {
+  const { detailed = true, ...requestOptions } = options;
+  if (detailed) {
+    try {
+      const response = await client.call('filesystem', 'listDirectory', { path }, requestOptions);
+      return { path, entries: response.data?.entries ?? [], detailed: true };
+    } catch (error) {
+      // The Swift backend does not list with metadata yet
+      if (!(error instanceof UnknownActionError)) {
+        throw error;
+      }
+    }
+  }
+  const response = await client.call('filesystem', 'readDirectory', { path }, requestOptions);
+  return {
+    path,
+    entries: (response.data?.files ?? []).map((name) => namedEntry(path, name)),
+    detailed: false,
+  };
+};
+
+// Directories always come first, whatever the sort key
+export const sortEntries = (
+  entries: SwiftralinoFileEntry[],
+  key: FileSortKey,
+  direction: 'asc' | 'desc'
+): SwiftralinoFileEntry[] => {
+  const compare = (a: SwiftralinoFileEntry, b: SwiftralinoFileEntry): number => {
+    switch (key) {
+      case 'size':
+        return a.size - b.size;
+      case 'modified':
+        return a.modified - b.modified;
+      case 'type':
+        return extensionOf(a.name).localeCompare(extensionOf(b.name));
+      default:
+        return 0;
+    }
+  };
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => {
+    const directoryOrder = Number(b.type === 'directory') - Number(a.type === 'directory');
+    if (directoryOrder !== 0) {
+      return directoryOrder;
+    }
+    const order = compare(a, b) || a.name.localeCompare(b.name, undefined, { numeric: true });
+    return order * sign;
+  });
+};
+
+// Classic `offset  hex bytes  |ascii|` dump, 16 bytes per line
+export const hexDump = (bytes: Uint8Array): string => {
+  const lines: string[] = [];
+  for (let offset = 0; offset < bytes.length; offset += 16) {
+    const row = bytes.subarray(offset, offset + 16);
+    const hex = Array.from(row, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, (byte) =>
+      byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.'
+    ).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,139 @@
+import { defaultTimers } from './swiftralino-runtime';
+import type {
+  ConnectionQualityStats,
+  SwiftralinoHeartbeatConfig,
+  SwiftralinoTimers,
+} from '@/types/swiftralino';
+
+const DEFAULT_INTERVAL = 10000;
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_MAX_MISSED = 2;
+const DEFAULT_DEGRADED_LATENCY = 500;
+const LATENCY_SAMPLES = 10;
+
+interface HeartbeatCallbacks {
+  // Sends one ping and resolves when the pong arrives
+  ping: (timeout: number) => Promise<void>;
+  // Called once the link is declared stale
+  onStale: () => void;
+  onStats: (stats: ConnectionQualityStats) => void;
+}
+
+export const initialConnectionStats: ConnectionQualityStats = {
+  quality: 'unknown',
+  latency: null,
+  averageLatency: null,
+  missedPongs: 0,
+  lastPongAt: null,
+};
+
+// Periodically pings the backend to measure latency and detect half-open sockets
+export class HeartbeatMonitor {
+  private config: Required<SwiftralinoHeartbeatConfig>;
+  private callbacks: HeartbeatCallbacks;
+  private timers: SwiftralinoTimers;
+  private intervalId: unknown = null;
+  private samples: number[] = [];
+  private stats: ConnectionQualityStats = initialConnectionStats;
+  private inFlight = false;
+  // Bumped on stop() so pings from a previous connection are ignored
+  private generation = 0;
+
+  constructor(
+    config: SwiftralinoHeartbeatConfig,
+    callbacks: HeartbeatCallbacks,
+    timers: SwiftralinoTimers = defaultTimers
+  ) {
+    this.config = {
+      interval: config.interval ?? DEFAULT_INTERVAL,
+      timeout: config.timeout ?? DEFAULT_TIMEOUT,
+      maxMissed: config.maxMissed ?? DEFAULT_MAX_MISSED,
+      degradedLatency: config.degradedLatency ?? DEFAULT_DEGRADED_LATENCY,
+    };
+    this.callbacks = callbacks;
+    this.timers = timers;
+  }
+
+  getStats(): ConnectionQualityStats {
+    return this.stats;
+  }
+
+  start(): void {
+    this.stop();
+    this.samples = [];
+    this.updateStats(initialConnectionStats);
+    if (this.config.interval <= 0) {
+      return;
+    }
+    this.intervalId = this.timers.setInterval(() => this.beat(), this.config.interval);
+    this.beat();
+  }
+
+  stop(): void {
+    if (this.intervalId !== null) {
+      this.timers.clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.inFlight = false;
+    this.generation++;
+  }
+
+  private async beat(): Promise<void> {
+    // A slow pong already counts as missed through its timeout
+    if (this.inFlight) {
+      return;
+    }
+    this.inFlight = true;
+    const { generation } = this;
+    const startedAt = Date.now();
+
+    try {
+      await this.callbacks.ping(this.config.timeout);
+      if (generation !== this.generation) {
+        return;
+      }
+      const latency = Date.now() - startedAt;
+      this.samples = [...this.samples, latency].slice(-LATENCY_SAMPLES);
+      this.updateStats({
+        ...this.stats,
+        latency,
+        averageLatency: Math.round(
+          this.samples.reduce((sum, sample) => sum + sample, 0) / this.samples.length
+        ),
+        missedPongs: 0,
+        lastPongAt: Date.now(),
+      });
+    } catch {
+      if (generation !== this.generation) {
+        return;
+      }
+      this.updateStats({ ...this.stats, missedPongs: this.stats.missedPongs + 1 });
+      if (this.stats.quality === 'stale') {
+        this.stop();
+        this.callbacks.onStale();
+      }
+    } finally {
+      if (generation === this.generation) {
+        this.inFlight = false;
+      }
+    }
+  }
+
+  private updateStats(stats: ConnectionQualityStats): void {
+    this.stats = { ...stats, quality: this.rate(stats) };
+    this.callbacks.onStats(this.stats);
+  }
+
+  private rate(stats: ConnectionQualityStats): ConnectionQualityStats['quality'] {
+    if (stats.missedPongs >= this.config.maxMissed) {
+      return 'stale';
+    }
+    if (stats.missedPongs > 0) {
+      return 'degraded';
+    }
+    if (stats.averageLatency === null) {
+      return 'unknown';
+    }
+    return stats.averageLatency > this.config.degradedLatency ? 'degraded' : 'good';
+  }
+}
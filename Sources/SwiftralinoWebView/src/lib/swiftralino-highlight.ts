@@ -0,0 +1,119 @@
+import { extensionOf } from './swiftralino-files';
+
+// Small regex tokenizer for the file preview. It only knows comments,
+// strings, numbers and keywords, which is enough to make code readable.
+
+export type TokenKind = 'plain' | 'comment' | 'string' | 'number' | 'keyword';
+
+export interface Token {
+  kind: TokenKind;
+  text: string;
+}
+
+interface LanguageSpec {
+  comments: string[];
+  keywords: string[];
+}
+
+const words = (list: string) => list.trim().split(/\s+/);
+
+const C_COMMENTS = ['//[^\\n]*', '/\\*[\\s\\S]*?\\*/'];
+const HASH_COMMENTS = ['#[^\\n]*'];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  typescript: {
+    comments: C_COMMENTS,
+    keywords: words(`
+      async await break case catch class const continue default else enum export extends false
+      finally for from function if implements import in instanceof interface let new null of private
+      readonly return static switch this throw true try type typeof undefined var void while yield
+    `),
+  },
+  swift: {
+    comments: C_COMMENTS,
+    keywords: words(`
+      actor as async await break case catch class continue default defer do else enum extension
+      false for func guard if import in init let nil private protocol public return self static
+      struct switch throw throws true try var where while
+    `),
+  },
+  python: {
+    comments: HASH_COMMENTS,
+    keywords: words(`
+      and as async await class def elif else except False finally for from if import in is lambda
+      None not or pass raise return True try while with yield
+    `),
+  },
+  shell: {
+    comments: HASH_COMMENTS,
+    keywords: words(`
+      case do done elif else esac export fi for function if in local return then while
+    `),
+  },
+  json: { comments: [], keywords: words('true false null') },
+  css: { comments: ['/\\*[\\s\\S]*?\\*/'], keywords: words('important') },
+};
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'typescript',
+  jsx: 'typescript',
+  mjs: 'typescript',
+  cjs: 'typescript',
+  swift: 'swift',
+  py: 'python',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  json: 'json',
+  css: 'css',
+};
+
+const STRING_PATTERN = '"(?:\\\\.|[^"\\\\\\n])*"|\'(?:\\\\.|[^\'\\\\\\n])*\'|`(?:\\\\.|[^`\\\\])*`';
+const NUMBER_PATTERN = '\\b\\d+(?:\\.\\d+)?\\b';
+const WORD_PATTERN = '[A-Za-z_$][\\w$]*';
+
+// Shell dotfiles like .zshrc have no extension but are named after their shell
+export const languageFor = (name: string): string | undefined =>
+  EXTENSION_LANGUAGES[extensionOf(name)] ?? (/^\.(bash|zsh)/.test(name) ? 'shell' : undefined);
+
+export const tokenize = (code: string, language: string | undefined): Token[] => {
+  const spec = language ? LANGUAGES[language] : undefined;
+  if (!spec) {
+    return [{ kind: 'plain', text: code }];
+  }
+
+  const comment = spec.comments.length > 0 ? spec.comments.join('|') : '(?!)';
+  const pattern = new RegExp(
+    `(${comment})|(${STRING_PATTERN})|(${NUMBER_PATTERN})|(${WORD_PATTERN})`,
+    'g'
+  );
+  const keywords = new Set(spec.keywords);
+  const tokens: Token[] = [];
+  let last = 0;
+
+  const pushPlain = (text: string) => {
+    if (text) {
+      tokens.push({ kind: 'plain', text });
+    }
+  };
+
+  for (const match of code.matchAll(pattern)) {
+    const [text, commentText, stringText, numberText] = match;
+    pushPlain(code.slice(last, match.index));
+    last = (match.index ?? 0) + text.length;
+
+    if (commentText !== undefined) {
+      tokens.push({ kind: 'comment', text });
+    } else if (stringText !== undefined) {
+      tokens.push({ kind: 'string', text });
+    } else if (numberText !== undefined) {
+      tokens.push({ kind: 'number', text });
+    } else {
+      tokens.push({ kind: keywords.has(text) ? 'keyword' : 'plain', text });
+    }
+  }
+  pushPlain(code.slice(last));
+  return tokens;
+};
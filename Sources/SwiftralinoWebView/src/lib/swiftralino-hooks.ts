@@ -0,0 +1,406 @@
+import {
+  type QueryKey,
+  type UseMutationOptions,
+  type UseQueryOptions,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { CLUSTER_TOPICS, type ClusterEvent, applyClusterEvent } from './swiftralino-cluster';
+import {
+  type SwiftralinoConnection,
+  useSwiftralino,
+  useSwiftralinoConnections,
+} from './swiftralino-context';
+import { TransportError } from './swiftralino-errors';
+import { supportsOperation } from './swiftralino-features';
+import { fetchDirectoryListing, isWithinPath } from './swiftralino-files';
+import type { APIAction, APIOperation, APIParams, APIResult } from './swiftralino-protocol';
+import type {
+  FileChangeEvent,
+  FileWatchOptions,
+  SwiftralinoDirectoryListing,
+  SwiftralinoFileEncoding,
+  SwiftralinoFileWatch,
+} from '@/types/swiftralino';
+
+// Query keys mirror the protocol: ['swiftralino', action, operation, params,
+// connection]. The connection comes last so invalidating an action or
+// operation covers every backend.
+export const swiftralinoKeys = {
+  all: ['swiftralino'] as const,
+  action: (action: APIAction) => [...swiftralinoKeys.all, action] as const,
+  operation: <A extends APIAction>(action: A, operation: APIOperation<A>) =>
+    [...swiftralinoKeys.action(action), operation] as const,
+  call: <A extends APIAction, O extends APIOperation<A>>(
+    action: A,
+    operation: O,
+    params: APIParams<A, O> | undefined,
+    connection: string
+  ) => [...swiftralinoKeys.operation(action, operation), params ?? {}, connection] as const,
+};
+
+type QueryOverrides<T> = Omit<UseQueryOptions<T, Error>, 'queryKey' | 'queryFn' | 'enabled'> & {
+  enabled?: boolean;
+};
+
+type MutationOverrides<T, V> = Omit<UseMutationOptions<T, Error, V>, 'mutationFn'> & {
+  // Query keys to invalidate once the mutation succeeds
+  invalidates?: QueryKey[];
+};
+
+// Whether the connected backend serves the action (and operation). True until
+// the backend described itself, so panels do not flicker on connect.
+export const useSupports = (action: APIAction, operation?: string): boolean => {
+  const { backend } = useSwiftralino();
+  return supportsOperation(backend, action, operation);
+};
+
+// Runs any protocol operation as a query; disabled while disconnected or
+// when the backend does not serve it
+export const useSwiftralinoQuery = <A extends APIAction, O extends APIOperation<A>>(
+  action: A,
+  operation: O,
+  params?: APIParams<A, O>,
+  options: QueryOverrides<APIResult<A, O>> = {}
+) => {
+  const { client, isConnected, name } = useSwiftralino();
+  const supported = useSupports(action, operation);
+  const { enabled = true, ...queryOptions } = options;
+
+  return useQuery({
+    ...queryOptions,
+    queryKey: swiftralinoKeys.call(action, operation, params, name),
+    queryFn: async ({ signal }) => {
+      if (!client) {
+        throw new TransportError('Not connected to backend', { action, operation });
+      }
+      // The signal lets React Query cancel requests nobody waits for anymore
+      const response = await client.call(action, operation, params, { signal });
+      return response.data as APIResult<A, O>;
+    },
+    enabled: enabled && client !== null && isConnected && supported,
+  });
+};
+
+export const useSwiftralinoMutation = <A extends APIAction, O extends APIOperation<A>>(
+  action: A,
+  operation: O,
+  options: MutationOverrides<APIResult<A, O>, APIParams<A, O>> = {}
+) => {
+  const { client } = useSwiftralino();
+  const queryClient = useQueryClient();
+  const { invalidates = [], onSuccess, ...mutationOptions } = options;
+
+  return useMutation({
+    ...mutationOptions,
+    mutationFn: async (params: APIParams<A, O>) => {
+      if (!client) {
+        throw new TransportError('Not connected to backend', { action, operation });
+      }
+      const response = await client.call(action, operation, params);
+      return response.data as APIResult<A, O>;
+    },
+    onSuccess: async (...args) => {
+      await Promise.all(invalidates.map((queryKey) => queryClient.invalidateQueries({ queryKey })));
+      await onSuccess?.(...args);
+    },
+  });
+};
+
+export const useSystemInfo = (options?: QueryOverrides<APIResult<'system', 'info'>>) =>
+  useSwiftralinoQuery('system', 'info', {}, options);
+
+// Pass null to keep the query idle until a path is chosen
+export const useDirectory = (
+  path: string | null,
+  options: QueryOverrides<APIResult<'filesystem', 'readDirectory'>> = {}
+) =>
+  useSwiftralinoQuery(
+    'filesystem',
+    'readDirectory',
+    { path: path ?? '' },
+    { ...options, enabled: path !== null && (options.enabled ?? true) }
+  );
+
+// Lists with metadata, or only with names on backends without listDirectory
+export const useDirectoryEntries = (
+  path: string | null,
+  options: QueryOverrides<SwiftralinoDirectoryListing> = {}
+) => {
+  const { client, isConnected, name } = useSwiftralino();
+  const detailed = useSupports('filesystem', 'listDirectory');
+  const { enabled = true, ...queryOptions } = options;
+
+  return useQuery({
+    ...queryOptions,
+    queryKey: directoryEntriesKey(path ?? '', name),
+    queryFn: async ({ signal }) => {
+      if (!client) {
+        throw new TransportError('Not connected to backend', {
+          action: 'filesystem',
+          operation: 'listDirectory',
+        });
+      }
+      return fetchDirectoryListing(client, path ?? '', { signal, detailed });
+    },
+    enabled: path !== null && enabled && client !== null && isConnected,
+  });
+};
+
+// Shared with prefetches so they land in the same cache entry
+export const directoryEntriesKey = (path: string, connection: string) =>
+  swiftralinoKeys.call('filesystem', 'listDirectory', { path }, connection);
+
+export const useFileContent = (
+  path: string | null,
+  encoding: SwiftralinoFileEncoding = 'utf8',
+  options: QueryOverrides<APIResult<'filesystem', 'readFile'>> = {}
+) =>
+  useSwiftralinoQuery(
+    'filesystem',
+    'readFile',
+    { path: path ?? '', encoding },
+    { ...options, enabled: path !== null && (options.enabled ?? true) }
+  );
+
+// Keeps a backend watch on `path` while mounted. The `fs:changed` events it
+// produces invalidate queries through useSwiftralinoQuerySync like any other.
+export const useFileWatch = (
+  path: string | null,
+  options: FileWatchOptions & { onChange?: (events: FileChangeEvent[]) => void } = {}
+) => {
+  const { client, isConnected } = useSwiftralino();
+  const [watching, setWatching] = useState(false);
+  const supported = useSupports('filesystem', 'watch');
+  const { recursive, glob, debounce } = options;
+  const onChangeRef = useRef(options.onChange);
+  onChangeRef.current = options.onChange;
+
+  useEffect(() => {
+    if (!client || !isConnected || !supported || path === null) {
+      return;
+    }
+    let watch: SwiftralinoFileWatch | null = null;
+    let cancelled = false;
+
+    client.fs.watch(path, { recursive, glob, debounce }).then(
+      (created) => {
+        if (cancelled) {
+          created.unsubscribe().catch(() => {});
+          return;
+        }
+        watch = created;
+        created.onChange((events) => onChangeRef.current?.(events));
+        setWatching(true);
+      },
+      // Backends without watch support leave `watching` false; callers can
+      // still refetch by hand, so this is not worth an error toast
+      () => {}
+    );
+
+    return () => {
+      cancelled = true;
+      setWatching(false);
+      watch?.unsubscribe().catch(() => {});
+    };
+  }, [client, isConnected, supported, path, recursive, glob, debounce]);
+
+  return { watching };
+};
+
+// Filesystem mutations refresh every cached listing and file afterwards
+export const useFileOperation = <O extends APIOperation<'filesystem'>>(
+  operation: O,
+  options: MutationOverrides<APIResult<'filesystem', O>, APIParams<'filesystem', O>> = {}
+) =>
+  useSwiftralinoMutation('filesystem', operation, {
+    ...options,
+    invalidates: [swiftralinoKeys.action('filesystem'), ...(options.invalidates ?? [])],
+  });
+
+export const useExecute = (
+  options?: MutationOverrides<APIResult<'process', 'execute'>, APIParams<'process', 'execute'>>
+) => useSwiftralinoMutation('process', 'execute', options);
+
+export const useDistributedStatus = (
+  options?: QueryOverrides<APIResult<'distributed', 'status'>>
+) => useSwiftralinoQuery('distributed', 'status', {}, options);
+
+export const useConnectedPlatforms = (
+  options?: QueryOverrides<APIResult<'distributed', 'platforms'>>
+) => useSwiftralinoQuery('distributed', 'platforms', {}, options);
+
+// Tells the backend to push these topics while mounted. The events
+// themselves reach the cache through useSwiftralinoQuerySync, and the
+// client subscribes again after reconnects by itself. `topics` must not
+// change between renders.
+const useTopicSubscriptions = (topics: readonly string[], enabled: boolean) => {
+  const { client } = useSwiftralino();
+
+  useEffect(() => {
+    if (!client || !enabled) {
+      return;
+    }
+    const subscriptions = topics.map((topic) => client.subscribe(topic).catch(() => null));
+    return () => {
+      subscriptions.forEach((subscription) =>
+        subscription.then((created) => created?.unsubscribe().catch(() => {}))
+      );
+    };
+  }, [client, enabled, topics]);
+};
+
+// Backends that do not push membership events still get picked up, just later
+const CLUSTER_REFETCH_INTERVAL = 30000;
+
+// Members of the running cluster, kept current by membership events while mounted
+export const useClusterTopology = (
+  options: QueryOverrides<APIResult<'distributed', 'platforms'>> = {}
+) => {
+  const { data: status } = useDistributedStatus({ meta: options.meta });
+  const initialized = status?.initialized ?? false;
+  const platformsQuery = useConnectedPlatforms({
+    refetchInterval: CLUSTER_REFETCH_INTERVAL,
+    ...options,
+    enabled: initialized && (options.enabled ?? true),
+  });
+  useTopicSubscriptions(CLUSTER_TOPICS, initialized);
+
+  return {
+    initialized,
+    platforms: platformsQuery.data?.platforms ?? [],
+    isLoading: platformsQuery.isLoading,
+    error: platformsQuery.error,
+  };
+};
+
+const KV_TOPICS = ['kv:changed'] as const;
+
+// Keys of the cluster's store under `prefix`, refetched as `kv:changed` events arrive
+export const useKVKeys = (
+  prefix = '',
+  options: QueryOverrides<APIResult<'distributed', 'keys'>> = {}
+) => {
+  useTopicSubscriptions(KV_TOPICS, options.enabled ?? true);
+  return useSwiftralinoQuery('distributed', 'keys', { prefix }, options);
+};
+
+// Pass null to keep the query idle until a key is chosen
+export const useKVEntry = (
+  key: string | null,
+  options: QueryOverrides<APIResult<'distributed', 'get'>> = {}
+) =>
+  useSwiftralinoQuery(
+    'distributed',
+    'get',
+    { key: key ?? '' },
+    { ...options, enabled: key !== null && (options.enabled ?? true) }
+  );
+
+const trimTrailingSlash = (path: string) => (path.length > 1 ? path.replace(/\/+$/, '') : path);
+
+// A change to `changedPath` affects queries on that path, below it and on
+// its parent listing
+const isAffectedByChange = (queryKey: QueryKey, changedPath: string): boolean => {
+  const params = queryKey[3] as { path?: unknown } | undefined;
+  if (typeof params?.path !== 'string') {
+    return false;
+  }
+  const queryPath = trimTrailingSlash(params.path);
+  const path = trimTrailingSlash(changedPath);
+  const parent = path.slice(0, path.lastIndexOf('/')) || '/';
+  return queryPath === parent || isWithinPath(queryPath, path);
+};
+
+type ConnectionClient = Pick<SwiftralinoConnection, 'name' | 'client'>;
+
+// `connections` is replaced on every status, quality and description update;
+// this keeps the same array until a client is added, removed or replaced
+const useConnectionClients = (): ConnectionClient[] => {
+  const { connections } = useSwiftralinoConnections();
+  const clients = useRef<ConnectionClient[]>([]);
+  const unchanged =
+    clients.current.length === connections.length &&
+    connections.every(
+      ({ name, client }, index) =>
+        clients.current[index].name === name && clients.current[index].client === client
+    );
+  if (!unchanged) {
+    clients.current = connections.map(({ name, client }) => ({ name, client }));
+  }
+  return clients.current;
+};
+
+// Keeps cached queries fresh for every connection: refetch a backend's
+// queries after it reconnects and invalidate the ones its events report as changed
+export const useSwiftralinoQuerySync = () => {
+  const clients = useConnectionClients();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const cleanups = clients.map(({ name, client }) => {
+      if (!client) {
+        return () => {};
+      }
+      const isOwnQuery = (queryKey: QueryKey) => queryKey[4] === name;
+
+      const handleConnected = () => {
+        queryClient.invalidateQueries({
+          queryKey: swiftralinoKeys.all,
+          predicate: (query) => isOwnQuery(query.queryKey),
+        });
+      };
+      client.addEventListener('connected', handleConnected);
+
+      // Renames also invalidate whatever was cached under the old path
+      const removeFsListener = client.on('fs:changed', ({ path, oldPath }) => {
+        const changed = oldPath ? [path, oldPath] : [path];
+        queryClient.invalidateQueries({
+          queryKey: swiftralinoKeys.action('filesystem'),
+          predicate: (query) =>
+            isOwnQuery(query.queryKey) &&
+            changed.some((entry) => isAffectedByChange(query.queryKey, entry)),
+        });
+      });
+
+      // Membership events update cached platform lists in place
+      const removeClusterListeners = CLUSTER_TOPICS.map((topic) =>
+        client.on(topic, (payload) => {
+          queryClient.setQueriesData<APIResult<'distributed', 'platforms'>>(
+            {
+              queryKey: swiftralinoKeys.operation('distributed', 'platforms'),
+              predicate: (query) => isOwnQuery(query.queryKey),
+            },
+            (data) =>
+              data && {
+                ...data,
+                platforms: applyClusterEvent(data.platforms, { topic, payload } as ClusterEvent),
+              }
+          );
+        })
+      );
+
+      // Store changes refresh the listings and the changed key only
+      const removeKVListener = client.on('kv:changed', ({ key }) => {
+        queryClient.invalidateQueries({
+          queryKey: swiftralinoKeys.action('distributed'),
+          predicate: ({ queryKey }) =>
+            isOwnQuery(queryKey) &&
+            (queryKey[2] === 'keys' ||
+              (queryKey[2] === 'get' && (queryKey[3] as { key?: unknown }).key === key)),
+        });
+      });
+
+      return () => {
+        client.removeEventListener('connected', handleConnected);
+        removeKVListener();
+        removeFsListener();
+        removeClusterListeners.forEach((removeListener) => removeListener());
+      };
+    });
+
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [clients, queryClient]);
+};
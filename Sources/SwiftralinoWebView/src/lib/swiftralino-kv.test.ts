@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocketSwiftralinoClient } from './swiftralino-client';
+import { MockSwiftralinoBackend, MockTransport } from './swiftralino-mock-backend';
+import type { KVChange } from '@/types/swiftralino';
+
+describe('key-value store', () => {
+  let client: WebSocketSwiftralinoClient;
+
+  beforeEach(async () => {
+    const backend = new MockSwiftralinoBackend({ latency: 0 });
+    client = new WebSocketSwiftralinoClient({
+      wsUrl: '',
+      reconnectAttempts: 0,
+      reconnectDelay: 10,
+      heartbeat: { interval: 0 },
+      transport: () => new MockTransport(backend),
+    });
+    await client.connect();
+    await client.initializeDistributed();
+  });
+
+  afterEach(() => client.disconnect());
+
+  it('stores JSON values with a version per write', async () => {
+    const first = await client.kv.set('config/theme', { dark: true });
+    const second = await client.kv.set('config/theme', { dark: false });
+    expect([first.version, second.version]).toEqual([1, 2]);
+    expect(await client.kv.get('config/theme')).toMatchObject({
+      value: { dark: false },
+      version: 2,
+    });
+    expect(await client.kv.get('missing')).toBeNull();
+  });
+
+  it('writes with compare-and-set only at the expected version', async () => {
+    await expect(client.kv.compareAndSet('lock', 0, 'a')).resolves.toMatchObject({
+      written: true,
+      entry: { version: 1 },
+    });
+    await expect(client.kv.compareAndSet('lock', 0, 'b')).resolves.toMatchObject({
+      written: false,
+      entry: { value: 'a', version: 1 },
+    });
+    await expect(client.kv.compareAndSet('lock', 1, 'b')).resolves.toMatchObject({
+      written: true,
+      entry: { value: 'b', version: 2 },
+    });
+  });
+
+  it('deletes only at the expected version', async () => {
+    await client.kv.set('a', 1);
+    expect(await client.kv.delete('a', { expectedVersion: 2 })).toBe(false);
+    expect(await client.kv.delete('a', { expectedVersion: 1 })).toBe(true);
+    expect(await client.kv.delete('a')).toBe(false);
+  });
+
+  it('lists keys by prefix', async () => {
+    await client.kv.set('config/b', 1);
+    await client.kv.set('config/a', 2);
+    await client.kv.set('other', 3);
+    const keys = await client.kv.listKeys('config/');
+    expect(keys.map(({ key }) => key)).toEqual(['config/a', 'config/b']);
+  });
+
+  it('watches one key', async () => {
+    const changes: KVChange[] = [];
+    const subscription = await client.kv.watchKey('watched', (change) => changes.push(change));
+    await client.kv.set('ignored', 1);
+    await client.kv.set('watched', 2);
+    await client.kv.delete('watched');
+    await expect.poll(() => changes.length).toBe(2);
+    expect(changes.map(({ reason }) => reason)).toEqual(['set', 'deleted']);
+    await subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,61 @@
+import type { DistributedKVAPI, KVChange, KVEntry, SwiftralinoClient } from '@/types/swiftralino';
+
+// The cluster's key-value store on top of the `distributed` operations.
+// Values travel as JSON, so their types are only as good as what was stored.
+
+type KVClient = Pick<SwiftralinoClient, 'call' | 'subscribe'>;
+
+export const createKeyValueStore = (client: KVClient): DistributedKVAPI => {
+  const write = async <T>(
+    key: string,
+    value: T,
+    expectedVersion: number | undefined,
+    options: Parameters<DistributedKVAPI['set']>[2] = {}
+  ) => {
+    const { ttl, ...requestOptions } = options;
+    const response = await client.call(
+      'distributed',
+      'set',
+      { key, value, ttl, expectedVersion },
+      requestOptions
+    );
+    return {
+      written: response.data?.written ?? false,
+      entry: (response.data?.entry ?? null) as KVEntry<T> | null,
+    };
+  };
+
+  return {
+    get: async <T>(key: string, options?: Parameters<DistributedKVAPI['get']>[1]) => {
+      const response = await client.call('distributed', 'get', { key }, options);
+      return (response.data?.entry ?? null) as KVEntry<T> | null;
+    },
+    set: async <T>(key: string, value: T, options?: Parameters<DistributedKVAPI['set']>[2]) => {
+      const { entry } = await write(key, value, undefined, options);
+      return entry as KVEntry<T>;
+    },
+    compareAndSet: (key, expectedVersion, value, options) =>
+      write(key, value, expectedVersion, options),
+    delete: async (key, options = {}) => {
+      const { expectedVersion, ...requestOptions } = options;
+      const response = await client.call(
+        'distributed',
+        'delete',
+        { key, expectedVersion },
+        requestOptions
+      );
+      return response.data?.deleted ?? false;
+    },
+    listKeys: async (prefix, options) => {
+      const response = await client.call('distributed', 'keys', { prefix }, options);
+      return response.data?.keys ?? [];
+    },
+    // Every watch shares the one `kv:changed` subscription and picks its key
+    watchKey: <T>(key: string, listener: (change: KVChange<T>) => void) =>
+      client.subscribe('kv:changed', (change) => {
+        if (change.key === key) {
+          listener(change as KVChange<T>);
+        }
+      }),
+  };
+};
@@ -0,0 +1,1030 @@
+import {
+  type BackendSession,
+  BackendAPIError,
+  checkMessageAuth,
+  errorResponse,
+  invalidMessageResponse,
+  isMessage,
+  permissionString,
+  response,
+  validateParams,
+} from './swiftralino-backend';
+import { sha256Hex } from './swiftralino-checksum';
+import { decodeBase64, decodeUtf8, encodeBase64, encodeUtf8 } from './swiftralino-encoding';
+import { TransportError } from './swiftralino-errors';
+import { type WatchScope, isWatchedPath } from './swiftralino-files';
+import {
+  PERMISSION_DESCRIPTIONS,
+  describePermissionRequest,
+  findPermissionViolation,
+} from './swiftralino-permissions';
+import {
+  type APIAction,
+  type APIOperation,
+  type APIParams,
+  type APIResult,
+  type SystemParams,
+  PROTOCOL_VERSION,
+} from './swiftralino-protocol';
+import { randomId } from './swiftralino-runtime';
+import type {
+  BackendPlugin,
+  CapabilityManifest,
+  ClusterPlatform,
+  KVEntry,
+  PluginPermission,
+  SwiftralinoFileEncoding,
+  SwiftralinoFileEntry,
+  SwiftralinoIncomingMessage,
+  SwiftralinoMessage,
+  SwiftralinoProcessExit,
+  SwiftralinoResponse,
+  SwiftralinoServerEvents,
+  SwiftralinoTransport,
+  SwiftralinoTransportHandlers,
+} from '@/types/swiftralino';
+
+// In-memory stand-in for the Swift backend. It speaks the same frames as
+// MessageHandler.swift, so the UI can be developed and tested offline.
+
+export interface MockBackendOptions {
+  // Delay before every response in ms (default: 20)
+  latency?: number;
+  // Initial file contents keyed by absolute path; parent directories are created
+  files?: Record<string, string | Uint8Array>;
+  hostName?: string;
+  // Capabilities granted to the app (default: every permission, no allow-lists)
+  permissions?: CapabilityManifest;
+  // Require the bridge handshake with this token (default: no auth)
+  authToken?: string;
+  // Actions, or `action/operation`s, left out as if their plugin were not loaded
+  unsupported?: string[];
+}
+
+export interface MockConnection {
+  emit(message: SwiftralinoIncomingMessage): void;
+  onClose(): void;
+  // Responses still waiting out the latency, keyed by request id
+  pending: Map<string, ReturnType<typeof setTimeout>>;
+  watches: Map<string, { path: string } & WatchScope>;
+  session?: BackendSession;
+}
+
+interface MockNode {
+  type: 'file' | 'directory';
+  data: Uint8Array;
+  // Seconds since 1970
+  modified: number;
+  mode: number;
+}
+
+interface MockProcess {
+  connection: MockConnection;
+  // Echoes stdin back until killed, like `cat` without arguments
+  interactive: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface MockKey {
+  entry: KVEntry;
+  // Pending expiry, for keys set with a TTL
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+type CommandResult = APIResult<'process', 'execute'>;
+
+type MockOperations = {
+  [A in APIAction]?: {
+    [O in APIOperation<A>]?: (
+      params: APIParams<A, O>,
+      connection: MockConnection
+    ) => APIResult<A, O>;
+  };
+};
+
+type MockHandler = (params: Record<string, unknown>, connection: MockConnection) => unknown;
+
+const DEFAULT_LATENCY = 20;
+const HOME = '/Users/demo';
+
+const DEFAULT_FILES: Record<string, string | Uint8Array> = {
+  [`${HOME}/README.md`]: '# Demo\n\nServed by the Swiftralino mock backend.\n',
+  [`${HOME}/notes.txt`]: 'Start the Swift server to work with real files.\n',
+  [`${HOME}/.zshrc`]: 'export PATH="$HOME/bin:$PATH"\n',
+  [`${HOME}/Pictures/pixel.png`]: decodeBase64(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+  ),
+  [`${HOME}/Projects/swiftralino/Package.swift`]:
+    '// swift-tools-version:5.9\nimport PackageDescription\n\nlet package = Package(name: "Swiftralino")\n',
+  [`${HOME}/Projects/swiftralino/package.json`]: '{\n  "name": "swiftralino-webview"\n}\n',
+  '/tmp/.keep': '',
+};
+
+// The plugins SwiftralPlugin.swift ships
+const PLUGINS: BackendPlugin[] = [
+  {
+    identifier: 'notification',
+    name: 'Notification Plugin',
+    version: '1.0.0',
+    description: 'Display system notifications',
+    requiredPermissions: ['notifications'],
+    apis: ['notification'],
+  },
+  {
+    identifier: 'clipboard',
+    name: 'Clipboard Plugin',
+    version: '1.0.0',
+    description: 'Clipboard read/write operations',
+    requiredPermissions: ['clipboard'],
+    apis: ['clipboard'],
+  },
+  {
+    identifier: 'dialog',
+    name: 'Dialog Plugin',
+    version: '1.0.0',
+    description: 'Native system dialogs',
+    requiredPermissions: [],
+    apis: ['dialog'],
+  },
+  {
+    identifier: 'shell',
+    name: 'Shell Plugin',
+    version: '1.0.0',
+    description: 'Execute shell commands',
+    requiredPermissions: ['process'],
+    apis: ['shell'],
+  },
+  {
+    identifier: 'updater',
+    name: 'Updater Plugin',
+    version: '1.0.0',
+    description: 'Application auto-updater',
+    requiredPermissions: ['network', 'filesystem'],
+    apis: ['updater'],
+  },
+];
+
+const normalizePath = (path: string, cwd = '/'): string => {
+  const expanded = path.startsWith('~') ? `${HOME}${path.slice(1)}` : path;
+  const absolute = expanded.startsWith('/') ? expanded : `${cwd}/${expanded}`;
+  const segments: string[] = [];
+  absolute.split('/').forEach((segment) => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment && segment !== '.') {
+      segments.push(segment);
+    }
+  });
+  return `/${segments.join('/')}`;
+};
+
+const parentOf = (path: string) => path.slice(0, path.lastIndexOf('/')) || '/';
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const ALL_PERMISSIONS = Object.keys(PERMISSION_DESCRIPTIONS) as PluginPermission[];
+
+const now = () => Date.now() / 1000;
+
+const decodeContent = (content: string, encoding?: SwiftralinoFileEncoding): Uint8Array =>
+  encoding === 'base64' ? decodeBase64(content) : encodeUtf8(content);
+
+const succeeded = (output: string): CommandResult => ({ exitCode: 0, output, error: '' });
+const failed = (exitCode: number, error: string): CommandResult => ({
+  exitCode,
+  output: '',
+  error,
+});
+
+export class MockSwiftralinoBackend {
+  private latency: number;
+  private hostName: string;
+  private manifest: CapabilityManifest;
+  private authToken: string | undefined;
+  private unsupported: Set<string>;
+  private startedAt = Date.now();
+  private nodes = new Map<string, MockNode>([
+    ['/', { type: 'directory', data: new Uint8Array(), modified: now(), mode: 0o755 }],
+  ]);
+  private connections = new Set<MockConnection>();
+  private processes = new Map<string, MockProcess>();
+  private cluster = {
+    initialized: false,
+    platforms: [] as ClusterPlatform[],
+    keys: new Map<string, MockKey>(),
+    revision: 0,
+  };
+
+  private readonly operations: MockOperations = {
+    filesystem: {
+      readDirectory: ({ path }) => ({ files: this.listDirectory(normalizePath(path)) }),
+      listDirectory: ({ path }) => {
+        const directory = normalizePath(path);
+        return { path: directory, entries: this.listEntries(directory) };
+      },
+      readFile: ({ path, encoding = 'utf8' }) => ({
+        content: this.readFile(normalizePath(path), encoding),
+        encoding,
+      }),
+      writeFile: ({ path, content, encoding, createDirectories = false }) => {
+        const target = normalizePath(path);
+        this.requireParent(target, createDirectories);
+        return this.storeFile(target, decodeContent(content, encoding), false);
+      },
+      appendFile: ({ path, content, encoding }) => {
+        const target = normalizePath(path);
+        this.requireParent(target, false);
+        return this.storeFile(target, decodeContent(content, encoding), true);
+      },
+      mkdir: ({ path, recursive = false }) => {
+        const target = normalizePath(path);
+        if (this.nodes.has(target)) {
+          throw new BackendAPIError(`File exists: ${target}`);
+        }
+        this.requireParent(target, recursive);
+        this.makeDirectory(target);
+        this.notifyChange(target, 'created');
+        return this.entryFor(target);
+      },
+      rename: ({ from, to, overwrite = false }) =>
+        this.transfer(normalizePath(from), normalizePath(to), overwrite, false),
+      copy: ({ from, to, overwrite = false }) =>
+        this.transfer(normalizePath(from), normalizePath(to), overwrite, true),
+      remove: ({ path, recursive = false }) => {
+        const target = normalizePath(path);
+        this.requireNode(target);
+        if (target === '/') {
+          throw new BackendAPIError('Cannot remove /');
+        }
+        if (this.isDirectory(target) && this.childrenOf(target).length > 0 && !recursive) {
+          throw new BackendAPIError(`Directory not empty: ${target}`);
+        }
+        this.subtree(target).forEach((entry) => this.nodes.delete(entry));
+        this.notifyChange(target, 'deleted');
+        return { success: true };
+      },
+      stat: ({ path }) => {
+        const target = normalizePath(path);
+        this.requireNode(target);
+        return this.entryFor(target);
+      },
+      exists: ({ path }) => ({ exists: this.nodes.has(normalizePath(path)) }),
+      watch: ({ path, recursive, glob }, connection) => {
+        const root = normalizePath(path);
+        this.requireNode(root);
+        const watchId = randomId();
+        connection.watches.set(watchId, { path: root, recursive, glob });
+        return { watchId };
+      },
+      unwatch: ({ watchId }, connection) => ({ success: connection.watches.delete(watchId) }),
+      readChunk: ({ path, offset, length }) => {
+        const { data } = this.requireFile(normalizePath(path));
+        const end = Math.min(offset + length, data.length);
+        return {
+          content: encodeBase64(data.subarray(offset, end)),
+          size: data.length,
+          eof: end >= data.length,
+        };
+      },
+      writeChunk: ({ path, content, offset }) => {
+        const target = normalizePath(path);
+        this.requireParent(target, false);
+        const existing = this.nodes.has(target) ? this.requireFile(target).data : new Uint8Array();
+        if (offset > existing.length) {
+          throw new BackendAPIError(`Offset ${offset} is past the end of ${target}`);
+        }
+        const chunk = decodeBase64(content);
+        const bytes = new Uint8Array(offset + chunk.length);
+        bytes.set(existing.subarray(0, offset));
+        bytes.set(chunk, offset);
+        return { size: this.storeFile(target, bytes, false).size };
+      },
+      checksum: ({ path }) => {
+        const { data } = this.requireFile(normalizePath(path));
+        return { algorithm: 'sha256', digest: sha256Hex(data), size: data.length };
+      },
+    },
+    process: {
+      execute: ({ command, args = [] }) => this.runCommand(command, args),
+      spawn: ({ processId, command, args = [], cwd }, connection) => {
+        this.spawnProcess(connection, processId, command, args, cwd ?? HOME);
+        return { processId, pid: 10000 + this.processes.size };
+      },
+      write: ({ processId, data }) => {
+        const child = this.requireProcess(processId);
+        if (child.interactive) {
+          this.emitTo(child.connection, 'process:stdout', { processId, data });
+        }
+        return { success: true };
+      },
+      kill: ({ processId, signal = 'SIGTERM' }) => {
+        this.requireProcess(processId);
+        this.finishProcess(processId, { exitCode: null, signal });
+        return { success: true };
+      },
+    },
+    system: {
+      info: () => ({
+        operatingSystem: 'Mock OS 1.0',
+        hostName: this.hostName,
+        processIdentifier: 4242,
+        uptime: (Date.now() - this.startedAt) / 1000,
+      }),
+    },
+    distributed: {
+      initialize: ({ clusterName = 'swiftralino-cluster' }) => {
+        // Like the Swift manager, a second initialize keeps the running cluster
+        if (!this.cluster.initialized) {
+          this.cluster.initialized = true;
+          this.addMember({
+            id: 'mock-local',
+            deviceName: this.hostName,
+            platform: 'MockOS',
+            version: '1.0',
+            capabilities: ['javascript', 'storage', 'webview'],
+            tags: ['local'],
+          });
+        }
+        return { status: 'initialized', clusterName };
+      },
+      // Reachable members were seen just now
+      platforms: () => ({
+        platforms: this.requireCluster().platforms.map((platform) =>
+          platform.status === 'up' ? { ...platform, lastSeen: Date.now() / 1000 } : platform
+        ),
+      }),
+      execute: ({ script }) => ({
+        results: this.requireCluster().platforms.map((platform) => ({
+          platformId: platform.id,
+          success: platform.status === 'up',
+          output:
+            platform.status === 'up'
+              ? `Executed ${script.length} characters on ${platform.deviceName}`
+              : `${platform.deviceName} is unreachable`,
+          timestamp: Date.now() / 1000,
+        })),
+      }),
+      // Unreachable members never answer, so they time out
+      executeOn: ({ script, targets, timeout = 30000 }) => {
+        const { platforms } = this.requireCluster();
+        return {
+          results: targets.map((platformId) => {
+            const platform = platforms.find(({ id }) => id === platformId);
+            const reachable = platform?.status === 'up';
+            return {
+              platformId,
+              success: reachable,
+              output: !platform
+                ? `Unknown platform: ${platformId}`
+                : reachable
+                  ? `Executed ${script.length} characters on ${platform.deviceName}`
+                  : `No answer within ${timeout}ms`,
+              timestamp: Date.now() / 1000,
+              timedOut: platform !== undefined && !reachable,
+            };
+          }),
+        };
+      },
+      // The legacy operations see the same store, with strings as they are
+      share: ({ key, data }) => {
+        this.storeKey(key, data);
+        return { status: 'shared', key };
+      },
+      retrieve: ({ key }) => {
+        const entry = this.requireCluster().keys.get(key)?.entry;
+        if (!entry) {
+          return { key, data: null };
+        }
+        return {
+          key,
+          data: typeof entry.value === 'string' ? entry.value : JSON.stringify(entry.value),
+        };
+      },
+      get: ({ key }) => ({ entry: this.requireCluster().keys.get(key)?.entry ?? null }),
+      set: ({ key, value, ttl, expectedVersion }) => {
+        const current = this.requireCluster().keys.get(key);
+        if (expectedVersion !== undefined && (current?.entry.version ?? 0) !== expectedVersion) {
+          return { written: false, entry: current?.entry ?? null };
+        }
+        return { written: true, entry: this.storeKey(key, value, ttl) };
+      },
+      delete: ({ key, expectedVersion }) => {
+        const current = this.requireCluster().keys.get(key);
+        if (
+          !current ||
+          (expectedVersion !== undefined && current.entry.version !== expectedVersion)
+        ) {
+          return { deleted: false };
+        }
+        this.removeKey(key, 'deleted');
+        return { deleted: true };
+      },
+      keys: ({ prefix = '' }) => ({
+        keys: [...this.requireCluster().keys.values()]
+          .filter(({ entry }) => entry.key.startsWith(prefix))
+          .map(({ entry: { value: _value, ...info } }) => info)
+          .sort((a, b) => a.key.localeCompare(b.key)),
+      }),
+      join: ({ endpoint }) => {
+        if (!this.requireCluster().platforms.some((platform) => platform.id === endpoint)) {
+          this.addMember({
+            id: endpoint,
+            deviceName: endpoint,
+            platform: 'MockOS',
+            version: '1.0',
+            capabilities: ['javascript'],
+            tags: ['remote'],
+          });
+        }
+        return { status: 'joined', endpoint };
+      },
+      status: () =>
+        this.cluster.initialized
+          ? { initialized: true, timestamp: Date.now() / 1000 }
+          : { initialized: false, message: 'Cluster not initialized' },
+    },
+  };
+
+  constructor(options: MockBackendOptions = {}) {
+    this.latency = options.latency ?? DEFAULT_LATENCY;
+    this.hostName = options.hostName ?? 'mock.local';
+    this.manifest = options.permissions ?? { granted: [...ALL_PERMISSIONS] };
+    this.authToken = options.authToken;
+    this.unsupported = new Set(options.unsupported);
+    Object.entries(options.files ?? DEFAULT_FILES).forEach(([path, content]) => {
+      const target = normalizePath(path);
+      this.makeDirectory(parentOf(target));
+      this.storeFile(target, typeof content === 'string' ? encodeUtf8(content) : content, false);
+    });
+  }
+
+  connect(emit: MockConnection['emit'], onClose: MockConnection['onClose']): MockConnection {
+    const connection: MockConnection = { emit, onClose, pending: new Map(), watches: new Map() };
+    this.connections.add(connection);
+    return connection;
+  }
+
+  // Client-side close: drops unsent responses and the connection's processes
+  disconnect(connection: MockConnection): void {
+    connection.pending.forEach((timer) => clearTimeout(timer));
+    connection.pending.clear();
+    this.connections.delete(connection);
+    this.processes.forEach((child, processId) => {
+      if (child.connection === connection) {
+        clearTimeout(child.timer);
+        this.processes.delete(processId);
+      }
+    });
+  }
+
+  // Simulates the server going away, e.g. to exercise reconnects in tests
+  dropConnections(): void {
+    this.connections.forEach((connection) => {
+      this.disconnect(connection);
+      connection.onClose();
+    });
+  }
+
+  // Simulates a member dropping out of the cluster or coming back
+  setMemberReachable(platformId: string, reachable: boolean): void {
+    const member = this.requireCluster().platforms.find((platform) => platform.id === platformId);
+    if (!member || (member.status === 'up') === reachable) {
+      return;
+    }
+    if (reachable) {
+      this.addMember(member);
+      return;
+    }
+    member.status = 'unreachable';
+    this.emitEvent('cluster:member-unreachable', {
+      platformId,
+      lastSeen: member.lastSeen ?? Date.now() / 1000,
+    });
+  }
+
+  // Simulates a member leaving the cluster
+  removeMember(platformId: string): void {
+    const cluster = this.requireCluster();
+    const remaining = cluster.platforms.filter((platform) => platform.id !== platformId);
+    if (remaining.length !== cluster.platforms.length) {
+      cluster.platforms = remaining;
+      this.emitEvent('cluster:member-left', { platformId });
+    }
+  }
+
+  // Pushes a server event to every connected client
+  emitEvent<K extends keyof SwiftralinoServerEvents>(
+    topic: K,
+    payload: SwiftralinoServerEvents[K]
+  ): void {
+    this.connections.forEach((connection) => this.emitTo(connection, topic, payload));
+  }
+
+  receive(connection: MockConnection, frame: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(frame);
+    } catch {
+      // The Swift server drops frames it cannot decode
+      return;
+    }
+    if (!isMessage(message)) {
+      const invalid = invalidMessageResponse(message);
+      setTimeout(() => {
+        if (this.connections.has(connection)) {
+          connection.emit(invalid);
+        }
+      }, this.latency);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      connection.pending.delete(message.id);
+      if (this.connections.has(connection)) {
+        connection.emit(this.handle(message, connection));
+      }
+    }, this.latency);
+    connection.pending.set(message.id, timer);
+  }
+
+  private handle(message: SwiftralinoMessage, connection: MockConnection): SwiftralinoResponse {
+    const authError = checkMessageAuth(message, this.authToken, connection.session);
+    if (authError) {
+      return errorResponse(message, authError);
+    }
+    switch (message.type) {
+      case 'api':
+        return this.handleAPICall(message, connection);
+      case 'system':
+        return this.handleSystemMessage(message, connection);
+      case 'event':
+        return response(message, 'event_received', { original_action: message.action });
+      default:
+        return errorResponse(message, `Unsupported message type: ${message.type}`);
+    }
+  }
+
+  private handleAPICall(message: SwiftralinoMessage, connection: MockConnection) {
+    const operations = (this.operations as Record<string, Record<string, MockHandler> | undefined>)[
+      message.action
+    ];
+    if (!operations || !this.serves(message.action)) {
+      return errorResponse(message, `Unknown API action: ${message.action}`);
+    }
+
+    const { operation, ...params } = message.data ?? {};
+    try {
+      if (typeof operation !== 'string') {
+        throw new BackendAPIError('Missing required parameter: operation');
+      }
+      const handler = operations[operation];
+      if (!handler || !this.serves(message.action, operation)) {
+        throw new BackendAPIError(`Unsupported operation: ${operation}`);
+      }
+      validateParams(message.action, operation, params);
+      const violation = findPermissionViolation(this.manifest, message.action, operation, params);
+      if (violation) {
+        throw new BackendAPIError(describePermissionRequest(violation));
+      }
+      return response(message, message.action, handler(params, connection));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return errorResponse(message, `API execution failed: ${reason}`);
+    }
+  }
+
+  private handleSystemMessage(message: SwiftralinoMessage, connection: MockConnection) {
+    switch (message.action) {
+      case 'ping':
+        return response(message, 'pong', { timestamp: Date.now() / 1000 });
+      case 'version':
+        return response(message, 'version', { version: '0.1.0', platform: 'mock' });
+      case 'cancel': {
+        const requestId = String(message.data?.requestId);
+        const timer = connection.pending.get(requestId);
+        clearTimeout(timer);
+        connection.pending.delete(requestId);
+        return response(message, 'cancel', { cancelled: timer !== undefined });
+      }
+      case 'authenticate': {
+        const sessionId = randomId();
+        connection.session = { sessionId, lastSeq: 0 };
+        return response(message, 'authenticate', { sessionId });
+      }
+      case 'batch': {
+        const { messages } = (message.data ?? {}) as Partial<SystemParams<'batch'>>;
+        if (!Array.isArray(messages)) {
+          return errorResponse(message, 'Invalid parameters: messages must be an array');
+        }
+        const responses = (messages as unknown[]).map((member) =>
+          isMessage(member) ? this.handle(member, connection) : invalidMessageResponse(member)
+        );
+        return response(message, 'batch', { responses });
+      }
+      case 'describe': {
+        const apis = Object.fromEntries(
+          Object.entries(this.operations)
+            .filter(([action]) => this.serves(action))
+            .map(([action, operations]) => [
+              action,
+              Object.keys(operations).filter((operation) => this.serves(action, operation)),
+            ])
+        );
+        return response(message, 'describe', {
+          protocolVersion: PROTOCOL_VERSION,
+          version: '0.1.0',
+          platform: 'mock',
+          apis,
+          plugins: PLUGINS.filter((plugin) => plugin.apis.every((action) => action in apis)),
+        });
+      }
+      case 'capabilities':
+        return response(message, 'capabilities', this.manifest);
+      // Stands in for the native prompt, which the user always accepts here
+      case 'requestPermission': {
+        const { permission, path, command } = (message.data ??
+          {}) as SystemParams<'requestPermission'>;
+        const { granted, paths, commands } = this.manifest;
+        this.manifest = {
+          granted: granted.includes(permission) ? granted : [...granted, permission],
+          paths: paths && path ? [...paths, path] : paths,
+          commands: commands && command ? [...commands, command] : commands,
+        };
+        return response(message, 'requestPermission', this.manifest);
+      }
+      default:
+        return errorResponse(message, `Unknown system action: ${message.action}`);
+    }
+  }
+
+  private serves(action: string, operation?: string): boolean {
+    return (
+      !this.unsupported.has(action) &&
+      (operation === undefined || !this.unsupported.has(`${action}/${operation}`))
+    );
+  }
+
+  private emitTo<K extends keyof SwiftralinoServerEvents>(
+    connection: MockConnection,
+    topic: K,
+    payload: SwiftralinoServerEvents[K]
+  ): void {
+    if (this.connections.has(connection)) {
+      connection.emit({ id: randomId(), type: 'event', action: topic, data: payload });
+    }
+  }
+
+  // Filesystem
+
+  private storeFile(path: string, data: Uint8Array, append: boolean): SwiftralinoFileEntry {
+    const existing = this.nodes.get(path);
+    if (existing?.type === 'directory') {
+      throw new BackendAPIError(`Is a directory: ${path}`);
+    }
+    let bytes = data;
+    if (append && existing) {
+      bytes = new Uint8Array(existing.data.length + data.length);
+      bytes.set(existing.data);
+      bytes.set(data, existing.data.length);
+    }
+    this.nodes.set(path, {
+      type: 'file',
+      data: bytes,
+      modified: now(),
+      mode: existing?.mode ?? 0o644,
+    });
+    this.notifyChange(path, existing ? 'modified' : 'created');
+    return this.entryFor(path);
+  }
+
+  private makeDirectory(path: string): void {
+    for (let current = path; !this.nodes.has(current); current = parentOf(current)) {
+      this.nodes.set(current, {
+        type: 'directory',
+        data: new Uint8Array(),
+        modified: now(),
+        mode: 0o755,
+      });
+    }
+  }
+
+  private isDirectory(path: string): boolean {
+    return this.nodes.get(path)?.type === 'directory';
+  }
+
+  private requireNode(path: string): MockNode {
+    const node = this.nodes.get(path);
+    if (!node) {
+      throw new BackendAPIError(`No such file or directory: ${path}`);
+    }
+    return node;
+  }
+
+  private requireFile(path: string): MockNode {
+    const node = this.requireNode(path);
+    if (node.type === 'directory') {
+      throw new BackendAPIError(`Is a directory: ${path}`);
+    }
+    return node;
+  }
+
+  private requireParent(path: string, create: boolean): void {
+    const parent = parentOf(path);
+    if (create) {
+      this.makeDirectory(parent);
+    }
+    if (!this.isDirectory(parent)) {
+      throw new BackendAPIError(`No such directory: ${parent}`);
+    }
+  }
+
+  // The path itself and everything below it
+  private subtree(path: string): string[] {
+    return [...this.nodes.keys()].filter((entry) => entry === path || entry.startsWith(`${path}/`));
+  }
+
+  // Moves or copies a file or a whole directory
+  private transfer(
+    source: string,
+    target: string,
+    overwrite: boolean,
+    keepSource: boolean
+  ): SwiftralinoFileEntry {
+    this.requireNode(source);
+    if (target === source || target.startsWith(`${source}/`)) {
+      throw new BackendAPIError(`Cannot move ${source} into itself`);
+    }
+    if (this.nodes.has(target)) {
+      if (!overwrite) {
+        throw new BackendAPIError(`File exists: ${target}`);
+      }
+      this.subtree(target).forEach((entry) => this.nodes.delete(entry));
+    }
+    this.requireParent(target, false);
+
+    this.subtree(source).forEach((entry) => {
+      const node = this.nodes.get(entry) as MockNode;
+      const copied = `${target}${entry.slice(source.length)}`;
+      this.nodes.set(copied, keepSource ? { ...node, modified: now() } : node);
+      if (!keepSource) {
+        this.nodes.delete(entry);
+      }
+    });
+    if (keepSource) {
+      this.notifyChange(target, 'created');
+    } else {
+      this.notifyChange(target, 'renamed', source);
+    }
+    return this.entryFor(target);
+  }
+
+  private notifyChange(
+    path: string,
+    kind: SwiftralinoServerEvents['fs:changed']['kind'],
+    oldPath?: string
+  ): void {
+    const parent = this.nodes.get(parentOf(path));
+    if (parent) {
+      parent.modified = now();
+    }
+    const change = oldPath ? { path, kind, oldPath } : { path, kind };
+    // Only connections watching the path hear about it, once per matching watch
+    this.connections.forEach((connection) =>
+      connection.watches.forEach((scope, watchId) => {
+        const watched = [path, oldPath].some(
+          (changed) => changed !== undefined && isWatchedPath(changed, scope.path, scope)
+        );
+        if (watched) {
+          this.emitTo(connection, 'fs:changed', { ...change, watchId });
+        }
+      })
+    );
+  }
+
+  private entryFor(path: string): SwiftralinoFileEntry {
+    const node = this.requireNode(path);
+    const name = path === '/' ? '/' : baseName(path);
+    return {
+      name,
+      path,
+      type: node.type,
+      size: node.type === 'file' ? node.data.length : 64,
+      modified: node.modified,
+      permissions: permissionString(node.mode),
+      hidden: name.startsWith('.'),
+    };
+  }
+
+  private childrenOf(path: string): string[] {
+    if (!this.isDirectory(path)) {
+      throw new BackendAPIError(`No such directory: ${path}`);
+    }
+    return [...this.nodes.keys()]
+      .filter((entry) => entry !== '/' && parentOf(entry) === path)
+      .sort();
+  }
+
+  private listDirectory(path: string): string[] {
+    return this.childrenOf(path).map(baseName);
+  }
+
+  private listEntries(path: string): SwiftralinoFileEntry[] {
+    return this.childrenOf(path).map((entry) => this.entryFor(entry));
+  }
+
+  private readFile(path: string, encoding: SwiftralinoFileEncoding = 'utf8'): string {
+    const node = this.nodes.get(path);
+    if (node?.type !== 'file') {
+      throw new BackendAPIError(`No such file: ${path}`);
+    }
+    return encoding === 'base64' ? encodeBase64(node.data) : decodeUtf8(node.data);
+  }
+
+  // Processes
+
+  // A handful of commands, enough to exercise the process UI
+  private runCommand(command: string, args: string[], cwd = HOME): CommandResult {
+    switch (baseName(command)) {
+      case 'echo':
+        return succeeded(`${args.join(' ')}\n`);
+      case 'pwd':
+        return succeeded(`${cwd}\n`);
+      case 'whoami':
+        return succeeded('demo\n');
+      case 'hostname':
+        return succeeded(`${this.hostName}\n`);
+      case 'uname':
+        return succeeded('MockOS\n');
+      case 'date':
+        return succeeded(`${new Date().toString()}\n`);
+      case 'ls': {
+        const path = normalizePath(args.find((arg) => !arg.startsWith('-')) ?? '.', cwd);
+        if (!this.isDirectory(path)) {
+          return failed(1, `ls: ${path}: No such file or directory\n`);
+        }
+        return succeeded(`${this.listDirectory(path).join('\n')}\n`);
+      }
+      case 'cat': {
+        const paths = args.map((arg) => normalizePath(arg, cwd));
+        const missing = paths.filter((path) => this.nodes.get(path)?.type !== 'file');
+        if (missing.length > 0) {
+          return failed(
+            1,
+            missing.map((path) => `cat: ${path}: No such file or directory\n`).join('')
+          );
+        }
+        return succeeded(paths.map((path) => this.readFile(path)).join(''));
+      }
+      default:
+        return failed(127, `${command}: command not found\n`);
+    }
+  }
+
+  private spawnProcess(
+    connection: MockConnection,
+    processId: string,
+    command: string,
+    args: string[],
+    cwd: string
+  ): void {
+    if (this.processes.has(processId)) {
+      throw new BackendAPIError(`Process already exists: ${processId}`);
+    }
+    const name = baseName(command);
+    const child: MockProcess = { connection, interactive: name === 'cat' && args.length === 0 };
+    this.processes.set(processId, child);
+    if (child.interactive) {
+      return;
+    }
+
+    const sleeping = name === 'sleep';
+    const result = sleeping ? succeeded('') : this.runCommand(command, args, cwd);
+    const duration = sleeping ? Number(args[0] ?? 0) * 1000 : this.latency;
+    child.timer = setTimeout(() => {
+      if (result.output) {
+        this.emitTo(connection, 'process:stdout', { processId, data: result.output });
+      }
+      if (result.error) {
+        this.emitTo(connection, 'process:stderr', { processId, data: result.error });
+      }
+      this.finishProcess(processId, { exitCode: result.exitCode, signal: null });
+    }, duration);
+  }
+
+  private requireProcess(processId: string): MockProcess {
+    const child = this.processes.get(processId);
+    if (!child) {
+      throw new BackendAPIError(`No such process: ${processId}`);
+    }
+    return child;
+  }
+
+  private finishProcess(processId: string, exit: SwiftralinoProcessExit): void {
+    const child = this.processes.get(processId);
+    if (!child) {
+      return;
+    }
+    clearTimeout(child.timer);
+    this.processes.delete(processId);
+    this.emitTo(child.connection, 'process:exit', { processId, ...exit });
+  }
+
+  // Distributed
+
+  // Adds the member, or marks it reachable again, and tells every client
+  private addMember(member: ClusterPlatform): void {
+    const platform: ClusterPlatform = { ...member, status: 'up', lastSeen: Date.now() / 1000 };
+    const { platforms } = this.cluster;
+    const index = platforms.findIndex((entry) => entry.id === member.id);
+    if (index === -1) {
+      platforms.push(platform);
+    } else {
+      platforms[index] = platform;
+    }
+    this.emitEvent('cluster:member-joined', { platform });
+  }
+
+  private storeKey(key: string, value: unknown, ttl?: number): KVEntry {
+    const { keys } = this.requireCluster();
+    clearTimeout(keys.get(key)?.timer);
+    const updatedAt = now();
+    const entry: KVEntry = {
+      key,
+      value,
+      version: ++this.cluster.revision,
+      updatedAt,
+      expiresAt: ttl === undefined ? null : updatedAt + ttl / 1000,
+    };
+    const timer =
+      ttl === undefined ? undefined : setTimeout(() => this.removeKey(key, 'expired'), ttl);
+    keys.set(key, { entry, timer });
+    this.emitEvent('kv:changed', { key, reason: 'set', entry });
+    return entry;
+  }
+
+  private removeKey(key: string, reason: 'deleted' | 'expired'): void {
+    clearTimeout(this.cluster.keys.get(key)?.timer);
+    this.cluster.keys.delete(key);
+    this.emitEvent('kv:changed', { key, reason, entry: null });
+  }
+
+  private requireCluster() {
+    if (!this.cluster.initialized) {
+      throw new BackendAPIError('Distributed platform not initialized');
+    }
+    return this.cluster;
+  }
+}
+
+const defaultBackends = new Map<string, MockSwiftralinoBackend>();
+
+// One per URL, shared by every MockTransport to it so state survives
+// reconnects while named connections still get separate backends
+export const getDefaultMockBackend = (url = ''): MockSwiftralinoBackend => {
+  let backend = defaultBackends.get(url);
+  if (!backend) {
+    backend = new MockSwiftralinoBackend();
+    defaultBackends.set(url, backend);
+  }
+  return backend;
+};
+
+export class MockTransport implements SwiftralinoTransport {
+  private backend: MockSwiftralinoBackend;
+  private connection: MockConnection | null = null;
+
+  constructor(backend: MockSwiftralinoBackend = getDefaultMockBackend()) {
+    this.backend = backend;
+  }
+
+  async open(handlers: SwiftralinoTransportHandlers): Promise<void> {
+    this.connection = this.backend.connect(
+      (message) => handlers.onMessage(JSON.stringify(message)),
+      () => {
+        this.connection = null;
+        handlers.onClose();
+      }
+    );
+  }
+
+  send(frame: string): void {
+    if (!this.connection) {
+      throw new TransportError('Mock connection is closed', { action: 'send' });
+    }
+    this.backend.receive(this.connection, frame);
+  }
+
+  close(): void {
+    const { connection } = this;
+    if (!connection) {
+      return;
+    }
+    this.connection = null;
+    this.backend.disconnect(connection);
+    // Reported asynchronously, like a WebSocket close
+    setTimeout(() => connection.onClose(), 0);
+  }
+
+  isOpen(): boolean {
+    return this.connection !== null;
+  }
+}
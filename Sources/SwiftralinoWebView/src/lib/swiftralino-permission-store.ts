@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+import { randomId } from './swiftralino-runtime';
+import type { PermissionRequest } from '@/types/swiftralino';
+
+export interface PermissionPromptEntry {
+  id: string;
+  request: PermissionRequest;
+}
+
+interface PermissionStoreState {
+  // Shown one at a time, oldest first
+  prompts: PermissionPromptEntry[];
+  // Resolves with the user's answer
+  prompt: (request: PermissionRequest) => Promise<boolean>;
+  respond: (id: string, granted: boolean) => void;
+}
+
+// Resolvers stay outside the state so it remains plain data
+const resolvers = new Map<string, (granted: boolean) => void>();
+
+export const usePermissionStore = create<PermissionStoreState>((set) => ({
+  prompts: [],
+
+  prompt: (request) =>
+    new Promise<boolean>((resolve) => {
+      const id = randomId();
+      resolvers.set(id, resolve);
+      set((state) => ({ prompts: [...state.prompts, { id, request }] }));
+    }),
+
+  respond: (id, granted) => {
+    resolvers.get(id)?.(granted);
+    resolvers.delete(id);
+    set((state) => ({ prompts: state.prompts.filter((entry) => entry.id !== id) }));
+  },
+}));
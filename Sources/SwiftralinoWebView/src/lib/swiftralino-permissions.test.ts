@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { findPermissionViolation, resolvePermissionPaths } from './swiftralino-permissions';
+import type { CapabilityManifest } from '@/types/swiftralino';
+
+describe('findPermissionViolation', () => {
+  it('requires the permission of the action', () => {
+    const manifest: CapabilityManifest = { granted: ['filesystem'] };
+    expect(findPermissionViolation(manifest, 'filesystem', 'readFile', { path: '/a' })).toBeNull();
+    expect(findPermissionViolation(manifest, 'process', 'execute', { command: 'ls' })).toEqual({
+      permission: 'process',
+      action: 'process',
+      operation: 'execute',
+    });
+  });
+
+  it('holds paths to the allow-list after resolving them', () => {
+    const manifest: CapabilityManifest = {
+      granted: ['filesystem'],
+      paths: ['/home/me', '/tmp/*.log'],
+    };
+    const check = (params: Record<string, unknown>) =>
+      findPermissionViolation(manifest, 'filesystem', 'rename', params);
+    expect(check({ from: '/home/me/a', to: '/tmp/b.log' })).toBeNull();
+    expect(check({ from: '/home/me/../other/a', to: '/home/me/a' })).toMatchObject({
+      path: '/home/other/a',
+    });
+    expect(check({ from: '/home/me/a', to: 'relative' })).toMatchObject({ path: 'relative' });
+    expect(check({ from: '/home/mine', to: '/home/me/a' })).toMatchObject({ path: '/home/mine' });
+  });
+
+  it('holds the working directory of commands to the allow-list', () => {
+    const manifest: CapabilityManifest = { granted: ['process'], paths: ['/home/me'] };
+    const run = (cwd: string) =>
+      findPermissionViolation(manifest, 'process', 'spawn', { command: 'ls', cwd });
+    expect(run('/home/me/project')).toBeNull();
+    expect(run('/etc')).toMatchObject({ permission: 'filesystem', path: '/etc' });
+  });
+
+  it('holds commands to the allow-list', () => {
+    const manifest: CapabilityManifest = { granted: ['process'], commands: ['ls', 'git*'] };
+    expect(findPermissionViolation(manifest, 'process', 'execute', { command: 'git' })).toBeNull();
+    expect(findPermissionViolation(manifest, 'process', 'spawn', { command: 'rm' })).toMatchObject({
+      permission: 'process',
+      command: 'rm',
+    });
+  });
+
+  it('treats distributed scripts as commands', () => {
+    const granted: CapabilityManifest['granted'] = ['network', 'process'];
+    expect(
+      findPermissionViolation({ granted: ['network'] }, 'distributed', 'execute', {
+        script: 'ls',
+      })
+    ).toMatchObject({ permission: 'process' });
+    expect(
+      findPermissionViolation({ granted, commands: ['uptime'] }, 'distributed', 'executeOn', {
+        script: 'uptime',
+      })
+    ).toBeNull();
+    expect(
+      findPermissionViolation({ granted, commands: ['uptime'] }, 'distributed', 'executeOn', {
+        script: 'rm -rf /',
+      })
+    ).toMatchObject({ permission: 'process', command: 'rm -rf /' });
+    expect(
+      findPermissionViolation({ granted: ['network'] }, 'distributed', 'status', {})
+    ).toBeNull();
+  });
+});
+
+describe('resolvePermissionPaths', () => {
+  it('resolves path params and plain allow-list paths', async () => {
+    const links: Record<string, string> = { '/home/me/link': '/etc', '/home/me': '/Users/me' };
+    const resolved = await resolvePermissionPaths(
+      { granted: ['filesystem'], paths: ['/home/me', '/tmp/*.log'] },
+      { path: '/home/me/link', encoding: 'utf8' },
+      async (path) => links[path] ?? path
+    );
+    expect(resolved).toEqual({
+      manifest: { granted: ['filesystem'], paths: ['/Users/me', '/tmp/*.log'] },
+      params: { path: '/etc', encoding: 'utf8' },
+    });
+  });
+});
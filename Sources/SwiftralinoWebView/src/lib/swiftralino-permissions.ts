@@ -0,0 +1,238 @@
+import { PermissionDeniedError } from './swiftralino-errors';
+import { globToRegExp, isWithinPath, resolvePath } from './swiftralino-files';
+import type { APIAction } from './swiftralino-protocol';
+import type {
+  CapabilityManifest,
+  PermissionRequest,
+  PluginPermission,
+  SwiftralinoPermissionConfig,
+} from '@/types/swiftralino';
+
+// requiredPermissions of the Swift plugins, per protocol action
+export const ACTION_PERMISSIONS: Record<APIAction, PluginPermission[]> = {
+  filesystem: ['filesystem'],
+  process: ['process'],
+  system: ['system'],
+  distributed: ['network'],
+  clipboard: ['clipboard'],
+  notification: ['notifications'],
+  dialog: [],
+  shell: ['process'],
+  updater: ['network', 'filesystem'],
+};
+
+// PluginPermission.description
+export const PERMISSION_DESCRIPTIONS: Record<PluginPermission, string> = {
+  filesystem: 'Access to file system operations',
+  network: 'Network and HTTP requests',
+  process: 'Process management and execution',
+  system: 'System information and configuration',
+  clipboard: 'Clipboard read/write access',
+  notifications: 'Display system notifications',
+  camera: 'Camera access for photos/video',
+  microphone: 'Microphone access for recording',
+  location: 'Location services',
+  keychain: 'Secure credential storage',
+  printjobs: 'Printing capabilities',
+};
+
+// `cwd` of process and shell calls is held to the path allow-list too
+const PATH_PARAMS = ['path', 'from', 'to', 'cwd'];
+const COMMAND_ACTIONS = new Set(['process', 'shell']);
+
+// Scripts run as code on the cluster's members, so they need `process` and
+// pass the command allow-list as a whole
+const runsScript = (action: string, operation: string | undefined) =>
+  action === 'distributed' && (operation === 'execute' || operation === 'executeOn');
+
+const isGlob = (pattern: string) => /[*?{]/.test(pattern);
+
+// Relative paths resolve on the backend, so an allow-list cannot vouch for them
+const isPathAllowed = (path: string, patterns: string[]): boolean => {
+  const resolved = resolvePath(path);
+  return (
+    resolved !== null &&
+    patterns.some((pattern) =>
+      isGlob(pattern) ? globToRegExp(pattern).test(resolved) : isWithinPath(resolved, pattern)
+    )
+  );
+};
+
+const isCommandAllowed = (command: string, patterns: string[]): boolean =>
+  patterns.some((pattern) =>
+    isGlob(pattern) ? globToRegExp(pattern).test(command) : pattern === command
+  );
+
+// The path params of a call and the plain (non-glob) allow-list paths, both
+// passed through `resolve`. Backends resolve symlinks with it, since the
+// check itself is lexical and a link inside an allowed directory can point
+// anywhere.
+export const resolvePermissionPaths = async (
+  manifest: CapabilityManifest,
+  params: Record<string, unknown>,
+  resolve: (path: string) => Promise<string>
+): Promise<{ manifest: CapabilityManifest; params: Record<string, unknown> }> => {
+  const resolvedParams = { ...params };
+  for (const key of PATH_PARAMS) {
+    const path = params[key];
+    if (typeof path === 'string') {
+      resolvedParams[key] = await resolve(path);
+    }
+  }
+  const paths =
+    manifest.paths &&
+    (await Promise.all(
+      manifest.paths.map((pattern) => (isGlob(pattern) ? pattern : resolve(pattern)))
+    ));
+  return { manifest: paths ? { ...manifest, paths } : manifest, params: resolvedParams };
+};
+
+// The first thing about a call that the manifest does not allow, or null
+export const findPermissionViolation = (
+  manifest: CapabilityManifest,
+  action: string,
+  operation: string | undefined,
+  params: Record<string, unknown>
+): PermissionRequest | null => {
+  const missing = (ACTION_PERMISSIONS[action as APIAction] ?? []).find(
+    (permission) => !manifest.granted.includes(permission)
+  );
+  if (missing) {
+    return { permission: missing, action, operation };
+  }
+  const script = runsScript(action, operation);
+  if (script && !manifest.granted.includes('process')) {
+    return { permission: 'process', action, operation };
+  }
+
+  if ((action === 'filesystem' || COMMAND_ACTIONS.has(action)) && manifest.paths) {
+    for (const key of PATH_PARAMS) {
+      const path = params[key];
+      if (typeof path === 'string' && !isPathAllowed(path, manifest.paths)) {
+        return { permission: 'filesystem', action, operation, path: resolvePath(path) ?? path };
+      }
+    }
+  }
+
+  const command = script ? params.script : params.command;
+  if (
+    (COMMAND_ACTIONS.has(action) || script) &&
+    manifest.commands &&
+    typeof command === 'string' &&
+    !isCommandAllowed(command, manifest.commands)
+  ) {
+    return { permission: 'process', action, operation, command };
+  }
+  return null;
+};
+
+export const describePermissionRequest = (request: PermissionRequest): string => {
+  if (request.path !== undefined) {
+    return `Permission denied: access to ${request.path} is not allowed`;
+  }
+  if (request.command !== undefined) {
+    return `Permission denied: running ${request.command} is not allowed`;
+  }
+  return `Permission denied: ${request.permission} is not granted`;
+};
+
+interface PermissionManagerHooks {
+  fetchManifest: () => Promise<CapabilityManifest | null>;
+  // Asks the backend for the grant, resolving to the updated manifest
+  requestGrant: (request: PermissionRequest) => Promise<CapabilityManifest>;
+  onChange: (manifest: CapabilityManifest | null) => void;
+}
+
+// Checks calls against the capability manifest before they are sent, so the
+// user can be asked first. The TypeScript server and the mock check again;
+// the Swift server reports no manifest and checks nothing, so against it this
+// is no boundary for clients other than this one.
+export class PermissionManager {
+  private config: SwiftralinoPermissionConfig;
+  private hooks: PermissionManagerHooks;
+  private manifest: CapabilityManifest | null;
+  private loading: Promise<void> | null = null;
+  // Prompts in flight, so concurrent calls needing the same grant share one
+  private grants = new Map<string, Promise<boolean>>();
+
+  constructor(config: SwiftralinoPermissionConfig, hooks: PermissionManagerHooks) {
+    this.config = config;
+    this.hooks = hooks;
+    this.manifest = config.manifest ?? null;
+  }
+
+  getManifest(): CapabilityManifest | null {
+    return this.manifest;
+  }
+
+  // Runs on every connect, since grants may have changed in between. Backends
+  // without a manifest, or failing to send one, leave the configured one.
+  load(): Promise<void> {
+    const loading = this.hooks.fetchManifest().then(
+      (manifest) => this.setManifest(manifest ?? this.config.manifest ?? null),
+      () => this.setManifest(this.config.manifest ?? null)
+    );
+    this.loading = loading;
+    loading.then(() => {
+      if (this.loading === loading) {
+        this.loading = null;
+      }
+    });
+    return loading;
+  }
+
+  // Resolves when the call may go out, otherwise rejects with PermissionDeniedError
+  async authorize(
+    action: string,
+    operation: string | undefined,
+    params: Record<string, unknown>
+  ): Promise<void> {
+    await this.loading;
+    const request =
+      this.manifest && findPermissionViolation(this.manifest, action, operation, params);
+    if (!request) {
+      return;
+    }
+    if (
+      (await this.requestGrant(request)) &&
+      this.manifest &&
+      !findPermissionViolation(this.manifest, action, operation, params)
+    ) {
+      return;
+    }
+    throw new PermissionDeniedError(describePermissionRequest(request), {
+      action,
+      operation,
+      details: { ...request },
+    });
+  }
+
+  private requestGrant(request: PermissionRequest): Promise<boolean> {
+    const key = `${request.permission}:${request.path ?? request.command ?? ''}`;
+    let pending = this.grants.get(key);
+    if (!pending) {
+      pending = this.promptAndGrant(request);
+      this.grants.set(key, pending);
+      pending.then(() => this.grants.delete(key));
+    }
+    return pending;
+  }
+
+  // Never rejects: a backend that cannot grant counts as a refusal
+  private async promptAndGrant(request: PermissionRequest): Promise<boolean> {
+    try {
+      if (!this.config.onRequest || !(await this.config.onRequest(request))) {
+        return false;
+      }
+      this.setManifest(await this.hooks.requestGrant(request));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private setManifest(manifest: CapabilityManifest | null): void {
+    this.manifest = manifest;
+    this.hooks.onChange(manifest);
+  }
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { WebSocketSwiftralinoClient } from './swiftralino-client';
+import { MockSwiftralinoBackend, MockTransport } from './swiftralino-mock-backend';
+import { EMPTY_PROCESS_OUTPUT, appendProcessOutput } from './swiftralino-process';
+
+describe('spawned processes', () => {
+  let backend: MockSwiftralinoBackend;
+  let client: WebSocketSwiftralinoClient;
+
+  beforeEach(async () => {
+    backend = new MockSwiftralinoBackend({ latency: 1 });
+    client = new WebSocketSwiftralinoClient({
+      wsUrl: '',
+      reconnectAttempts: 0,
+      reconnectDelay: 10,
+      heartbeat: { interval: 0 },
+      transport: () => new MockTransport(backend),
+    });
+    await client.connect();
+  });
+
+  afterEach(() => client.disconnect());
+
+  it('streams output and reports the exit', async () => {
+    const child = await client.spawn('echo', ['hello']);
+    const output: string[] = [];
+    child.onStdout((chunk) => output.push(chunk));
+    await expect(child.exited).resolves.toMatchObject({ exitCode: 0 });
+    expect(output.join('')).toBe('hello\n');
+  });
+
+  it('passes stdin through and ends on kill', async () => {
+    const child = await client.spawn('cat');
+    const output: string[] = [];
+    child.onStdout((chunk) => output.push(chunk));
+    await child.write('ping');
+    await expect.poll(() => output.join('')).toBe('ping');
+    await child.kill();
+    await expect(child.exited).resolves.toMatchObject({ exitCode: null, signal: 'SIGTERM' });
+  });
+
+  it('settles when the connection is lost', async () => {
+    const child = await client.spawn('sleep', ['60']);
+    backend.dropConnections();
+    await expect(child.exited).resolves.toEqual({
+      exitCode: null,
+      signal: null,
+      disconnected: true,
+    });
+  });
+});
+
+describe('appendProcessOutput', () => {
+  it('merges adjacent output of the same stream', () => {
+    const output = ['a', 'b'].reduce(
+      (current, text) => appendProcessOutput(current, 'stdout', text),
+      EMPTY_PROCESS_OUTPUT
+    );
+    const withError = appendProcessOutput(output, 'stderr', 'c');
+    expect(withError.chunks).toEqual([
+      { stream: 'stdout', text: 'ab' },
+      { stream: 'stderr', text: 'c' },
+    ]);
+    expect(withError).toMatchObject({ size: 3, dropped: 0 });
+  });
+
+  it('keeps only the last characters within the limit', () => {
+    let output = EMPTY_PROCESS_OUTPUT;
+    output = appendProcessOutput(output, 'stdout', 'abc', 5);
+    output = appendProcessOutput(output, 'stderr', 'de', 5);
+    output = appendProcessOutput(output, 'stdout', 'fgh', 5);
+    expect(output.chunks).toEqual([
+      { stream: 'stderr', text: 'de' },
+      { stream: 'stdout', text: 'fgh' },
+    ]);
+    output = appendProcessOutput(output, 'stdout', 'i', 5);
+    expect(output.chunks).toEqual([
+      { stream: 'stderr', text: 'e' },
+      { stream: 'stdout', text: 'fghi' },
+    ]);
+    expect(output).toMatchObject({ size: 5, dropped: 4 });
+  });
+});
@@ -0,0 +1,188 @@
+import type {
+  SpawnOptions,
+  SwiftralinoClient,
+  SwiftralinoProcess,
+  SwiftralinoProcessExit,
+} from '@/types/swiftralino';
+
+type OutputStream = 'stdout' | 'stderr';
+type OutputListener = (chunk: string) => void;
+type ExitListener = (exit: SwiftralinoProcessExit) => void;
+
+export class SwiftralinoProcessHandle implements SwiftralinoProcess {
+  readonly processId: string;
+  readonly exited: Promise<SwiftralinoProcessExit>;
+  private client: SwiftralinoClient;
+  private pidValue: number | undefined;
+  private outputListeners: Record<OutputStream, Set<OutputListener>> = {
+    stdout: new Set(),
+    stderr: new Set(),
+  };
+  // Output that arrived before anyone listened to the stream
+  private bufferedOutput: Record<OutputStream, string[]> = { stdout: [], stderr: [] };
+  private exitListeners = new Set<ExitListener>();
+  private exitResult: SwiftralinoProcessExit | null = null;
+  private resolveExited: ExitListener = () => {};
+  private removeEventListeners: Array<() => void>;
+
+  constructor(client: SwiftralinoClient, processId: string) {
+    this.client = client;
+    this.processId = processId;
+    this.exited = new Promise((resolve) => {
+      this.resolveExited = resolve;
+    });
+
+    // Listen before spawning so early output is not lost
+    this.removeEventListeners = [
+      client.on('process:stdout', (event) => {
+        if (event.processId === processId) {
+          this.emitOutput('stdout', event.data);
+        }
+      }),
+      client.on('process:stderr', (event) => {
+        if (event.processId === processId) {
+          this.emitOutput('stderr', event.data);
+        }
+      }),
+      client.on('process:exit', (event) => {
+        if (event.processId === processId) {
+          this.handleExit({ exitCode: event.exitCode, signal: event.signal });
+        }
+      }),
+    ];
+    // No exit event follows a dropped connection
+    const onDisconnected = () =>
+      this.handleExit({ exitCode: null, signal: null, disconnected: true });
+    client.addEventListener('disconnected', onDisconnected);
+    this.removeEventListeners.push(() =>
+      client.removeEventListener('disconnected', onDisconnected)
+    );
+  }
+
+  get pid(): number | undefined {
+    return this.pidValue;
+  }
+
+  async start(command: string, args: string[], options: SpawnOptions): Promise<void> {
+    try {
+      const response = await this.client.call('process', 'spawn', {
+        processId: this.processId,
+        command,
+        args,
+        ...options,
+      });
+      this.pidValue = response.data?.pid;
+    } catch (error) {
+      this.dispose();
+      throw error;
+    }
+  }
+
+  onStdout(listener: OutputListener): () => void {
+    return this.addOutputListener('stdout', listener);
+  }
+
+  onStderr(listener: OutputListener): () => void {
+    return this.addOutputListener('stderr', listener);
+  }
+
+  onExit(listener: ExitListener): () => void {
+    if (this.exitResult) {
+      listener(this.exitResult);
+      return () => {};
+    }
+    this.exitListeners.add(listener);
+    return () => this.exitListeners.delete(listener);
+  }
+
+  async write(data: string): Promise<void> {
+    await this.client.call('process', 'write', { processId: this.processId, data });
+  }
+
+  async kill(signal?: string): Promise<void> {
+    if (this.exitResult) {
+      return;
+    }
+    await this.client.call('process', 'kill', { processId: this.processId, signal });
+  }
+
+  private addOutputListener(stream: OutputStream, listener: OutputListener): () => void {
+    const listeners = this.outputListeners[stream];
+    listeners.add(listener);
+
+    if (listeners.size === 1) {
+      const buffered = this.bufferedOutput[stream];
+      this.bufferedOutput[stream] = [];
+      buffered.forEach((chunk) => listener(chunk));
+    }
+
+    return () => listeners.delete(listener);
+  }
+
+  private emitOutput(stream: OutputStream, chunk: string): void {
+    const listeners = this.outputListeners[stream];
+    if (listeners.size === 0) {
+      this.bufferedOutput[stream].push(chunk);
+      return;
+    }
+    listeners.forEach((listener) => listener(chunk));
+  }
+
+  private handleExit(exit: SwiftralinoProcessExit): void {
+    if (this.exitResult) {
+      return;
+    }
+    this.exitResult = exit;
+    this.exitListeners.forEach((listener) => listener(exit));
+    this.exitListeners.clear();
+    this.resolveExited(exit);
+    this.dispose();
+  }
+
+  private dispose(): void {
+    this.removeEventListeners.forEach((remove) => remove());
+    this.removeEventListeners = [];
+  }
+}
+
+// What the UI keeps of a process's output: adjacent writes to the same stream
+// share a chunk, and only the last `limit` characters are kept
+export interface ProcessOutput {
+  chunks: Array<{ stream: OutputStream; text: string }>;
+  size: number;
+  // Characters dropped from the start to stay within the limit
+  dropped: number;
+}
+
+export const PROCESS_OUTPUT_LIMIT = 64 * 1024;
+
+export const EMPTY_PROCESS_OUTPUT: ProcessOutput = { chunks: [], size: 0, dropped: 0 };
+
+export const appendProcessOutput = (
+  output: ProcessOutput,
+  stream: OutputStream,
+  text: string,
+  limit = PROCESS_OUTPUT_LIMIT
+): ProcessOutput => {
+  const last = output.chunks[output.chunks.length - 1];
+  const chunks =
+    last?.stream === stream
+      ? [...output.chunks.slice(0, -1), { stream, text: last.text + text }]
+      : [...output.chunks, { stream, text }];
+  let { dropped } = output;
+  let size = output.size + text.length;
+  while (size > limit) {
+    const [first] = chunks;
+    const excess = size - limit;
+    if (first.text.length <= excess) {
+      chunks.shift();
+      size -= first.text.length;
+      dropped += first.text.length;
+    } else {
+      chunks[0] = { stream: first.stream, text: first.text.slice(excess) };
+      size -= excess;
+      dropped += excess;
+    }
+  }
+  return { chunks, size, dropped };
+};
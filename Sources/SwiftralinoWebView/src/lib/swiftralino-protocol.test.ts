@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createGeneratedAPI,
+  getParamsShape,
+  getResultSchema,
+  isIdempotentMessage,
+} from './swiftralino-protocol';
+import type { SwiftralinoMessage } from '@/types/swiftralino';
+
+const api = (action: string, operation: string): SwiftralinoMessage => ({
+  id: '1',
+  type: 'api',
+  action,
+  data: { operation },
+});
+
+describe('isIdempotentMessage', () => {
+  it('follows the protocol definition', () => {
+    expect(isIdempotentMessage(api('filesystem', 'readFile'))).toBe(true);
+    expect(isIdempotentMessage(api('process', 'execute'))).toBe(false);
+    expect(isIdempotentMessage({ id: '1', type: 'system', action: 'ping' })).toBe(true);
+  });
+
+  it('treats unknown messages as having side effects', () => {
+    expect(isIdempotentMessage(api('filesystem', 'shred'))).toBe(false);
+    expect(isIdempotentMessage({ id: '1', type: 'api', action: 'filesystem' })).toBe(false);
+    expect(isIdempotentMessage({ id: '1', type: 'event', action: 'ping' })).toBe(false);
+  });
+});
+
+describe('result schemas', () => {
+  it('validate what the backend answers', () => {
+    const schema = getResultSchema('system', 'info')!;
+    expect(
+      schema.validate(
+        { operatingSystem: 'macOS', hostName: 'mac', processIdentifier: 1, uptime: 2 },
+        'data'
+      )
+    ).toEqual([]);
+    expect(schema.validate({ operatingSystem: 'macOS', hostName: 'mac' }, 'data')).toEqual([
+      'data.processIdentifier: expected number, got undefined',
+      'data.uptime: expected number, got undefined',
+    ]);
+  });
+
+  it('exist for system messages and API operations only', () => {
+    expect(getResultSchema('ping')).toBeDefined();
+    expect(getResultSchema('filesystem', 'shred')).toBeUndefined();
+    expect(Object.keys(getParamsShape('filesystem', 'readFile')!)).toEqual(['path', 'encoding']);
+  });
+});
+
+describe('createGeneratedAPI', () => {
+  it('routes every operation through the caller', async () => {
+    const calls: unknown[][] = [];
+    const generated = createGeneratedAPI(async (...args) => {
+      calls.push(args);
+      return { id: '1', type: 'response', action: args[0], data: {} };
+    });
+    await generated.filesystem.readFile({ path: '/a' });
+    expect(calls.map((args) => args.slice(0, 3))).toEqual([
+      ['filesystem', 'readFile', { path: '/a' }],
+    ]);
+  });
+});
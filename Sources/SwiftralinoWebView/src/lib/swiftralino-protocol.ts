@@ -0,0 +1,510 @@
+import { type Infer, type InferShape, type Schema, type Shape, s } from './swiftralino-schema';
+import type {
+  SwiftralinoMessage,
+  SwiftralinoRequestOptions,
+  SwiftralinoResponse,
+} from '@/types/swiftralino';
+
+// Single source of truth for the bridge protocol. Client methods, the
+// SwiftralinoAPI types and runtime response validation are all derived
+// from the definitions below; keep them in sync with the Swift APIs.
+
+// Reported by `describe`; backends on another major version speak different frames
+export const PROTOCOL_VERSION = '1.0';
+
+export interface OperationDefinition<P extends Shape = Shape, R = unknown> {
+  params: P;
+  result: Schema<R>;
+  // Safe to replay after a dropped connection (no side effects)
+  idempotent: boolean;
+}
+
+const operation = <R, P extends Shape = Record<never, never>>(definition: {
+  params?: P;
+  result: Schema<R>;
+  idempotent?: boolean;
+}): OperationDefinition<P, R> => ({
+  params: definition.params ?? ({} as P),
+  result: definition.result,
+  idempotent: definition.idempotent ?? false,
+});
+
+const success = s.object({ success: s.boolean(), error: s.optional(s.string()) });
+
+const platform = s.object({
+  id: s.string(),
+  deviceName: s.string(),
+  platform: s.string(),
+  version: s.string(),
+  capabilities: s.array(s.string()),
+  // Missing from backends without membership tracking, which only list live members
+  status: s.optional(s.literal('up', 'unreachable')),
+  // Seconds since the epoch
+  lastSeen: s.optional(s.number()),
+  tags: s.optional(s.array(s.string())),
+});
+
+// Versions come from one counter per store, so a key deleted and set again
+// never gets a version back; timestamps are seconds since the epoch
+const keyInfo = {
+  key: s.string(),
+  version: s.number(),
+  updatedAt: s.number(),
+  expiresAt: s.nullable(s.number()),
+};
+
+const keyEntry = s.object({ ...keyInfo, value: s.unknown() });
+
+const executionResult = {
+  platformId: s.string(),
+  success: s.boolean(),
+  output: s.string(),
+  timestamp: s.number(),
+};
+
+const fileEncoding = s.literal('utf8', 'base64');
+
+const fileEntry = s.object({
+  name: s.string(),
+  path: s.string(),
+  type: s.literal('file', 'directory', 'symlink', 'other'),
+  // Bytes; directories report whatever the filesystem does
+  size: s.number(),
+  // Seconds since 1970, like every backend timestamp
+  modified: s.number(),
+  // POSIX style, e.g. `rwxr-xr-x`
+  permissions: s.string(),
+  hidden: s.boolean(),
+});
+
+// Raw values of PluginPermission in SwiftralPlugin.swift
+const pluginPermission = s.literal(
+  'filesystem',
+  'network',
+  'process',
+  'system',
+  'clipboard',
+  'notifications',
+  'camera',
+  'microphone',
+  'location',
+  'keychain',
+  'printjobs'
+);
+
+// What the app may use. Allow-lists narrow a granted permission; without a
+// list everything the permission covers is allowed.
+const capabilityManifest = s.object({
+  granted: s.array(pluginPermission),
+  // Directories (or globs) filesystem calls may touch
+  paths: s.optional(s.array(s.string())),
+  // Commands (or globs) process and shell calls, and distributed scripts, may run
+  commands: s.optional(s.array(s.string())),
+});
+
+// SwiftralinoPlugin metadata
+const pluginInfo = s.object({
+  identifier: s.string(),
+  name: s.string(),
+  version: s.string(),
+  description: s.string(),
+  requiredPermissions: s.array(pluginPermission),
+  // Actions the plugin registered
+  apis: s.array(s.string()),
+});
+
+const backendDescription = s.object({
+  protocolVersion: s.string(),
+  version: s.string(),
+  platform: s.string(),
+  // Every registered action with the operations it handles
+  apis: s.record(s.array(s.string())),
+  plugins: s.array(pluginInfo),
+});
+
+export const swiftralinoProtocol = {
+  // `type: 'system'` messages, keyed by action
+  messages: {
+    ping: operation({ result: s.object({ timestamp: s.number() }), idempotent: true }),
+    version: operation({
+      result: s.object({ version: s.string(), platform: s.string() }),
+      idempotent: true,
+    }),
+    // Sent fire-and-forget when a request is aborted or times out
+    cancel: operation({
+      params: { requestId: s.string() },
+      result: s.object({ cancelled: s.boolean() }),
+    }),
+    // First message when the bridge requires auth; later messages are signed
+    // with a key derived from the token and the session id
+    authenticate: operation({
+      params: { token: s.string() },
+      result: s.object({ sessionId: s.string() }),
+    }),
+    // Messages sharing one frame, answered with every response in one frame.
+    // Members are handled, and authenticated, one by one in order.
+    batch: operation({
+      params: { messages: s.array(s.unknown()) },
+      result: s.object({ responses: s.array(s.unknown()) }),
+    }),
+    // What the backend serves; backends without it are assumed to serve everything
+    describe: operation({ result: backendDescription, idempotent: true }),
+    capabilities: operation({ result: capabilityManifest, idempotent: true }),
+    // Grants a permission, or extends an allow-list, once the user agreed;
+    // answers with the updated manifest
+    requestPermission: operation({
+      params: {
+        permission: pluginPermission,
+        path: s.optional(s.string()),
+        command: s.optional(s.string()),
+      },
+      result: capabilityManifest,
+    }),
+  },
+
+  // `type: 'api'` messages, keyed by action and then by operation
+  apis: {
+    filesystem: {
+      readDirectory: operation({
+        params: { path: s.string() },
+        result: s.object({ files: s.array(s.string()) }),
+        idempotent: true,
+      }),
+      // Like readDirectory, with metadata for every entry
+      listDirectory: operation({
+        params: { path: s.string() },
+        result: s.object({ path: s.string(), entries: s.array(fileEntry) }),
+        idempotent: true,
+      }),
+      // `base64` returns the raw bytes, for binary files (default: utf8)
+      readFile: operation({
+        params: { path: s.string(), encoding: s.optional(fileEncoding) },
+        result: s.object({ content: s.string(), encoding: s.optional(fileEncoding) }),
+        idempotent: true,
+      }),
+      // Write operations answer with the entry as it is afterwards
+      writeFile: operation({
+        params: {
+          path: s.string(),
+          content: s.string(),
+          encoding: s.optional(fileEncoding),
+          // Create missing parent directories instead of failing
+          createDirectories: s.optional(s.boolean()),
+        },
+        result: fileEntry,
+      }),
+      appendFile: operation({
+        params: { path: s.string(), content: s.string(), encoding: s.optional(fileEncoding) },
+        result: fileEntry,
+      }),
+      mkdir: operation({
+        params: { path: s.string(), recursive: s.optional(s.boolean()) },
+        result: fileEntry,
+      }),
+      rename: operation({
+        params: { from: s.string(), to: s.string(), overwrite: s.optional(s.boolean()) },
+        result: fileEntry,
+      }),
+      copy: operation({
+        params: { from: s.string(), to: s.string(), overwrite: s.optional(s.boolean()) },
+        result: fileEntry,
+      }),
+      // Non-empty directories are only removed with `recursive`
+      remove: operation({
+        params: { path: s.string(), recursive: s.optional(s.boolean()) },
+        result: success,
+      }),
+      stat: operation({ params: { path: s.string() }, result: fileEntry, idempotent: true }),
+      exists: operation({
+        params: { path: s.string() },
+        result: s.object({ exists: s.boolean() }),
+        idempotent: true,
+      }),
+      // Backend-side watch; matching changes arrive as `fs:changed` events
+      // tagged with the watchId. Watches end with the connection.
+      watch: operation({
+        params: {
+          path: s.string(),
+          recursive: s.optional(s.boolean()),
+          glob: s.optional(s.string()),
+        },
+        result: s.object({ watchId: s.string() }),
+      }),
+      unwatch: operation({ params: { watchId: s.string() }, result: success }),
+      // Chunked transfer for files too big for one frame; content is base64
+      readChunk: operation({
+        params: { path: s.string(), offset: s.number(), length: s.number() },
+        // `size` is the whole file, so readers know the total up front
+        result: s.object({ content: s.string(), size: s.number(), eof: s.boolean() }),
+        idempotent: true,
+      }),
+      // Truncates the file to `offset` before writing, so a replayed chunk
+      // lands where it did the first time. Offsets past the end are rejected.
+      writeChunk: operation({
+        params: { path: s.string(), content: s.string(), offset: s.number() },
+        result: s.object({ size: s.number() }),
+        idempotent: true,
+      }),
+      checksum: operation({
+        params: { path: s.string(), algorithm: s.optional(s.literal('sha256')) },
+        result: s.object({ algorithm: s.literal('sha256'), digest: s.string(), size: s.number() }),
+        idempotent: true,
+      }),
+    },
+    process: {
+      execute: operation({
+        params: { command: s.string(), args: s.optional(s.array(s.string())) },
+        result: s.object({ exitCode: s.number(), output: s.string(), error: s.string() }),
+      }),
+      // Streaming execution: output and exit arrive as process:* events.
+      // The client picks the processId so no event can precede the response.
+      spawn: operation({
+        params: {
+          processId: s.string(),
+          command: s.string(),
+          args: s.optional(s.array(s.string())),
+          cwd: s.optional(s.string()),
+          env: s.optional(s.record(s.string())),
+        },
+        result: s.object({ processId: s.string(), pid: s.optional(s.number()) }),
+      }),
+      write: operation({
+        params: { processId: s.string(), data: s.string() },
+        result: s.object({ success: s.boolean() }),
+      }),
+      kill: operation({
+        params: { processId: s.string(), signal: s.optional(s.string()) },
+        result: s.object({ success: s.boolean() }),
+      }),
+    },
+    system: {
+      info: operation({
+        result: s.object({
+          operatingSystem: s.string(),
+          hostName: s.string(),
+          processIdentifier: s.number(),
+          uptime: s.number(),
+        }),
+        idempotent: true,
+      }),
+    },
+    distributed: {
+      initialize: operation({
+        params: {
+          clusterName: s.optional(s.string()),
+          host: s.optional(s.string()),
+          port: s.optional(s.number()),
+        },
+        result: s.object({ status: s.string(), clusterName: s.string() }),
+      }),
+      platforms: operation({
+        result: s.object({ platforms: s.array(platform) }),
+        idempotent: true,
+      }),
+      execute: operation({
+        params: { script: s.string() },
+        result: s.object({ results: s.array(s.object(executionResult)) }),
+      }),
+      // Runs on the listed platforms only; `timeout` is in milliseconds per target
+      executeOn: operation({
+        params: {
+          script: s.string(),
+          targets: s.array(s.string()),
+          timeout: s.optional(s.number()),
+        },
+        result: s.object({
+          results: s.array(s.object({ ...executionResult, timedOut: s.optional(s.boolean()) })),
+        }),
+      }),
+      share: operation({
+        params: { key: s.string(), data: s.string() },
+        result: s.object({ status: s.string(), key: s.string() }),
+      }),
+      retrieve: operation({
+        params: { key: s.string() },
+        result: s.object({ key: s.string(), data: s.nullable(s.string()) }),
+        idempotent: true,
+      }),
+      // Key-value store shared by the cluster, holding any JSON value
+      get: operation({
+        params: { key: s.string() },
+        result: s.object({ entry: s.nullable(keyEntry) }),
+        idempotent: true,
+      }),
+      // `ttl` is in milliseconds. With `expectedVersion` (0: the key must not
+      // exist) nothing is written unless it matches, and `entry` is the current one
+      set: operation({
+        params: {
+          key: s.string(),
+          value: s.unknown(),
+          ttl: s.optional(s.number()),
+          expectedVersion: s.optional(s.number()),
+        },
+        result: s.object({ written: s.boolean(), entry: s.nullable(keyEntry) }),
+      }),
+      delete: operation({
+        params: { key: s.string(), expectedVersion: s.optional(s.number()) },
+        result: s.object({ deleted: s.boolean() }),
+      }),
+      keys: operation({
+        params: { prefix: s.optional(s.string()) },
+        result: s.object({ keys: s.array(s.object(keyInfo)) }),
+        idempotent: true,
+      }),
+      join: operation({
+        params: { endpoint: s.string() },
+        result: s.object({ status: s.string(), endpoint: s.string() }),
+      }),
+      status: operation({
+        result: s.looseObject({ initialized: s.boolean() }),
+        idempotent: true,
+      }),
+    },
+    clipboard: {
+      writeText: operation({ params: { text: s.string() }, result: success }),
+      readText: operation({
+        result: s.object({ text: s.nullable(s.string()), error: s.optional(s.string()) }),
+        idempotent: true,
+      }),
+      clear: operation({ result: success }),
+    },
+    notification: {
+      show: operation({
+        params: { title: s.string(), body: s.optional(s.string()), icon: s.optional(s.string()) },
+        result: success,
+      }),
+      requestPermission: operation({
+        result: s.object({ granted: s.boolean(), error: s.optional(s.string()) }),
+      }),
+    },
+    dialog: {
+      message: operation({
+        params: { message: s.string(), title: s.optional(s.string()) },
+        result: s.object({ clicked: s.boolean() }),
+      }),
+      confirm: operation({
+        params: { message: s.string(), title: s.optional(s.string()) },
+        result: s.object({ confirmed: s.boolean() }),
+      }),
+      open: operation({
+        params: {
+          title: s.optional(s.string()),
+          files: s.optional(s.boolean()),
+          directories: s.optional(s.boolean()),
+          multiple: s.optional(s.boolean()),
+        },
+        result: s.object({ paths: s.array(s.string()), error: s.optional(s.string()) }),
+      }),
+      save: operation({
+        params: { title: s.optional(s.string()), defaultName: s.optional(s.string()) },
+        result: s.object({ path: s.nullable(s.string()), error: s.optional(s.string()) }),
+      }),
+    },
+    shell: {
+      execute: operation({
+        params: {
+          command: s.string(),
+          args: s.optional(s.array(s.string())),
+          cwd: s.optional(s.string()),
+        },
+        result: s.object({ code: s.number(), stdout: s.string(), stderr: s.string() }),
+      }),
+      open: operation({ params: { path: s.string() }, result: success }),
+    },
+    updater: {
+      checkForUpdate: operation({
+        result: s.object({ available: s.boolean(), version: s.string(), notes: s.string() }),
+        idempotent: true,
+      }),
+      installUpdate: operation({ result: success }),
+      getVersion: operation({ result: s.object({ version: s.string() }), idempotent: true }),
+    },
+  },
+};
+
+// Derived types
+
+type Messages = typeof swiftralinoProtocol.messages;
+type APIs = typeof swiftralinoProtocol.apis;
+
+export type SystemAction = keyof Messages;
+export type SystemParams<M extends SystemAction> =
+  Messages[M] extends OperationDefinition<infer P, unknown> ? InferShape<P> : never;
+export type SystemResult<M extends SystemAction> = Infer<Messages[M]['result']>;
+
+export type APIAction = keyof APIs;
+export type APIOperation<A extends APIAction> = keyof APIs[A] & string;
+
+type DefinitionOf<A extends APIAction, O extends APIOperation<A>> = APIs[A][O];
+
+export type APIParams<A extends APIAction, O extends APIOperation<A>> =
+  DefinitionOf<A, O> extends OperationDefinition<infer P, unknown> ? InferShape<P> : never;
+
+export type APIResult<A extends APIAction, O extends APIOperation<A>> =
+  DefinitionOf<A, O> extends OperationDefinition<Shape, infer R> ? R : never;
+
+export type APIResponse<A extends APIAction, O extends APIOperation<A>> = SwiftralinoResponse<
+  APIResult<A, O>
+>;
+
+// Operations whose params are all optional can be called without arguments
+type ParamsArgs<P> =
+  Partial<P> extends P
+    ? [params?: P, options?: SwiftralinoRequestOptions]
+    : [params: P, options?: SwiftralinoRequestOptions];
+
+export type APINamespace<A extends APIAction> = {
+  [O in APIOperation<A>]: (...args: ParamsArgs<APIParams<A, O>>) => Promise<APIResponse<A, O>>;
+};
+
+export type GeneratedAPI = { [A in APIAction]: APINamespace<A> };
+
+export type APICaller = (
+  action: string,
+  operation: string,
+  params?: Record<string, unknown>,
+  options?: SwiftralinoRequestOptions
+) => Promise<SwiftralinoResponse>;
+
+// Builds `client.api.<action>.<operation>(params)` for every protocol entry
+export const createGeneratedAPI = (call: APICaller): GeneratedAPI =>
+  Object.fromEntries(
+    Object.entries(swiftralinoProtocol.apis).map(([action, operations]) => [
+      action,
+      Object.fromEntries(
+        Object.keys(operations).map((name) => [
+          name,
+          (params?: Record<string, unknown>, options?: SwiftralinoRequestOptions) =>
+            call(action, name, params, options),
+        ])
+      ),
+    ])
+  ) as unknown as GeneratedAPI;
+
+const getDefinition = (action: string, operation?: string): OperationDefinition | undefined => {
+  if (operation === undefined) {
+    return (swiftralinoProtocol.messages as Record<string, OperationDefinition>)[action];
+  }
+  const operations = (
+    swiftralinoProtocol.apis as Record<string, Record<string, OperationDefinition>>
+  )[action];
+  return operations?.[operation];
+};
+
+export const getParamsShape = (action: string, operation?: string): Shape | undefined =>
+  getDefinition(action, operation)?.params;
+
+export const getResultSchema = (action: string, operation?: string): Schema<unknown> | undefined =>
+  getDefinition(action, operation)?.result;
+
+// Unknown messages are treated as having side effects
+export const isIdempotentMessage = (message: SwiftralinoMessage): boolean => {
+  const operation = message.data?.operation;
+  if (message.type === 'system') {
+    return getDefinition(message.action)?.idempotent ?? false;
+  }
+  if (message.type !== 'api' || typeof operation !== 'string') {
+    return false;
+  }
+  return getDefinition(message.action, operation)?.idempotent ?? false;
+};
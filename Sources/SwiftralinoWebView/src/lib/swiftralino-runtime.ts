@@ -0,0 +1,34 @@
+import type { SwiftralinoTimers, SwiftralinoWebSocketConstructor } from '@/types/swiftralino';
+
+// The globals the client relies on differ between browsers, Node, Deno and
+// Bun; everything that touches them goes through here.
+
+// Wrapped, so the functions are never called on another `this` than the global
+export const defaultTimers: SwiftralinoTimers = {
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (id) => clearTimeout(id as Parameters<typeof clearTimeout>[0]),
+  setInterval: (callback, delay) => setInterval(callback, delay),
+  clearInterval: (id) => clearInterval(id as Parameters<typeof clearInterval>[0]),
+};
+
+// Undefined on Node 20 and older, which need `config.webSocket`
+export const globalWebSocket = (): SwiftralinoWebSocketConstructor | undefined =>
+  typeof WebSocket === 'undefined' ? undefined : WebSocket;
+
+// Version 4 UUIDs. crypto.randomUUID() is missing on Node 18 and, in browsers,
+// on pages served over plain HTTP from anywhere but localhost.
+export const randomId = (): string => {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  const bytes = new Uint8Array(16);
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    crypto.getRandomValues(bytes);
+  } else {
+    bytes.forEach((_, index) => (bytes[index] = Math.floor(Math.random() * 256)));
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
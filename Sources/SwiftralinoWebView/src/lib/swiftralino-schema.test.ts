@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { s } from './swiftralino-schema';
+
+describe('schema', () => {
+  it('checks primitives', () => {
+    expect(s.string().validate('a', 'value')).toEqual([]);
+    expect(s.number().validate('1', 'value')).toEqual(['value: expected number, got string']);
+    expect(s.boolean().validate(null, 'value')).toEqual(['value: expected boolean, got null']);
+    expect(s.unknown().validate(undefined, 'value')).toEqual([]);
+  });
+
+  it('checks literals', () => {
+    const kind = s.literal('file', 'directory');
+    expect(kind.validate('file', 'kind')).toEqual([]);
+    expect(kind.validate('link', 'kind')).toEqual([
+      'kind: expected "file" | "directory", got string',
+    ]);
+  });
+
+  it('reports every mismatch with its path', () => {
+    const entry = s.object({
+      name: s.string(),
+      size: s.number(),
+      tags: s.array(s.string()),
+      owner: s.nullable(s.string()),
+      note: s.optional(s.string()),
+    });
+    expect(entry.validate({ name: 'a', size: 1, tags: [], owner: null }, 'data')).toEqual([]);
+    expect(entry.validate({ name: 1, size: 1, tags: ['x', 2], owner: 3, note: 4 }, 'data')).toEqual(
+      [
+        'data.name: expected string, got number',
+        'data.tags[1]: expected string, got number',
+        'data.owner: expected string, got number',
+        'data.note: expected string, got number',
+      ]
+    );
+  });
+
+  it('lets objects carry keys the schema does not know', () => {
+    expect(s.object({ a: s.number() }).validate({ a: 1, b: 'extra' }, 'data')).toEqual([]);
+    expect(s.looseObject({}).validate([], 'data')).toEqual(['data: expected object, got array']);
+  });
+
+  it('checks every record entry', () => {
+    const counts = s.record(s.number());
+    expect(counts.validate({ a: 1, b: 2 }, 'counts')).toEqual([]);
+    expect(counts.validate({ a: 1, b: 'two' }, 'counts')).toEqual([
+      'counts.b: expected number, got string',
+    ]);
+    expect(counts.validate('nope', 'counts')).toEqual(['counts: expected object, got string']);
+  });
+});
@@ -0,0 +1,111 @@
+// Minimal runtime schema builder used by the protocol definition.
+// Every schema carries its static type for inference and can validate
+// untrusted data coming from the backend.
+
+export interface Schema<T> {
+  readonly description: string;
+  // Returns one message per mismatch, empty when the value conforms
+  validate(value: unknown, path: string): string[];
+  // Phantom field, only used for type inference
+  readonly _type?: T;
+}
+
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape = Record<string, Schema<unknown>>;
+
+type RequiredKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalSchema<unknown> ? never : K;
+}[keyof S];
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+export type InferShape<S extends Shape> = Simplify<
+  { [K in RequiredKeys<S>]: Infer<S[K]> } & {
+    [K in Exclude<keyof S, RequiredKeys<S>>]?: Infer<S[K]>;
+  }
+>;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+};
+
+const mismatch = (path: string, expected: string, value: unknown): string[] => [
+  `${path}: expected ${expected}, got ${describeValue(value)}`,
+];
+
+const createSchema = <T>(
+  description: string,
+  validate: (value: unknown, path: string) => string[]
+): Schema<T> => ({ description, validate });
+
+const primitive = <T>(type: 'string' | 'number' | 'boolean'): Schema<T> =>
+  createSchema<T>(type, (value, path) =>
+    typeof value === type ? [] : mismatch(path, type, value)
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const objectSchema = <S extends Shape, T>(shape: S): Schema<T> =>
+  createSchema<T>('object', (value, path) => {
+    if (!isRecord(value)) {
+      return mismatch(path, 'object', value);
+    }
+    // Unknown keys are allowed so the backend can add fields without breaking clients
+    return Object.entries(shape).flatMap(([key, schema]) =>
+      schema.validate(value[key], `${path}.${key}`)
+    );
+  });
+
+export const s = {
+  string: () => primitive<string>('string'),
+  number: () => primitive<number>('number'),
+  boolean: () => primitive<boolean>('boolean'),
+  unknown: () => createSchema<unknown>('unknown', () => []),
+
+  literal: <T extends string | number | boolean>(...values: T[]): Schema<T> => {
+    const description = values.map((value) => JSON.stringify(value)).join(' | ');
+    return createSchema<T>(description, (value, path) =>
+      values.includes(value as T) ? [] : mismatch(path, description, value)
+    );
+  },
+
+  array: <T>(item: Schema<T>): Schema<T[]> =>
+    createSchema<T[]>(`${item.description}[]`, (value, path) =>
+      Array.isArray(value)
+        ? value.flatMap((entry, index) => item.validate(entry, `${path}[${index}]`))
+        : mismatch(path, 'array', value)
+    ),
+
+  object: <S extends Shape>(shape: S) => objectSchema<S, InferShape<S>>(shape),
+
+  // Same runtime check as object(), but the inferred type keeps extra keys
+  looseObject: <S extends Shape>(shape: S) =>
+    objectSchema<S, InferShape<S> & { [key: string]: unknown }>(shape),
+
+  record: <T>(entry: Schema<T>): Schema<Record<string, T>> =>
+    createSchema<Record<string, T>>(`Record<string, ${entry.description}>`, (value, path) =>
+      isRecord(value)
+        ? Object.entries(value).flatMap(([key, item]) => entry.validate(item, `${path}.${key}`))
+        : mismatch(path, 'object', value)
+    ),
+
+  nullable: <T>(schema: Schema<T>): Schema<T | null> =>
+    createSchema<T | null>(`${schema.description} | null`, (value, path) =>
+      value === null ? [] : schema.validate(value, path)
+    ),
+
+  optional: <T>(schema: Schema<T>): OptionalSchema<T> => ({
+    description: `${schema.description} | undefined`,
+    optional: true,
+    validate: (value, path) => (value === undefined ? [] : schema.validate(value, path)),
+  }),
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { RequestTimeoutError } from './swiftralino-errors';
+import { REDACTED, TraceRecorder, tracesToHar } from './swiftralino-trace';
+import type { SwiftralinoMessage, SwiftralinoTrace } from '@/types/swiftralino';
+
+const message = (id: string, data: Record<string, unknown> = {}): SwiftralinoMessage => ({
+  id,
+  type: 'api',
+  action: 'filesystem',
+  data: { operation: 'readFile', ...data },
+});
+
+const reply = (id: string, data: unknown = {}) => ({
+  id,
+  type: 'response' as const,
+  action: 'filesystem',
+  data,
+});
+
+describe('TraceRecorder', () => {
+  it('keeps the most recent traces, oldest first', () => {
+    const recorder = new TraceRecorder({ bufferSize: 2 });
+    ['1', '2', '3'].forEach((id) => recorder.start(message(id)));
+    expect(recorder.getTraces().map(({ id }) => id)).toEqual(['2', '3']);
+  });
+
+  it('replaces traces as they settle', () => {
+    const recorder = new TraceRecorder({});
+    const ok = recorder.start(message('ok'));
+    const slow = recorder.start(message('slow'));
+    const before = recorder.getTraces();
+
+    const settled = recorder.succeed(ok, reply('ok'));
+    recorder.fail(slow, new RequestTimeoutError({ action: 'filesystem' }, 10));
+
+    expect(before[0]).toBe(ok);
+    expect(before[0].outcome).toBe('pending');
+    expect(recorder.getTraces()[0]).toBe(settled);
+    expect(settled).toMatchObject({ outcome: 'success', operation: 'readFile' });
+    expect(settled.duration).toEqual(expect.any(Number));
+    expect(recorder.getTraces()[1]).toMatchObject({
+      outcome: 'timeout',
+      error: { name: 'RequestTimeoutError', code: 'timeout' },
+    });
+  });
+
+  it('leaves traces out that were pushed out of the buffer before settling', () => {
+    const recorder = new TraceRecorder({ bufferSize: 1 });
+    const first = recorder.start(message('1'));
+    recorder.start(message('2'));
+    const settled = recorder.succeed(first, reply('1'));
+    expect(settled.outcome).toBe('success');
+    expect(recorder.getTraces().map(({ id }) => id)).toEqual(['2']);
+  });
+
+  it('records nothing with a zero buffer', () => {
+    const recorder = new TraceRecorder({ bufferSize: 0 });
+    let notified = 0;
+    recorder.subscribe(() => notified++);
+    recorder.succeed(recorder.start(message('1')), reply('1'));
+    expect(recorder.getTraces()).toEqual([]);
+    expect(notified).toBe(0);
+  });
+
+  it('keeps only the size of large payloads', () => {
+    const recorder = new TraceRecorder({ maxPayloadSize: 100 });
+    const trace = recorder.start(message('1', { path: 'x'.repeat(200) }));
+    const settled = recorder.succeed(trace, reply('1', { content: 'ok' }));
+    expect(settled.request).toBeNull();
+    expect(settled.requestSize).toBeGreaterThan(200);
+    expect(settled.response).toEqual(reply('1', { content: 'ok' }));
+  });
+
+  it('masks tokens and signatures', () => {
+    const recorder = new TraceRecorder({});
+    const handshake: SwiftralinoMessage = {
+      id: '1',
+      type: 'system',
+      action: 'authenticate',
+      data: { token: 'secret' },
+    };
+    const signed = {
+      ...message('2'),
+      auth: { sessionId: 'session', seq: 1, signature: 'abc' },
+    };
+    recorder.start(handshake);
+    recorder.start(signed);
+
+    const [first, second] = recorder.getTraces();
+    expect(first.request?.data).toEqual({ token: REDACTED });
+    expect(second.request?.auth).toBe(REDACTED);
+    expect(second.request?.data).toEqual(signed.data);
+    expect(JSON.stringify(tracesToHar(recorder.getTraces()))).not.toContain('secret');
+  });
+
+  it('notifies subscribers until they unsubscribe', () => {
+    const recorder = new TraceRecorder({});
+    const seen: SwiftralinoTrace[][] = [];
+    const unsubscribe = recorder.subscribe((traces) => seen.push(traces));
+    recorder.start(message('1'));
+    unsubscribe();
+    recorder.clear();
+    expect(seen).toHaveLength(1);
+    expect(recorder.getTraces()).toEqual([]);
+  });
+});
+
+describe('tracesToHar', () => {
+  it('lists one entry per trace', () => {
+    const recorder = new TraceRecorder({});
+    recorder.succeed(recorder.start(message('1')), reply('1'));
+    const har = tracesToHar(recorder.getTraces());
+    expect(har.log.entries).toHaveLength(1);
+    expect(har.log.entries[0].request.url).toBe('swiftralino://api/filesystem/readFile');
+  });
+});
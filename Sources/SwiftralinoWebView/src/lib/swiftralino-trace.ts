@@ -0,0 +1,176 @@
+import { encodeUtf8 } from './swiftralino-encoding';
+import { SwiftralinoError } from './swiftralino-errors';
+import type {
+  SwiftralinoMessage,
+  SwiftralinoResponse,
+  SwiftralinoTrace,
+  SwiftralinoTraceOutcome,
+  SwiftralinoTracingConfig,
+} from '@/types/swiftralino';
+
+const DEFAULT_BUFFER_SIZE = 200;
+const DEFAULT_MAX_PAYLOAD_SIZE = 65536;
+
+type TraceListener = (traces: SwiftralinoTrace[]) => void;
+
+const byteSize = (value: unknown): number => encodeUtf8(JSON.stringify(value) ?? '').length;
+
+// Traces end up in the inspector, exports and replays, so credentials are
+// masked wherever they appear (the handshake's token, a message's signature)
+const SECRET_KEYS = new Set(['token', 'auth', 'signature']);
+export const REDACTED = '[redacted]';
+
+const redact = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(redact) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_KEYS.has(key) ? REDACTED : redact(entry),
+      ])
+    ) as T;
+  }
+  return value;
+};
+
+const outcomeOf = (error: Error): SwiftralinoTraceOutcome => {
+  if (error instanceof SwiftralinoError && (error.code === 'timeout' || error.code === 'aborted')) {
+    return error.code;
+  }
+  return 'error';
+};
+
+// Keeps the last `bufferSize` calls. Traces are replaced, never mutated, so
+// the array handed to listeners can serve as a React snapshot.
+export class TraceRecorder {
+  private bufferSize: number;
+  private maxPayloadSize: number;
+  private traces: SwiftralinoTrace[] = [];
+  private listeners = new Set<TraceListener>();
+
+  constructor(config: SwiftralinoTracingConfig) {
+    this.bufferSize = config.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.maxPayloadSize = config.maxPayloadSize ?? DEFAULT_MAX_PAYLOAD_SIZE;
+  }
+
+  getTraces(): SwiftralinoTrace[] {
+    return this.traces;
+  }
+
+  clear(): void {
+    this.traces = [];
+    this.notify();
+  }
+
+  subscribe(listener: TraceListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  start(message: SwiftralinoMessage): SwiftralinoTrace {
+    const operation = message.data?.operation;
+    const requestSize = byteSize(message);
+    const trace: SwiftralinoTrace = {
+      id: message.id,
+      type: message.type,
+      action: message.action,
+      operation: typeof operation === 'string' ? operation : undefined,
+      startedAt: Date.now(),
+      duration: null,
+      outcome: 'pending',
+      requestSize,
+      responseSize: null,
+      request: requestSize <= this.maxPayloadSize ? redact(message) : null,
+      response: null,
+    };
+    if (this.bufferSize > 0) {
+      this.traces = [...this.traces, trace].slice(-this.bufferSize);
+      this.notify();
+    }
+    return trace;
+  }
+
+  succeed(trace: SwiftralinoTrace, response: SwiftralinoResponse): SwiftralinoTrace {
+    const responseSize = byteSize(response);
+    return this.settle(trace, {
+      outcome: 'success',
+      responseSize,
+      response: responseSize <= this.maxPayloadSize ? redact(response) : null,
+    });
+  }
+
+  fail(trace: SwiftralinoTrace, error: Error): SwiftralinoTrace {
+    return this.settle(trace, {
+      outcome: outcomeOf(error),
+      error: {
+        name: error.name,
+        code: error instanceof SwiftralinoError ? error.code : undefined,
+        message: error.message,
+      },
+    });
+  }
+
+  private settle(trace: SwiftralinoTrace, update: Partial<SwiftralinoTrace>): SwiftralinoTrace {
+    const settled = { ...trace, ...update, duration: Date.now() - trace.startedAt };
+    const index = this.traces.indexOf(trace);
+    // Traces pushed out of the buffer meanwhile stay out
+    if (index !== -1) {
+      this.traces = this.traces.map((entry, position) => (position === index ? settled : entry));
+      this.notify();
+    }
+    return settled;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.traces));
+  }
+}
+
+const endpointOf = (trace: SwiftralinoTrace) =>
+  trace.operation ? `${trace.action}/${trace.operation}` : trace.action;
+
+// HAR 1.2 shaped, so the traces open in tools that read browser network logs.
+// Each call is a `WS` request to swiftralino://<type>/<action>/<operation>.
+export const tracesToHar = (traces: SwiftralinoTrace[]) => ({
+  log: {
+    version: '1.2',
+    creator: { name: 'Swiftralino', version: '0.1.0' },
+    entries: traces.map((trace) => ({
+      startedDateTime: new Date(trace.startedAt).toISOString(),
+      time: trace.duration ?? 0,
+      request: {
+        method: 'WS',
+        url: `swiftralino://${trace.type}/${endpointOf(trace)}`,
+        httpVersion: 'swiftralino',
+        headers: [{ name: 'X-Request-Id', value: trace.id }],
+        queryString: [],
+        cookies: [],
+        headersSize: -1,
+        bodySize: trace.requestSize,
+        postData: {
+          mimeType: 'application/json',
+          text: trace.request ? JSON.stringify(trace.request) : '',
+        },
+      },
+      response: {
+        status: trace.outcome === 'success' ? 200 : trace.outcome === 'pending' ? 0 : 500,
+        statusText: trace.error?.message ?? trace.outcome,
+        httpVersion: 'swiftralino',
+        headers: [],
+        cookies: [],
+        content: {
+          size: trace.responseSize ?? 0,
+          mimeType: 'application/json',
+          text: trace.response ? JSON.stringify(trace.response) : '',
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: trace.responseSize ?? -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: trace.duration ?? 0, receive: 0 },
+    })),
+  },
+});
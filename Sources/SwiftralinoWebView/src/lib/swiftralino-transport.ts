@@ -0,0 +1,108 @@
+import { TransportError } from './swiftralino-errors';
+import { globalWebSocket } from './swiftralino-runtime';
+import type {
+  SwiftralinoConfig,
+  SwiftralinoTransport,
+  SwiftralinoTransportHandlers,
+  SwiftralinoWebSocketConstructor,
+} from '@/types/swiftralino';
+
+// WebSocket.OPEN, which not every implementation exposes as a static
+const OPEN = 1;
+
+export class WebSocketTransport implements SwiftralinoTransport {
+  private url: string;
+  private webSocket: SwiftralinoWebSocketConstructor | undefined;
+  private ws: WebSocket | null = null;
+
+  constructor(url: string, webSocket = globalWebSocket()) {
+    this.url = url;
+    this.webSocket = webSocket;
+  }
+
+  open(handlers: SwiftralinoTransportHandlers): Promise<void> {
+    const { webSocket } = this;
+    if (!webSocket) {
+      return Promise.reject(
+        new TransportError('No WebSocket implementation available, set config.webSocket', {
+          action: 'connect',
+        })
+      );
+    }
+    return new Promise((resolve, reject) => {
+      const ws = new webSocket(this.url);
+      this.ws = ws;
+
+      ws.onopen = () => resolve();
+      ws.onmessage = (event) => handlers.onMessage(event.data);
+      ws.onclose = () => handlers.onClose();
+      ws.onerror = (error) => {
+        handlers.onError(error);
+        // No-op once the socket has opened
+        reject(new TransportError('WebSocket connection failed', { action: 'connect' }));
+      };
+    });
+  }
+
+  send(frame: string): void {
+    if (!this.ws || !this.isOpen()) {
+      throw new TransportError('WebSocket is not ready', { action: 'send' });
+    }
+    this.ws.send(frame);
+  }
+
+  close(): void {
+    this.ws?.close();
+  }
+
+  isOpen(): boolean {
+    return this.ws?.readyState === OPEN;
+  }
+}
+
+// Loads the in-memory backend on the first open, so it stays out of bundles
+// that never select `transport: 'mock'`
+export class LazyMockTransport implements SwiftralinoTransport {
+  private url: string;
+  private transport: SwiftralinoTransport | null = null;
+  private closed = false;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async open(handlers: SwiftralinoTransportHandlers): Promise<void> {
+    const { MockTransport, getDefaultMockBackend } = await import('./swiftralino-mock-backend');
+    if (this.closed) {
+      throw new TransportError('Connection closed while opening', { action: 'connect' });
+    }
+    this.transport = new MockTransport(getDefaultMockBackend(this.url));
+    return this.transport.open(handlers);
+  }
+
+  send(frame: string): void {
+    if (!this.transport) {
+      throw new TransportError('Mock backend is not ready', { action: 'send' });
+    }
+    this.transport.send(frame);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.transport?.close();
+  }
+
+  isOpen(): boolean {
+    return this.transport?.isOpen() ?? false;
+  }
+}
+
+export const createTransport = (config: SwiftralinoConfig): SwiftralinoTransport => {
+  const { transport = 'websocket' } = config;
+  if (typeof transport === 'function') {
+    return transport(config);
+  }
+  return transport === 'mock'
+    ? new LazyMockTransport(config.wsUrl)
+    : new WebSocketTransport(config.wsUrl, config.webSocket ?? globalWebSocket());
+};
@@ -0,0 +1,156 @@
+import { isWatchedPath } from './swiftralino-files';
+import { defaultTimers } from './swiftralino-runtime';
+import type {
+  FileChangeEvent,
+  FileWatchOptions,
+  SwiftralinoClient,
+  SwiftralinoFileWatch,
+  SwiftralinoTimers,
+} from '@/types/swiftralino';
+
+type ChangeListener = (events: FileChangeEvent[]) => void;
+
+const DEFAULT_DEBOUNCE = 100;
+
+// Folds a new event into the one pending for the same path
+const coalesce = (
+  previous: FileChangeEvent | undefined,
+  next: FileChangeEvent
+): FileChangeEvent | null => {
+  if (previous?.kind === 'created') {
+    // Created then deleted within the window: nothing to report
+    if (next.kind === 'deleted') {
+      return null;
+    }
+    if (next.kind === 'modified') {
+      return previous;
+    }
+  }
+  return next;
+};
+
+export class SwiftralinoFileWatcher implements SwiftralinoFileWatch {
+  readonly topic = 'fs:changed';
+  readonly path: string;
+  private client: SwiftralinoClient;
+  private options: FileWatchOptions;
+  private watchIdValue: string | undefined;
+  private listeners = new Set<ChangeListener>();
+  private pendingEvents = new Map<string, FileChangeEvent>();
+  private timers: SwiftralinoTimers;
+  private flushTimer: unknown = null;
+  private active = true;
+  private removeEventListeners: Array<() => void>;
+
+  constructor(
+    client: SwiftralinoClient,
+    path: string,
+    options: FileWatchOptions = {},
+    timers: SwiftralinoTimers = defaultTimers
+  ) {
+    this.client = client;
+    this.path = path;
+    this.options = options;
+    this.timers = timers;
+
+    // Backend watches end with the connection, so register again after a reconnect
+    const handleConnected = () => {
+      this.register().catch(() => {
+        // Without a watchId events are still matched by path
+        this.watchIdValue = undefined;
+      });
+    };
+    client.addEventListener('connected', handleConnected);
+    this.removeEventListeners = [
+      client.on('fs:changed', (event) => this.handleEvent(event)),
+      () => client.removeEventListener('connected', handleConnected),
+    ];
+  }
+
+  get watchId(): string | undefined {
+    return this.watchIdValue;
+  }
+
+  async start(): Promise<void> {
+    try {
+      await this.register();
+    } catch (error) {
+      this.dispose();
+      throw error;
+    }
+  }
+
+  onChange(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  async unsubscribe(): Promise<void> {
+    if (!this.active) {
+      return;
+    }
+    const { watchIdValue } = this;
+    this.dispose();
+    if (watchIdValue && this.client.isConnected()) {
+      await this.client.call('filesystem', 'unwatch', { watchId: watchIdValue });
+    }
+  }
+
+  private async register(): Promise<void> {
+    const { recursive, glob } = this.options;
+    const response = await this.client.call('filesystem', 'watch', {
+      path: this.path,
+      recursive,
+      glob,
+    });
+    this.watchIdValue = response.data?.watchId;
+  }
+
+  private matches(event: FileChangeEvent): boolean {
+    // Backends that tag events are trusted, untagged ones are filtered here
+    if (event.watchId !== undefined) {
+      return event.watchId === this.watchIdValue;
+    }
+    return [event.path, event.oldPath].some(
+      (path) => path !== undefined && isWatchedPath(path, this.path, this.options)
+    );
+  }
+
+  private handleEvent(event: FileChangeEvent): void {
+    if (!this.active || !this.matches(event)) {
+      return;
+    }
+    const merged = coalesce(this.pendingEvents.get(event.path), event);
+    if (merged) {
+      this.pendingEvents.set(event.path, merged);
+    } else {
+      this.pendingEvents.delete(event.path);
+    }
+
+    const debounce = this.options.debounce ?? DEFAULT_DEBOUNCE;
+    if (debounce <= 0) {
+      this.flush();
+    } else if (this.flushTimer === null) {
+      this.flushTimer = this.timers.setTimeout(() => this.flush(), debounce);
+    }
+  }
+
+  private flush(): void {
+    this.flushTimer = null;
+    const events = [...this.pendingEvents.values()];
+    this.pendingEvents.clear();
+    if (events.length > 0) {
+      this.listeners.forEach((listener) => listener(events));
+    }
+  }
+
+  private dispose(): void {
+    this.active = false;
+    if (this.flushTimer !== null) {
+      this.timers.clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pendingEvents.clear();
+    this.removeEventListeners.forEach((remove) => remove());
+  }
+}
@@ -0,0 +1,149 @@
+import { mkdir, mkdtemp, realpath, rm, symlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { signMessage } from '../lib/swiftralino-auth';
+import { BridgeServer } from './bridge';
+import type { SwiftralinoMessage, SwiftralinoResponse } from '@/types/swiftralino';
+
+const TOKEN = 'bridge-token';
+
+// Connects to the bridge and collects everything it answers, welcome aside
+const connect = (server: BridgeServer) => {
+  const replies: SwiftralinoResponse[] = [];
+  const connection = server.connect((frame) => {
+    const message = JSON.parse(frame) as SwiftralinoResponse;
+    if (message.action !== 'welcome') {
+      replies.push(message);
+    }
+  });
+  const send = async (message: unknown) => {
+    await server.receive(
+      connection,
+      typeof message === 'string' ? message : JSON.stringify(message)
+    );
+    return replies[replies.length - 1];
+  };
+  return { connection, replies, send };
+};
+
+const ping = (id: string): SwiftralinoMessage => ({ id, type: 'system', action: 'ping' });
+
+describe('BridgeServer', () => {
+  it('answers frames that are not messages', async () => {
+    const { send } = connect(new BridgeServer({ platform: 'test' }));
+    await expect(send('not json')).resolves.toMatchObject({
+      type: 'error',
+      data: { message: 'Invalid message format' },
+    });
+    await expect(send({ id: 'x1', type: 'api' })).resolves.toMatchObject({
+      id: 'x1',
+      type: 'error',
+    });
+  });
+
+  it('answers every batch member in order', async () => {
+    const { send } = connect(new BridgeServer({ platform: 'test' }));
+    const reply = await send({
+      id: 'b1',
+      type: 'system',
+      action: 'batch',
+      data: { messages: [ping('p1'), 'junk', ping('p2')] },
+    });
+    const { responses } = reply.data as { responses: SwiftralinoResponse[] };
+    expect(responses.map(({ type }) => type)).toEqual(['response', 'error', 'response']);
+    expect([responses[0].id, responses[2].id]).toEqual(['p1', 'p2']);
+  });
+
+  it('checks batch signatures before frames that arrive meanwhile', async () => {
+    const server = new BridgeServer({ platform: 'test', authToken: TOKEN });
+    const { connection, replies, send } = connect(server);
+    const handshake = await send({
+      id: 'a1',
+      type: 'system',
+      action: 'authenticate',
+      data: { token: TOKEN },
+    });
+    const { sessionId } = handshake.data as { sessionId: string };
+    const sign = (message: SwiftralinoMessage, seq: number) =>
+      signMessage(message, TOKEN, sessionId, seq);
+
+    const batch = sign(
+      {
+        id: 'b1',
+        type: 'system',
+        action: 'batch',
+        data: { messages: [sign(ping('p1'), 1), sign(ping('p2'), 2)] },
+      },
+      0
+    );
+    await Promise.all([
+      server.receive(connection, JSON.stringify(batch)),
+      server.receive(connection, JSON.stringify(sign(ping('p3'), 3))),
+    ]);
+
+    const { responses } = replies.find(({ id }) => id === 'b1')!.data as {
+      responses: SwiftralinoResponse[];
+    };
+    expect(responses.map(({ type }) => type)).toEqual(['response', 'response']);
+    expect(replies.find(({ id }) => id === 'p3')?.type).toBe('response');
+    await expect(send(sign(ping('p4'), 2))).resolves.toMatchObject({
+      type: 'error',
+      data: { message: 'Authentication failed: invalid signature' },
+    });
+  });
+
+  it('denies every permission unless granted', async () => {
+    const { send } = connect(new BridgeServer({ platform: 'test' }));
+    await expect(
+      send({ id: 'r1', type: 'api', action: 'system', data: { operation: 'info' } })
+    ).resolves.toMatchObject({
+      type: 'error',
+      data: { message: expect.stringContaining('system') },
+    });
+
+    const granted = connect(
+      new BridgeServer({ platform: 'test', permissions: { granted: ['system'] } })
+    );
+    await expect(
+      granted.send({ id: 'r2', type: 'api', action: 'system', data: { operation: 'info' } })
+    ).resolves.toMatchObject({ type: 'response' });
+  });
+
+  it('checks allowed paths with symlinks resolved', async () => {
+    const root = await realpath(await mkdtemp(join(tmpdir(), 'swiftralino-')));
+    try {
+      const allowed = join(root, 'allowed');
+      await mkdir(allowed);
+      await writeFile(join(root, 'secret.txt'), 'secret');
+      await writeFile(join(allowed, 'note.txt'), 'note');
+      await symlink(root, join(allowed, 'escape'));
+      const { send } = connect(
+        new BridgeServer({
+          platform: 'test',
+          permissions: { granted: ['filesystem', 'process'], paths: [allowed] },
+        })
+      );
+      const read = (id: string, path: string) =>
+        send({ id, type: 'api', action: 'filesystem', data: { operation: 'readFile', path } });
+
+      await expect(read('r1', join(allowed, 'note.txt'))).resolves.toMatchObject({
+        data: { content: 'note' },
+      });
+      await expect(read('r2', join(allowed, 'escape', 'secret.txt'))).resolves.toMatchObject({
+        type: 'error',
+        data: { message: expect.stringContaining(join(root, 'secret.txt')) },
+      });
+      await expect(
+        send({
+          id: 'r3',
+          type: 'api',
+          action: 'process',
+          data: { operation: 'execute', command: 'pwd', cwd: root },
+        })
+      ).resolves.toMatchObject({ type: 'error', data: { message: expect.stringContaining(root) } });
+    } finally {
+      await rm(root, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,244 @@
+import { randomUUID } from 'node:crypto';
+import { hostname, release, type, uptime } from 'node:os';
+import process from 'node:process';
+import {
+  BackendAPIError,
+  checkMessageAuth,
+  errorResponse,
+  invalidMessageResponse,
+  isMessage,
+  response,
+  validateParams,
+} from '../lib/swiftralino-backend';
+import {
+  describePermissionRequest,
+  findPermissionViolation,
+  resolvePermissionPaths,
+} from '../lib/swiftralino-permissions';
+import { type SystemParams, PROTOCOL_VERSION } from '../lib/swiftralino-protocol';
+import type { BridgeConnection, ServerOperations } from './connection';
+import { describeSystemError, filesystemOperations, realServerPath } from './filesystem';
+import { processOperations } from './process';
+import type {
+  CapabilityManifest,
+  SwiftralinoMessage,
+  SwiftralinoResponse,
+} from '@/types/swiftralino';
+
+// Runtime-agnostic implementation of the /bridge protocol on top of the
+// node: modules, which Node, Deno and Bun all provide. The adapters next to
+// this file only accept WebSocket connections and hand their frames over.
+
+export interface BridgeServerOptions {
+  // Reported by `version` and `describe`, e.g. `node`
+  platform: string;
+  // Require the bridge handshake with this token (default: no auth)
+  authToken?: string;
+  // Capabilities granted to the app (default: nothing granted)
+  permissions?: CapabilityManifest;
+}
+
+type ServerHandler = (
+  params: Record<string, unknown>,
+  connection: BridgeConnection
+) => Promise<unknown>;
+
+const VERSION = '0.1.0';
+
+export class BridgeServer {
+  private platform: string;
+  private authToken: string | undefined;
+  private manifest: CapabilityManifest;
+  private connections = new Set<BridgeConnection>();
+
+  private readonly operations: ServerOperations = {
+    filesystem: filesystemOperations,
+    process: processOperations,
+    system: {
+      info: async () => ({
+        operatingSystem: `${type()} ${release()}`,
+        hostName: hostname(),
+        processIdentifier: process.pid,
+        uptime: uptime(),
+      }),
+    },
+  };
+
+  constructor(options: BridgeServerOptions) {
+    this.platform = options.platform;
+    this.authToken = options.authToken;
+    this.manifest = options.permissions ?? { granted: [] };
+  }
+
+  connect(send: BridgeConnection['send']): BridgeConnection {
+    const connection: BridgeConnection = {
+      send,
+      closed: false,
+      pending: new Set(),
+      watches: new Map(),
+      processes: new Map(),
+    };
+    this.connections.add(connection);
+    // Like WebServer.swift, greet every new client
+    send(
+      JSON.stringify({
+        id: randomUUID(),
+        type: 'system',
+        action: 'welcome',
+        data: { message: 'Connected to Swiftralino backend' },
+      })
+    );
+    return connection;
+  }
+
+  // Watches and processes end with the connection that started them
+  disconnect(connection: BridgeConnection): void {
+    connection.closed = true;
+    connection.pending.clear();
+    connection.watches.forEach((watcher) => watcher.close());
+    connection.watches.clear();
+    connection.processes.forEach((child) => child.kill());
+    connection.processes.clear();
+    this.connections.delete(connection);
+  }
+
+  get connectionCount(): number {
+    return this.connections.size;
+  }
+
+  async receive(connection: BridgeConnection, frame: string): Promise<void> {
+    let message: unknown;
+    try {
+      message = JSON.parse(frame);
+    } catch (_error) {
+      message = undefined;
+    }
+    if (!isMessage(message)) {
+      connection.send(JSON.stringify(invalidMessageResponse(message)));
+      return;
+    }
+
+    connection.pending.add(message.id);
+    const authError = checkMessageAuth(message, this.authToken, connection.session);
+    const result = await this.handle(message, connection, authError);
+    if (connection.pending.delete(message.id) && !connection.closed) {
+      connection.send(JSON.stringify(result));
+    }
+  }
+
+  // `authError` comes from checkMessageAuth, which the caller runs before
+  // anything else of this connection gets to advance the session
+  private async handle(
+    message: SwiftralinoMessage,
+    connection: BridgeConnection,
+    authError: string | null
+  ): Promise<SwiftralinoResponse> {
+    if (authError) {
+      return errorResponse(message, authError);
+    }
+    switch (message.type) {
+      case 'api':
+        return this.handleAPICall(message, connection);
+      case 'system':
+        return this.handleSystemMessage(message, connection);
+      case 'event':
+        return response(message, 'event_received', { original_action: message.action });
+      default:
+        return errorResponse(message, `Unsupported message type: ${message.type}`);
+    }
+  }
+
+  private async handleAPICall(message: SwiftralinoMessage, connection: BridgeConnection) {
+    const operations = (
+      this.operations as Record<string, Record<string, ServerHandler> | undefined>
+    )[message.action];
+    if (!operations) {
+      return errorResponse(message, `Unknown API action: ${message.action}`);
+    }
+
+    const { operation, ...params } = message.data ?? {};
+    try {
+      if (typeof operation !== 'string') {
+        throw new BackendAPIError('Missing required parameter: operation');
+      }
+      const handler = operations[operation];
+      if (!handler) {
+        throw new BackendAPIError(`Unsupported operation: ${operation}`);
+      }
+      validateParams(message.action, operation, params);
+      // On real paths, so symlinks cannot lead out of the allow-list
+      const real = await resolvePermissionPaths(this.manifest, params, realServerPath);
+      const violation = findPermissionViolation(
+        real.manifest,
+        message.action,
+        operation,
+        real.params
+      );
+      if (violation) {
+        throw new BackendAPIError(describePermissionRequest(violation));
+      }
+      return response(message, message.action, await handler(params, connection));
+    } catch (error) {
+      return errorResponse(message, `API execution failed: ${describeSystemError(error)}`);
+    }
+  }
+
+  private async handleSystemMessage(message: SwiftralinoMessage, connection: BridgeConnection) {
+    switch (message.action) {
+      case 'ping':
+        return response(message, 'pong', { timestamp: Date.now() / 1000 });
+      case 'version':
+        return response(message, 'version', { version: VERSION, platform: this.platform });
+      case 'cancel': {
+        const requestId = String(message.data?.requestId);
+        return response(message, 'cancel', { cancelled: connection.pending.delete(requestId) });
+      }
+      case 'authenticate': {
+        const sessionId = randomUUID();
+        connection.session = { sessionId, lastSeq: 0 };
+        return response(message, 'authenticate', { sessionId });
+      }
+      case 'batch': {
+        const { messages } = (message.data ?? {}) as Partial<SystemParams<'batch'>>;
+        if (!Array.isArray(messages)) {
+          return errorResponse(message, 'Invalid parameters: messages must be an array');
+        }
+        // Signatures are checked in order before any member runs: frames
+        // arriving while members are awaited advance the session's seq
+        const members = (messages as unknown[]).map((member) =>
+          isMessage(member)
+            ? { member, authError: checkMessageAuth(member, this.authToken, connection.session) }
+            : { member, authError: null }
+        );
+        // In order, since later members may depend on earlier ones
+        const responses: SwiftralinoResponse[] = [];
+        for (const { member, authError } of members) {
+          responses.push(
+            isMessage(member)
+              ? await this.handle(member, connection, authError)
+              : invalidMessageResponse(member)
+          );
+        }
+        return response(message, 'batch', { responses });
+      }
+      case 'describe':
+        return response(message, 'describe', {
+          protocolVersion: PROTOCOL_VERSION,
+          version: VERSION,
+          platform: this.platform,
+          apis: Object.fromEntries(
+            Object.entries(this.operations).map(([action, operations]) => [
+              action,
+              Object.keys(operations),
+            ])
+          ),
+          plugins: [],
+        });
+      // Allow-lists come from the options; there is no native prompt to extend them
+      case 'capabilities':
+        return response(message, 'capabilities', this.manifest);
+      default:
+        return errorResponse(message, `Unknown system action: ${message.action}`);
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import process from 'node:process';
+import { BridgeServer } from './bridge';
+import { describeGrants, isAllowedOrigin, log, readServerConfig } from './config';
+import type { BridgeConnection } from './connection';
+import { handleHttpRequest } from './http';
+
+// `npm run dev:bun`
+
+// The parts of the Bun global used here, so type-checking needs no bun-types
+interface BunWebSocket {
+  data: { connection: BridgeConnection | null };
+  send(data: string): void;
+}
+
+interface BunServer {
+  upgrade(request: Request, options: { data: BunWebSocket['data'] }): boolean;
+}
+
+interface BunNamespace {
+  serve(options: {
+    hostname: string;
+    port: number;
+    fetch(request: Request, server: BunServer): Promise<Response | undefined>;
+    websocket: {
+      open(socket: BunWebSocket): void;
+      message(socket: BunWebSocket, message: string | Uint8Array): void;
+      close(socket: BunWebSocket): void;
+    };
+  }): unknown;
+}
+
+declare const Bun: BunNamespace;
+
+const config = readServerConfig(process.env, 'bun', process.argv.slice(2));
+const bridge = new BridgeServer(config.bridge);
+
+Bun.serve({
+  hostname: config.host,
+  port: config.port,
+  fetch: async (request, server) => {
+    const { pathname } = new URL(request.url);
+    const origin = request.headers.get('origin');
+    if (
+      pathname === '/bridge' &&
+      !isAllowedOrigin(origin, request.headers.get('host'), config.allowedOrigins)
+    ) {
+      log(`🚫 Refused WebSocket from ${origin}`);
+      return new Response('Forbidden', { status: 403 });
+    }
+    // Bun answers upgraded requests itself
+    if (pathname === '/bridge' && server.upgrade(request, { data: { connection: null } })) {
+      return undefined;
+    }
+    const { status, contentType, body } = await handleHttpRequest(config.publicDir, pathname);
+    return new Response(body, { status, headers: { 'Content-Type': contentType } });
+  },
+  websocket: {
+    open: (socket) => {
+      socket.data.connection = bridge.connect((frame) => socket.send(frame));
+      log(`🔌 WebSocket client connected (total: ${bridge.connectionCount})`);
+    },
+    message: (socket, message) => {
+      const { connection } = socket.data;
+      if (connection) {
+        void bridge
+          .receive(
+            connection,
+            typeof message === 'string' ? message : new TextDecoder().decode(message)
+          )
+          .catch((error) => log(`❌ Bridge message failed: ${error}`));
+      }
+    },
+    close: (socket) => {
+      if (socket.data.connection) {
+        bridge.disconnect(socket.data.connection);
+      }
+      log(`🔌 WebSocket client disconnected (total: ${bridge.connectionCount})`);
+    },
+  },
+});
+
+log(`📡 Swiftralino bridge (bun) listening on ws://${config.host}:${config.port}/bridge`);
+log(describeGrants(config.bridge));
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { isAllowedOrigin, readServerConfig } from './config';
+
+describe('readServerConfig', () => {
+  it('grants nothing by default', () => {
+    const config = readServerConfig({}, 'node');
+    expect(config.bridge.permissions).toEqual({
+      granted: [],
+      paths: undefined,
+      commands: undefined,
+    });
+    expect(config.port).toBe(8080);
+  });
+
+  it('grants everything with --allow-all', () => {
+    const config = readServerConfig({}, 'node', ['--allow-all']);
+    expect(config.bridge.permissions?.granted).toContain('process');
+  });
+
+  it('reads grants and allow-lists from the environment', () => {
+    const config = readServerConfig(
+      {
+        SWIFTRALINO_PERMISSIONS: 'filesystem, process',
+        SWIFTRALINO_PATHS: '/srv,/tmp/*.log',
+        SWIFTRALINO_COMMANDS: 'ls',
+        SWIFTRALINO_TOKEN: 'secret',
+      },
+      'node'
+    );
+    expect(config.bridge).toMatchObject({
+      authToken: 'secret',
+      permissions: {
+        granted: ['filesystem', 'process'],
+        paths: ['/srv', '/tmp/*.log'],
+        commands: ['ls'],
+      },
+    });
+  });
+
+  it('rejects unknown permissions', () => {
+    expect(() => readServerConfig({ SWIFTRALINO_PERMISSIONS: 'everything' }, 'node')).toThrow(
+      'Unknown permission in SWIFTRALINO_PERMISSIONS: everything'
+    );
+  });
+});
+
+describe('isAllowedOrigin', () => {
+  const allowed = ['http://localhost:3000'];
+
+  it('admits listed origins, the server itself and clients without one', () => {
+    expect(isAllowedOrigin('http://localhost:3000', '127.0.0.1:8080', allowed)).toBe(true);
+    expect(isAllowedOrigin('http://127.0.0.1:8080', '127.0.0.1:8080', allowed)).toBe(true);
+    expect(isAllowedOrigin(undefined, '127.0.0.1:8080', allowed)).toBe(true);
+  });
+
+  it('refuses other pages', () => {
+    expect(isAllowedOrigin('https://evil.example', '127.0.0.1:8080', allowed)).toBe(false);
+    expect(isAllowedOrigin('null', '127.0.0.1:8080', allowed)).toBe(false);
+  });
+});
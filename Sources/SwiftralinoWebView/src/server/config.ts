@@ -0,0 +1,96 @@
+import { fileURLToPath } from 'node:url';
+import { PERMISSION_DESCRIPTIONS } from '../lib/swiftralino-permissions';
+import type { BridgeServerOptions } from './bridge';
+import type { PluginPermission } from '@/types/swiftralino';
+
+// Settings shared by the runtime adapters, read from SWIFTRALINO_* variables
+// and the `--allow-all` flag. Defaults match the Swift server, so the
+// frontend's default VITE_WS_URL works, but grant nothing.
+
+export interface ServerConfig {
+  host: string;
+  port: number;
+  // Served over HTTP next to /bridge, like the Swift server's Public directory
+  publicDir: string;
+  // Pages that may open /bridge besides the server's own
+  allowedOrigins: string[];
+  bridge: BridgeServerOptions;
+}
+
+const DEFAULT_PUBLIC_DIR = fileURLToPath(new URL('../../../../Public', import.meta.url));
+
+// The Vite dev server, see vite.config.ts
+const DEFAULT_ALLOWED_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+const ALL_PERMISSIONS = Object.keys(PERMISSION_DESCRIPTIONS) as PluginPermission[];
+
+const splitList = (value: string | undefined): string[] | undefined =>
+  value
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+// SWIFTRALINO_PERMISSIONS=filesystem,system grants those; unknown names are an error
+const readPermissions = (value: string | undefined): PluginPermission[] =>
+  (splitList(value) ?? []).map((name) => {
+    if (!(ALL_PERMISSIONS as string[]).includes(name)) {
+      throw new Error(
+        `Unknown permission in SWIFTRALINO_PERMISSIONS: ${name} (one of ${ALL_PERMISSIONS.join(', ')})`
+      );
+    }
+    return name as PluginPermission;
+  });
+
+export const readServerConfig = (
+  env: Record<string, string | undefined>,
+  platform: string,
+  args: string[] = []
+): ServerConfig => {
+  const allowAll = args.includes('--allow-all') || env.SWIFTRALINO_ALLOW_ALL === '1';
+  return {
+    host: env.SWIFTRALINO_HOST || '127.0.0.1',
+    port: Number(env.SWIFTRALINO_PORT) || 8080,
+    publicDir: env.SWIFTRALINO_PUBLIC_DIR || DEFAULT_PUBLIC_DIR,
+    allowedOrigins: splitList(env.SWIFTRALINO_ALLOWED_ORIGINS) ?? DEFAULT_ALLOWED_ORIGINS,
+    bridge: {
+      platform,
+      // Requires the bridge handshake, see swiftralino-auth.ts
+      authToken: env.SWIFTRALINO_TOKEN || undefined,
+      permissions: {
+        granted: allowAll ? [...ALL_PERMISSIONS] : readPermissions(env.SWIFTRALINO_PERMISSIONS),
+        paths: splitList(env.SWIFTRALINO_PATHS),
+        commands: splitList(env.SWIFTRALINO_COMMANDS),
+      },
+    },
+  };
+};
+
+export const describeGrants = ({ permissions }: BridgeServerOptions): string =>
+  permissions?.granted.length
+    ? `🔓 Granted: ${permissions.granted.join(', ')}`
+    : '🔒 Nothing granted; pass --allow-all or set SWIFTRALINO_PERMISSIONS';
+
+// Browsers always send Origin with a WebSocket handshake; other clients, like
+// the CLI, send none and are left to the token
+export const isAllowedOrigin = (
+  origin: string | null | undefined,
+  host: string | null | undefined,
+  allowedOrigins: string[]
+): boolean => {
+  if (!origin) {
+    return true;
+  }
+  if (allowedOrigins.includes(origin)) {
+    return true;
+  }
+  try {
+    return new URL(origin).host === host;
+  } catch (_error) {
+    return false;
+  }
+};
+
+export const log = (message: string): void => {
+  // eslint-disable-next-line no-console
+  console.log(message);
+};
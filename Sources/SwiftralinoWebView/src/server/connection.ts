@@ -0,0 +1,38 @@
+import type { ChildProcess } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import type { FSWatcher } from 'node:fs';
+import type { BackendSession } from '../lib/swiftralino-backend';
+import type { APIAction, APIOperation, APIParams, APIResult } from '../lib/swiftralino-protocol';
+import type { SwiftralinoServerEvents } from '@/types/swiftralino';
+
+// A WebSocket client of the bridge, whatever runtime accepted it
+export interface BridgeConnection {
+  send(frame: string): void;
+  closed: boolean;
+  // Requests being handled; `cancel` removes them, dropping their response
+  pending: Set<string>;
+  watches: Map<string, FSWatcher>;
+  processes: Map<string, ChildProcess>;
+  session?: BackendSession;
+}
+
+export type ServerOperations = {
+  [A in APIAction]?: {
+    [O in APIOperation<A>]?: (
+      params: APIParams<A, O>,
+      connection: BridgeConnection
+    ) => Promise<APIResult<A, O>>;
+  };
+};
+
+export const emitEvent = <K extends keyof SwiftralinoServerEvents>(
+  connection: BridgeConnection,
+  topic: K,
+  payload: SwiftralinoServerEvents[K]
+): void => {
+  if (!connection.closed) {
+    connection.send(
+      JSON.stringify({ id: randomUUID(), type: 'event', action: topic, data: payload })
+    );
+  }
+};
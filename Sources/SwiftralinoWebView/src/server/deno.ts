@@ -0,0 +1,76 @@
+import process from 'node:process';
+import { BridgeServer } from './bridge';
+import { describeGrants, isAllowedOrigin, log, readServerConfig } from './config';
+import type { BridgeConnection } from './connection';
+import { handleHttpRequest } from './http';
+
+// `npm run dev:deno`. deno.json maps the `@/` imports and enables the
+// extensionless ones the rest of src uses.
+
+// The parts of the Deno namespace used here, which has no types on npm
+interface DenoWebSocket {
+  send(data: string): void;
+  onopen: (() => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: (() => void) | null;
+}
+
+interface DenoNamespace {
+  serve(
+    options: { hostname: string; port: number; onListen?: () => void },
+    handler: (request: Request) => Response | Promise<Response>
+  ): unknown;
+  upgradeWebSocket(request: Request): { socket: DenoWebSocket; response: Response };
+}
+
+declare const Deno: DenoNamespace;
+
+const config = readServerConfig(process.env, 'deno', process.argv.slice(2));
+const bridge = new BridgeServer(config.bridge);
+
+const acceptBridge = (request: Request): Response => {
+  const { socket, response } = Deno.upgradeWebSocket(request);
+  let connection: BridgeConnection | null = null;
+  socket.onopen = () => {
+    connection = bridge.connect((frame) => socket.send(frame));
+    log(`🔌 WebSocket client connected (total: ${bridge.connectionCount})`);
+  };
+  socket.onmessage = (event) => {
+    if (connection) {
+      void bridge
+        .receive(connection, String(event.data))
+        .catch((error) => log(`❌ Bridge message failed: ${error}`));
+    }
+  };
+  socket.onclose = () => {
+    if (connection) {
+      bridge.disconnect(connection);
+    }
+    log(`🔌 WebSocket client disconnected (total: ${bridge.connectionCount})`);
+  };
+  return response;
+};
+
+Deno.serve(
+  {
+    hostname: config.host,
+    port: config.port,
+    onListen: () => {
+      log(`📡 Swiftralino bridge (deno) listening on ws://${config.host}:${config.port}/bridge`);
+      log(describeGrants(config.bridge));
+    },
+  },
+  async (request) => {
+    const { pathname } = new URL(request.url);
+    if (pathname === '/bridge' && request.headers.get('upgrade')?.toLowerCase() === 'websocket') {
+      const origin = request.headers.get('origin');
+      if (!isAllowedOrigin(origin, request.headers.get('host'), config.allowedOrigins)) {
+        log(`🚫 Refused WebSocket from ${origin}`);
+        return new Response('Forbidden', { status: 403 });
+      }
+      return acceptBridge(request);
+    }
+    const { status, contentType, body } = await handleHttpRequest(config.publicDir, pathname);
+    return new Response(body, { status, headers: { 'Content-Type': contentType } });
+  }
+);
@@ -0,0 +1,257 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream, watch } from 'node:fs';
+import {
+  appendFile,
+  cp,
+  lstat,
+  mkdir,
+  open,
+  readFile,
+  readdir,
+  realpath,
+  rename,
+  rm,
+  rmdir,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { basename, dirname, join, resolve } from 'node:path';
+import { Buffer } from 'node:buffer';
+import { BackendAPIError, permissionString } from '../lib/swiftralino-backend';
+import { isWatchedPath, isWithinPath } from '../lib/swiftralino-files';
+import { type BridgeConnection, type ServerOperations, emitEvent } from './connection';
+import type { SwiftralinoFileEncoding, SwiftralinoFileEntry } from '@/types/swiftralino';
+
+// `~` and relative paths resolve against the home directory, like in the Swift APIs
+export const resolveServerPath = (path: string): string =>
+  resolve(homedir(), path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path);
+
+// With every symlink resolved. Paths that do not exist yet resolve through
+// their nearest existing ancestor, so a new file's real location is known too.
+export const realServerPath = async (path: string): Promise<string> => {
+  const target = resolveServerPath(path);
+  try {
+    return await realpath(target);
+  } catch (_error) {
+    const parent = dirname(target);
+    return parent === target ? target : join(await realServerPath(parent), basename(target));
+  }
+};
+
+// Node's `ENOENT: no such file or directory, open '/x'`, worded like the mock
+const ERROR_MESSAGES: Record<string, string> = {
+  ENOENT: 'No such file or directory',
+  EEXIST: 'File exists',
+  EISDIR: 'Is a directory',
+  ENOTDIR: 'Not a directory',
+  ENOTEMPTY: 'Directory not empty',
+  EACCES: 'Permission denied',
+  EPERM: 'Operation not permitted',
+};
+
+export const describeSystemError = (error: unknown): string => {
+  const { code, path } = (error ?? {}) as { code?: unknown; path?: unknown };
+  const message = typeof code === 'string' ? ERROR_MESSAGES[code] : undefined;
+  if (message) {
+    return typeof path === 'string' ? `${message}: ${path}` : message;
+  }
+  return error instanceof Error ? error.message : String(error);
+};
+
+const decodeContent = (content: string, encoding?: SwiftralinoFileEncoding): Buffer =>
+  Buffer.from(content, encoding === 'base64' ? 'base64' : 'utf8');
+
+const exists = async (path: string): Promise<boolean> => {
+  try {
+    await lstat(path);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+};
+
+const entryFor = async (path: string): Promise<SwiftralinoFileEntry> => {
+  const stats = await lstat(path);
+  const name = path === '/' ? '/' : basename(path);
+  return {
+    name,
+    path,
+    type: stats.isFile()
+      ? 'file'
+      : stats.isDirectory()
+        ? 'directory'
+        : stats.isSymbolicLink()
+          ? 'symlink'
+          : 'other',
+    size: stats.size,
+    modified: stats.mtimeMs / 1000,
+    permissions: permissionString(stats.mode),
+    hidden: name.startsWith('.'),
+  };
+};
+
+const sortedNames = async (path: string): Promise<string[]> => (await readdir(path)).sort();
+
+// Shared by rename and copy, which refuse to replace `to` unless asked to
+const prepareTarget = async (from: string, to: string, overwrite: boolean): Promise<void> => {
+  await lstat(from);
+  if (isWithinPath(to, from)) {
+    throw new BackendAPIError(`Cannot move ${from} into itself`);
+  }
+  if (await exists(to)) {
+    if (!overwrite) {
+      throw new BackendAPIError(`File exists: ${to}`);
+    }
+    await rm(to, { recursive: true });
+  }
+};
+
+// Streamed, so large files are never held in memory
+const sha256File = (path: string): Promise<string> =>
+  new Promise((resolveDigest, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolveDigest(hash.digest('hex')));
+  });
+
+const watchPath = async (
+  connection: BridgeConnection,
+  root: string,
+  recursive = false,
+  glob?: string
+): Promise<string> => {
+  const isDirectory = (await stat(root)).isDirectory();
+  const watchId = randomUUID();
+  const watcher = watch(root, { recursive }, (eventType, fileName) => {
+    const path = isDirectory && fileName ? join(root, fileName.toString()) : root;
+    if (!isWatchedPath(path, root, { recursive, glob })) {
+      return;
+    }
+    // `rename` covers creation and deletion alike; the file tells which
+    const report = async () => {
+      const kind =
+        eventType === 'change' ? 'modified' : (await exists(path)) ? 'created' : 'deleted';
+      emitEvent(connection, 'fs:changed', { path, kind, watchId });
+    };
+    void report();
+  });
+  // Watched paths that go away end the watch instead of the server
+  watcher.on('error', () => {
+    watcher.close();
+    connection.watches.delete(watchId);
+  });
+  connection.watches.set(watchId, watcher);
+  return watchId;
+};
+
+export const filesystemOperations: ServerOperations['filesystem'] = {
+  readDirectory: async ({ path }) => ({ files: await sortedNames(resolveServerPath(path)) }),
+  listDirectory: async ({ path }) => {
+    const directory = resolveServerPath(path);
+    const names = await sortedNames(directory);
+    return {
+      path: directory,
+      entries: await Promise.all(names.map((name) => entryFor(join(directory, name)))),
+    };
+  },
+  readFile: async ({ path, encoding = 'utf8' }) => ({
+    content: (await readFile(resolveServerPath(path))).toString(encoding),
+    encoding,
+  }),
+  writeFile: async ({ path, content, encoding, createDirectories = false }) => {
+    const target = resolveServerPath(path);
+    if (createDirectories) {
+      await mkdir(dirname(target), { recursive: true });
+    }
+    await writeFile(target, decodeContent(content, encoding));
+    return entryFor(target);
+  },
+  appendFile: async ({ path, content, encoding }) => {
+    const target = resolveServerPath(path);
+    await appendFile(target, decodeContent(content, encoding));
+    return entryFor(target);
+  },
+  mkdir: async ({ path, recursive = false }) => {
+    const target = resolveServerPath(path);
+    // mkdir with `recursive` accepts existing directories; the protocol does not
+    if (await exists(target)) {
+      throw new BackendAPIError(`File exists: ${target}`);
+    }
+    await mkdir(target, { recursive });
+    return entryFor(target);
+  },
+  rename: async ({ from, to, overwrite = false }) => {
+    const [source, target] = [resolveServerPath(from), resolveServerPath(to)];
+    await prepareTarget(source, target, overwrite);
+    await rename(source, target);
+    return entryFor(target);
+  },
+  copy: async ({ from, to, overwrite = false }) => {
+    const [source, target] = [resolveServerPath(from), resolveServerPath(to)];
+    await prepareTarget(source, target, overwrite);
+    await cp(source, target, { recursive: true, preserveTimestamps: false });
+    return entryFor(target);
+  },
+  remove: async ({ path, recursive = false }) => {
+    const target = resolveServerPath(path);
+    if (target === '/') {
+      throw new BackendAPIError('Cannot remove /');
+    }
+    // rmdir fails on non-empty directories, which only `recursive` removes
+    if ((await lstat(target)).isDirectory() && !recursive) {
+      await rmdir(target);
+    } else {
+      await rm(target, { recursive });
+    }
+    return { success: true };
+  },
+  stat: async ({ path }) => entryFor(resolveServerPath(path)),
+  exists: async ({ path }) => ({ exists: await exists(resolveServerPath(path)) }),
+  watch: async ({ path, recursive, glob }, connection) => ({
+    watchId: await watchPath(connection, resolveServerPath(path), recursive, glob),
+  }),
+  unwatch: async ({ watchId }, connection) => {
+    const watcher = connection.watches.get(watchId);
+    watcher?.close();
+    return { success: connection.watches.delete(watchId) };
+  },
+  readChunk: async ({ path, offset, length }) => {
+    const file = await open(resolveServerPath(path), 'r');
+    try {
+      const { size } = await file.stat();
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const { bytesRead } = await file.read(buffer, 0, buffer.length, offset);
+      return {
+        content: buffer.subarray(0, bytesRead).toString('base64'),
+        size,
+        eof: offset + bytesRead >= size,
+      };
+    } finally {
+      await file.close();
+    }
+  },
+  writeChunk: async ({ path, content, offset }) => {
+    const target = resolveServerPath(path);
+    const size = (await exists(target)) ? (await stat(target)).size : 0;
+    if (offset > size) {
+      throw new BackendAPIError(`Offset ${offset} is past the end of ${target}`);
+    }
+    const chunk = Buffer.from(content, 'base64');
+    const file = await open(target, size > 0 ? 'r+' : 'w');
+    try {
+      await file.truncate(offset);
+      await file.write(chunk, 0, chunk.length, offset);
+    } finally {
+      await file.close();
+    }
+    return { size: offset + chunk.length };
+  },
+  checksum: async ({ path }) => {
+    const target = resolveServerPath(path);
+    const { size } = await stat(target);
+    return { algorithm: 'sha256', digest: await sha256File(target), size };
+  },
+};
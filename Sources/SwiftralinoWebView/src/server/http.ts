@@ -0,0 +1,57 @@
+import { readFile, stat } from 'node:fs/promises';
+import { extname, join, normalize } from 'node:path';
+
+// The plain HTTP side of the server: /health and the built frontend.
+// Adapters turn the result into their runtime's response type.
+
+export interface HttpResult {
+  status: number;
+  contentType: string;
+  body: string | Uint8Array;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+const notFound = (): HttpResult => ({
+  status: 404,
+  contentType: 'text/plain; charset=utf-8',
+  body: 'Not Found',
+});
+
+export const handleHttpRequest = async (
+  publicDir: string,
+  pathname: string
+): Promise<HttpResult> => {
+  if (pathname === '/health') {
+    return {
+      status: 200,
+      contentType: 'application/json',
+      body: JSON.stringify({ status: 'ok', timestamp: String(Date.now() / 1000) }),
+    };
+  }
+
+  try {
+    // Paths start with `/`, so normalize() leaves no `..` to climb out of publicDir
+    const relative = normalize(decodeURIComponent(pathname)).replace(/^[/\\]+/, '');
+    const path = join(publicDir, relative);
+    const file = (await stat(path)).isDirectory() ? join(path, 'index.html') : path;
+    return {
+      status: 200,
+      contentType: CONTENT_TYPES[extname(file)] ?? 'application/octet-stream',
+      body: await readFile(file),
+    };
+  } catch (_error) {
+    return notFound();
+  }
+};
@@ -0,0 +1,52 @@
+import { createServer } from 'node:http';
+import process from 'node:process';
+import { BridgeServer } from './bridge';
+import { describeGrants, isAllowedOrigin, log, readServerConfig } from './config';
+import { handleHttpRequest } from './http';
+import { acceptWebSocket } from './websocket';
+
+// `npm run dev:node`
+
+const config = readServerConfig(process.env, 'node', process.argv.slice(2));
+const bridge = new BridgeServer(config.bridge);
+
+const server = createServer((request, reply) => {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  void handleHttpRequest(config.publicDir, pathname).then(({ status, contentType, body }) => {
+    reply.writeHead(status, { 'Content-Type': contentType }).end(body);
+  });
+});
+
+server.on('upgrade', (request, socket) => {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  if (pathname !== '/bridge') {
+    socket.destroy();
+    return;
+  }
+  if (!isAllowedOrigin(request.headers.origin, request.headers.host, config.allowedOrigins)) {
+    log(`🚫 Refused WebSocket from ${request.headers.origin}`);
+    socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+    return;
+  }
+  // Frames only arrive after this handler returned, so `connection` is set by then
+  const websocket = acceptWebSocket(request, socket, {
+    onMessage: (frame) =>
+      void bridge
+        .receive(connection, frame)
+        .catch((error) => log(`❌ Bridge message failed: ${error}`)),
+    onClose: () => {
+      bridge.disconnect(connection);
+      log(`🔌 WebSocket client disconnected (total: ${bridge.connectionCount})`);
+    },
+  });
+  if (!websocket) {
+    return;
+  }
+  const connection = bridge.connect((frame) => websocket.send(frame));
+  log(`🔌 WebSocket client connected (total: ${bridge.connectionCount})`);
+});
+
+server.listen(config.port, config.host, () => {
+  log(`📡 Swiftralino bridge (node) listening on ws://${config.host}:${config.port}/bridge`);
+  log(describeGrants(config.bridge));
+});
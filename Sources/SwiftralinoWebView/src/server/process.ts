@@ -0,0 +1,69 @@
+import { type ChildProcess, spawn } from 'node:child_process';
+import process from 'node:process';
+import { BackendAPIError } from '../lib/swiftralino-backend';
+import { type ServerOperations, emitEvent } from './connection';
+import { resolveServerPath } from './filesystem';
+
+// Resolves once the command started, so unknown commands fail the call
+// instead of arriving as a late exit
+const started = (child: ChildProcess): Promise<void> =>
+  new Promise((resolve, reject) => {
+    child.once('spawn', resolve);
+    child.once('error', reject);
+  });
+
+const requireProcess = (processes: Map<string, ChildProcess>, processId: string) => {
+  const child = processes.get(processId);
+  if (!child) {
+    throw new BackendAPIError(`No such process: ${processId}`);
+  }
+  return child;
+};
+
+export const processOperations: ServerOperations['process'] = {
+  // Runs to completion and answers with everything it printed, like ProcessAPI.swift
+  execute: async ({ command, args = [] }) => {
+    const child = spawn(command, args, { cwd: resolveServerPath('~') });
+    let output = '';
+    let error = '';
+    // Decoded by the streams, so characters split across chunks stay whole
+    child.stdout?.setEncoding('utf8').on('data', (chunk: string) => (output += chunk));
+    child.stderr?.setEncoding('utf8').on('data', (chunk: string) => (error += chunk));
+    await started(child);
+    const exitCode = await new Promise<number | null>((resolve) => child.once('close', resolve));
+    return { exitCode: exitCode ?? 1, output, error };
+  },
+  spawn: async ({ processId, command, args = [], cwd = '~', env }, connection) => {
+    if (connection.processes.has(processId)) {
+      throw new BackendAPIError(`Process already exists: ${processId}`);
+    }
+    const child = spawn(command, args, {
+      cwd: resolveServerPath(cwd),
+      env: { ...process.env, ...env },
+    });
+    child.stdout
+      ?.setEncoding('utf8')
+      .on('data', (data: string) => emitEvent(connection, 'process:stdout', { processId, data }));
+    child.stderr
+      ?.setEncoding('utf8')
+      .on('data', (data: string) => emitEvent(connection, 'process:stderr', { processId, data }));
+    await started(child);
+    connection.processes.set(processId, child);
+    child.once('close', (exitCode, signal) => {
+      connection.processes.delete(processId);
+      emitEvent(connection, 'process:exit', { processId, exitCode, signal });
+    });
+    return { processId, pid: child.pid };
+  },
+  write: async ({ processId, data }, connection) => {
+    const { stdin } = requireProcess(connection.processes, processId);
+    await new Promise<void>((resolve, reject) =>
+      stdin?.write(data, (error) => (error ? reject(error) : resolve()))
+    );
+    return { success: true };
+  },
+  kill: async ({ processId, signal = 'SIGTERM' }, connection) => {
+    const child = requireProcess(connection.processes, processId);
+    return { success: child.kill(signal as NodeJS.Signals) };
+  },
+};
@@ -0,0 +1,168 @@
+import { Buffer } from 'node:buffer';
+import { createHash } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import type { Duplex } from 'node:stream';
+
+// Just enough of RFC 6455 for the bridge on node:http, which has no
+// WebSocket server: text and binary messages, fragmentation, ping and close.
+// Deno and Bun ship their own servers.
+
+export interface NodeWebSocketHandlers {
+  onMessage(text: string): void;
+  onClose(): void;
+}
+
+export interface NodeWebSocket {
+  send(text: string): void;
+  close(): void;
+}
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Chunked file transfers stay far below this
+const MAX_MESSAGE_SIZE = 64 * 1024 * 1024;
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const { length } = payload;
+  const header =
+    length < 126 ? Buffer.alloc(2) : length < 0x10000 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Answers the upgrade request; null (with the socket destroyed) if it is not a WebSocket one
+export const acceptWebSocket = (
+  request: IncomingMessage,
+  socket: Duplex,
+  handlers: NodeWebSocketHandlers
+): NodeWebSocket | null => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.destroy();
+    return null;
+  }
+  const accept = createHash('sha1')
+    .update(key + HANDSHAKE_GUID)
+    .digest('base64');
+  socket.write(
+    [
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '',
+      '',
+    ].join('\r\n')
+  );
+
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let closed = false;
+
+  const close = (code = 1000) => {
+    if (closed) {
+      return;
+    }
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.end(encodeFrame(OPCODE_CLOSE, payload));
+    handlers.onClose();
+  };
+
+  // Handles every complete frame in `buffered`, keeping a trailing partial one
+  const readFrames = () => {
+    while (buffered.length >= 2) {
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) {
+          return;
+        }
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) {
+          return;
+        }
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // Clients must mask what they send
+      if (!masked || length > MAX_MESSAGE_SIZE) {
+        close(masked ? 1009 : 1002);
+        return;
+      }
+      if (buffered.length < offset + 4 + length) {
+        return;
+      }
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+      buffered = buffered.subarray(offset + 4 + length);
+
+      switch (opcode) {
+        case OPCODE_TEXT:
+        case OPCODE_BINARY:
+        case OPCODE_CONTINUATION:
+          fragments.push(payload);
+          if (fin) {
+            const message = Buffer.concat(fragments).toString('utf8');
+            fragments = [];
+            handlers.onMessage(message);
+          }
+          break;
+        case OPCODE_CLOSE:
+          close();
+          return;
+        case OPCODE_PING:
+          socket.write(encodeFrame(OPCODE_PONG, payload));
+          break;
+        default:
+          // Pongs, and opcodes no client sends
+          break;
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    readFrames();
+  });
+  socket.on('close', () => {
+    if (!closed) {
+      closed = true;
+      handlers.onClose();
+    }
+  });
+  socket.on('error', () => socket.destroy());
+
+  return {
+    send: (text) => {
+      if (!closed) {
+        socket.write(encodeFrame(OPCODE_TEXT, Buffer.from(text, 'utf8')));
+      }
+    },
+    close: () => close(),
+  };
+};
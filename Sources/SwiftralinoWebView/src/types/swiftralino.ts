@@ -1,13 +1,43 @@
+import type {
+  APIAction,
+  APIOperation,
+  APIParams,
+  APIResponse,
+  APIResult,
+  GeneratedAPI,
+  SystemParams,
+  SystemResult,
+} from '@/lib/swiftralino-protocol';
+
 // Add interface for event data types
 export interface SwiftralinoEventData {
   connected?: undefined;
   disconnected?: undefined;
   error?: { error: unknown };
+  quality?: ConnectionQualityStats;
+  // The manifest in force, null while unknown
+  capabilities?: CapabilityManifest | null;
+  // Fetched on connect; null when the backend cannot describe itself
+  description?: BackendDescription | null;
+}
+
+export interface ConnectionQualityStats {
+  quality: 'unknown' | 'good' | 'degraded' | 'stale';
+  // Round-trip time of the last pong in ms
+  latency: number | null;
+  averageLatency: number | null;
+  missedPongs: number;
+  lastPongAt: number | null;
 }
 
 // Add interface for import.meta.env
 export interface ImportMetaEnv {
   readonly VITE_WS_URL?: string;
+  readonly VITE_SWIFTRALINO_TRANSPORT?: string;
+  // Where the bridge token is served, for hosts that do not inject it
+  readonly VITE_SWIFTRALINO_TOKEN_URL?: string;
+  // Named backends as `name=wsUrl` pairs, comma separated
+  readonly VITE_SWIFTRALINO_BACKENDS?: string;
   // Add other environment variables as needed
   [key: string]: string | undefined;
 }
@@ -17,6 +47,16 @@ export interface SwiftralinoMessage {
   type: 'system' | 'api' | 'event' | 'response' | 'error';
   action: string;
   data?: Record<string, unknown>;
+  // Added on send once the bridge handshake succeeded
+  auth?: SwiftralinoMessageAuth;
+}
+
+export interface SwiftralinoMessageAuth {
+  sessionId: string;
+  // Increases with every message, so captured frames cannot be replayed
+  seq: number;
+  // Hex HMAC-SHA256 of the message, see swiftralino-auth.ts
+  signature: string;
 }
 
 export interface SwiftralinoResponse<T = unknown> {
@@ -26,87 +66,474 @@ export interface SwiftralinoResponse<T = unknown> {
   data?: T;
 }
 
+// Unsolicited message pushed by the backend; `action` carries the topic
+export interface SwiftralinoEventMessage<T = unknown> {
+  id: string;
+  type: 'event';
+  action: string;
+  data?: T;
+}
+
+export type SwiftralinoIncomingMessage = SwiftralinoResponse | SwiftralinoEventMessage;
+
+// Payloads of known server-push topics
+export interface SwiftralinoServerEvents {
+  // `oldPath` is set for renames, `watchId` when a watch matched the change
+  'fs:changed': {
+    path: string;
+    kind: 'created' | 'modified' | 'deleted' | 'renamed';
+    oldPath?: string;
+    watchId?: string;
+  };
+  'process:stdout': { processId: string; data: string };
+  'process:stderr': { processId: string; data: string };
+  'process:exit': { processId: string } & SwiftralinoProcessExit;
+  // Also sent when an unreachable member is back
+  'cluster:member-joined': { platform: ClusterPlatform };
+  'cluster:member-left': { platformId: string };
+  'cluster:member-unreachable': { platformId: string; lastSeen: number };
+  'kv:changed': KVChange;
+}
+
+// Known topics autocomplete, any other string is accepted with an unknown payload
+export type SwiftralinoEventTopic = keyof SwiftralinoServerEvents | (string & {});
+
+export type SwiftralinoEventPayload<K extends string> = K extends keyof SwiftralinoServerEvents
+  ? SwiftralinoServerEvents[K]
+  : unknown;
+
+export type SwiftralinoEventListener<K extends string> = (
+  payload: SwiftralinoEventPayload<K>,
+  message: SwiftralinoEventMessage<SwiftralinoEventPayload<K>>
+) => void;
+
+export interface SwiftralinoRequestOptions {
+  // Aborting rejects the request and sends a cancel frame to the backend
+  signal?: AbortSignal;
+  // Overrides the configured timeout for this call, 0 disables it
+  timeout?: number;
+  // Replay after a reconnect instead of failing; defaults to the protocol definition
+  idempotent?: boolean;
+}
+
+export type SwiftralinoFileEntry = APIResult<'filesystem', 'listDirectory'>['entries'][number];
+
+// `detailed` is false when the backend only named the entries (readDirectory);
+// their type is 'other' then and the remaining metadata is made up
+export interface SwiftralinoDirectoryListing {
+  path: string;
+  entries: SwiftralinoFileEntry[];
+  detailed: boolean;
+}
+
+export type SwiftralinoFileEncoding = NonNullable<APIParams<'filesystem', 'readFile'>['encoding']>;
+
+export type PluginPermission = SystemParams<'requestPermission'>['permission'];
+
+export type CapabilityManifest = SystemResult<'capabilities'>;
+
+export type BackendDescription = SystemResult<'describe'>;
+
+export type BackendPlugin = BackendDescription['plugins'][number];
+
+// A call the manifest does not allow, as put to the user
+export interface PermissionRequest {
+  permission: PluginPermission;
+  action: string;
+  operation?: string;
+  // Set when the permission is granted but the allow-list is in the way
+  path?: string;
+  command?: string;
+}
+
+export interface SwiftralinoPermissionConfig {
+  // Applies when the backend reports no manifest; without either, calls are
+  // only checked by the backend
+  manifest?: CapabilityManifest;
+  // Asks the user about a refused call; resolving true requests the grant
+  // from the backend and retries the check
+  onRequest?: (request: PermissionRequest) => Promise<boolean>;
+}
+
+export interface SwiftralinoProcessExit {
+  exitCode: number | null;
+  signal: string | null;
+  // The connection dropped first; backends end a connection's processes with it
+  disconnected?: boolean;
+}
+
+export interface SpawnOptions {
+  cwd?: string;
+  env?: Record<string, string>;
+}
+
+// Handle to a process started with `spawn`
+export interface SwiftralinoProcess {
+  readonly processId: string;
+  readonly pid: number | undefined;
+  // Resolves once the process has exited
+  readonly exited: Promise<SwiftralinoProcessExit>;
+  onStdout(listener: (chunk: string) => void): () => void;
+  onStderr(listener: (chunk: string) => void): () => void;
+  onExit(listener: (exit: SwiftralinoProcessExit) => void): () => void;
+  write(data: string): Promise<void>;
+  kill(signal?: string): Promise<void>;
+}
+
+export type ClusterPlatform = APIResult<'distributed', 'platforms'>['platforms'][number];
+
+export type ClusterPlatformStatus = NonNullable<ClusterPlatform['status']>;
+
+// Platforms matching every given criterion; `{}` selects the whole cluster
+export interface PlatformSelector {
+  platformIds?: string[];
+  // Platforms need all of these
+  capabilities?: string[];
+  // Any of these, ignoring case, e.g. 'Linux'
+  platform?: string | string[];
+  // Platforms need all of these
+  tags?: string[];
+}
+
+export type KVKeyInfo = APIResult<'distributed', 'keys'>['keys'][number];
+
+export type KVEntry<T = unknown> = KVKeyInfo & { value: T };
+
+export interface KVChange<T = unknown> {
+  key: string;
+  reason: 'set' | 'deleted' | 'expired';
+  // Null unless the key was set
+  entry: KVEntry<T> | null;
+}
+
+export interface KVSetOptions extends SwiftralinoRequestOptions {
+  // Milliseconds until the key expires, kept forever without
+  ttl?: number;
+}
+
+export interface KVCompareAndSetResult<T = unknown> {
+  written: boolean;
+  // What the store holds now: the new entry, or the one that did not match
+  entry: KVEntry<T> | null;
+}
+
+// Typed JSON values shared by the cluster, see the `distributed` get/set/delete/keys operations
+export interface DistributedKVAPI {
+  get<T = unknown>(key: string, options?: SwiftralinoRequestOptions): Promise<KVEntry<T> | null>;
+  set<T>(key: string, value: T, options?: KVSetOptions): Promise<KVEntry<T>>;
+  // Writes only while the key is still at `expectedVersion`, 0 when it must not exist yet
+  compareAndSet<T>(
+    key: string,
+    expectedVersion: number,
+    value: T,
+    options?: KVSetOptions
+  ): Promise<KVCompareAndSetResult<T>>;
+  // Resolves false when there was nothing to delete or the version did not match
+  delete(
+    key: string,
+    options?: SwiftralinoRequestOptions & { expectedVersion?: number }
+  ): Promise<boolean>;
+  listKeys(prefix?: string, options?: SwiftralinoRequestOptions): Promise<KVKeyInfo[]>;
+  // `topic` is always 'kv:changed'
+  watchKey<T = unknown>(
+    key: string,
+    listener: (change: KVChange<T>) => void
+  ): Promise<SwiftralinoSubscription>;
+}
+
+export type DistributedTargetStatus = 'succeeded' | 'failed' | 'timed-out' | 'unreachable';
+
+export interface DistributedTargetResult {
+  platformId: string;
+  status: DistributedTargetStatus;
+  output: string;
+  // Seconds since the epoch, unset for targets that were never reached
+  timestamp?: number;
+}
+
+export interface DistributedExecuteOptions extends SwiftralinoRequestOptions {
+  // Targets still running after this many ms count as timed out (default: 30s)
+  targetTimeout?: number;
+  // Reject with PartialExecutionError unless every target succeeded
+  requireAll?: boolean;
+}
+
+export interface DistributedExecution {
+  // Selected platforms in cluster order, empty when nothing matched
+  targets: ClusterPlatform[];
+  // One per target, in the same order
+  results: DistributedTargetResult[];
+  // Every target succeeded
+  complete: boolean;
+}
+
+export type FileChangeEvent = SwiftralinoServerEvents['fs:changed'];
+
+export interface FileWatchOptions {
+  recursive?: boolean;
+  // e.g. `*.ts`, or `src/**/*.ts` relative to the watched path
+  glob?: string;
+  // Changes within this window are delivered together, one per path (default: 100ms)
+  debounce?: number;
+}
+
+// `topic` is always 'fs:changed'
+export interface SwiftralinoFileWatch extends SwiftralinoSubscription {
+  readonly path: string;
+  // Undefined until the backend registered the watch
+  readonly watchId: string | undefined;
+  onChange(listener: (events: FileChangeEvent[]) => void): () => void;
+}
+
+export interface FileTransferProgress {
+  path: string;
+  transferred: number;
+  total: number;
+}
+
+export interface FileStreamOptions extends SwiftralinoRequestOptions {
+  // Bytes per frame before base64 (default: 256 KB); timeouts apply per chunk
+  chunkSize?: number;
+  onProgress?: (progress: FileTransferProgress) => void;
+  // Compare SHA-256 checksums with the backend once done (default: true)
+  verify?: boolean;
+}
+
+export interface FileTransferResult {
+  path: string;
+  size: number;
+  // Hex SHA-256 of the bytes transferred
+  checksum: string;
+}
+
+export interface FileReadResult extends FileTransferResult {
+  bytes: Uint8Array;
+  toBlob(type?: string): Blob;
+}
+
+export interface SwiftralinoSubscription {
+  topic: string;
+  unsubscribe(): Promise<void>;
+}
+
+// Plugin APIs (see SwiftralinoAPI/PluginAPIs.swift)
+export interface ClipboardAPI {
+  writeText(
+    text: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'clipboard', 'writeText'>>;
+  readText(options?: SwiftralinoRequestOptions): Promise<APIResponse<'clipboard', 'readText'>>;
+  clear(options?: SwiftralinoRequestOptions): Promise<APIResponse<'clipboard', 'clear'>>;
+}
+
+export interface FileSystemAPI {
+  readDirectory(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'readDirectory'>>;
+  listDirectory(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'listDirectory'>>;
+  readFile(
+    path: string,
+    options?: { encoding?: SwiftralinoFileEncoding } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'readFile'>>;
+  // Byte content is sent base64 encoded
+  writeFile(
+    path: string,
+    content: string | Uint8Array,
+    options?: {
+      encoding?: SwiftralinoFileEncoding;
+      createDirectories?: boolean;
+    } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'writeFile'>>;
+  appendFile(
+    path: string,
+    content: string | Uint8Array,
+    options?: { encoding?: SwiftralinoFileEncoding } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'appendFile'>>;
+  mkdir(
+    path: string,
+    options?: { recursive?: boolean } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'mkdir'>>;
+  rename(
+    from: string,
+    to: string,
+    options?: { overwrite?: boolean } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'rename'>>;
+  copy(
+    from: string,
+    to: string,
+    options?: { overwrite?: boolean } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'copy'>>;
+  remove(
+    path: string,
+    options?: { recursive?: boolean } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'remove'>>;
+  stat(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'stat'>>;
+  exists(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'exists'>>;
+  // Chunked, binary-safe transfers for files of any size
+  readStream(path: string, options?: FileStreamOptions): Promise<FileReadResult>;
+  writeStream(
+    path: string,
+    data: Blob | Uint8Array | string,
+    options?: FileStreamOptions
+  ): Promise<FileTransferResult>;
+  watch(path: string, options?: FileWatchOptions): Promise<SwiftralinoFileWatch>;
+}
+
+export interface NotificationsAPI {
+  show(
+    notification: APIParams<'notification', 'show'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'notification', 'show'>>;
+  requestPermission(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'notification', 'requestPermission'>>;
+}
+
+export interface DialogAPI {
+  message(
+    dialog: APIParams<'dialog', 'message'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'dialog', 'message'>>;
+  confirm(
+    dialog: APIParams<'dialog', 'confirm'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'dialog', 'confirm'>>;
+  open(
+    dialog?: APIParams<'dialog', 'open'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'dialog', 'open'>>;
+  save(
+    dialog?: APIParams<'dialog', 'save'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'dialog', 'save'>>;
+}
+
+export interface ShellAPI {
+  execute(
+    command: string,
+    args?: string[],
+    options?: { workingDir?: string } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'shell', 'execute'>>;
+  open(path: string, options?: SwiftralinoRequestOptions): Promise<APIResponse<'shell', 'open'>>;
+}
+
+export interface UpdaterAPI {
+  checkForUpdate(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'updater', 'checkForUpdate'>>;
+  installUpdate(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'updater', 'installUpdate'>>;
+  getVersion(options?: SwiftralinoRequestOptions): Promise<APIResponse<'updater', 'getVersion'>>;
+}
+
+// Request and response shapes come from lib/swiftralino-protocol.ts
 export interface SwiftralinoAPI {
   // System APIs
-  ping(): Promise<SwiftralinoResponse<{ timestamp: number }>>;
-  version(): Promise<SwiftralinoResponse<{ version: string; platform: string }>>;
+  ping(options?: SwiftralinoRequestOptions): Promise<SwiftralinoResponse<SystemResult<'ping'>>>;
+  version(
+    options?: SwiftralinoRequestOptions
+  ): Promise<SwiftralinoResponse<SystemResult<'version'>>>;
 
   // File system APIs
-  readDirectory(path: string): Promise<SwiftralinoResponse<{ files: string[] }>>;
-  readFile(path: string): Promise<SwiftralinoResponse<{ content: string }>>;
+  readDirectory(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'readDirectory'>>;
+  listDirectory(
+    path: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'listDirectory'>>;
+  readFile(
+    path: string,
+    options?: { encoding?: SwiftralinoFileEncoding } & SwiftralinoRequestOptions
+  ): Promise<APIResponse<'filesystem', 'readFile'>>;
 
   // Process APIs
   execute(
     command: string,
-    args?: string[]
-  ): Promise<
-    SwiftralinoResponse<{
-      exitCode: number;
-      output: string;
-      error: string;
-    }>
-  >;
+    args?: string[],
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'process', 'execute'>>;
+  spawn(command: string, args?: string[], options?: SpawnOptions): Promise<SwiftralinoProcess>;
 
   // System info
-  getSystemInfo(): Promise<
-    SwiftralinoResponse<{
-      operatingSystem: string;
-      hostName: string;
-      processIdentifier: number;
-      uptime: number;
-    }>
-  >;
+  getSystemInfo(options?: SwiftralinoRequestOptions): Promise<APIResponse<'system', 'info'>>;
 
   // Distributed APIs
-  initializeDistributed(config?: {
-    clusterName?: string;
-    host?: string;
-    port?: number;
-  }): Promise<SwiftralinoResponse<{ status: string; clusterName: string }>>;
-
-  getConnectedPlatforms(): Promise<
-    SwiftralinoResponse<{
-      platforms: Array<{
-        id: string;
-        deviceName: string;
-        platform: string;
-        version: string;
-        capabilities: string[];
-      }>;
-    }>
-  >;
-
-  executeOnAllPlatforms(script: string): Promise<
-    SwiftralinoResponse<{
-      results: Array<{
-        platformId: string;
-        success: boolean;
-        output: string;
-        timestamp: number;
-      }>;
-    }>
-  >;
-
+  initializeDistributed(
+    config?: APIParams<'distributed', 'initialize'>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'initialize'>>;
+  getConnectedPlatforms(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'platforms'>>;
+  executeOnAllPlatforms(
+    script: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'execute'>>;
+  // Unreachable targets are reported without being sent anything
+  executeOn(
+    selector: PlatformSelector,
+    script: string,
+    options?: DistributedExecuteOptions
+  ): Promise<DistributedExecution>;
   shareDataDistributed(
     key: string,
-    data: string
-  ): Promise<SwiftralinoResponse<{ status: string; key: string }>>;
-
+    data: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'share'>>;
   retrieveDataDistributed(
-    key: string
-  ): Promise<SwiftralinoResponse<{ key: string; data: string | null }>>;
+    key: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'retrieve'>>;
+  joinCluster(
+    endpoint: string,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'join'>>;
+  getDistributedStatus(
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<'distributed', 'status'>>;
+
+  // Every filesystem operation, including the write side
+  readonly fs: FileSystemAPI;
+
+  // Key-value store of the distributed cluster
+  readonly kv: DistributedKVAPI;
 
-  joinCluster(endpoint: string): Promise<SwiftralinoResponse<{ status: string; endpoint: string }>>;
+  // Plugin APIs
+  readonly clipboard: ClipboardAPI;
+  readonly notifications: NotificationsAPI;
+  readonly dialog: DialogAPI;
+  readonly shell: ShellAPI;
+  readonly updater: UpdaterAPI;
 
-  getDistributedStatus(): Promise<
-    SwiftralinoResponse<{ initialized: boolean; [key: string]: unknown }>
-  >;
+  // Every protocol operation as `api.<action>.<operation>(params)`
+  readonly api: GeneratedAPI;
 }
 
 export interface SwiftralinoClient extends SwiftralinoAPI {
   connect(): Promise<void>;
   disconnect(): void;
   isConnected(): boolean;
+  getConnectionStats(): ConnectionQualityStats;
+  // Capability manifest fetched on connect, null when the backend has none
+  getCapabilities(): CapabilityManifest | null;
+  // Asks the backend again what it serves; null when it cannot tell
+  describe(): Promise<BackendDescription | null>;
+  getBackendDescription(): BackendDescription | null;
+  // Whether the backend serves the action (and operation); true while unknown
+  supports(action: string, operation?: string): boolean;
   addEventListener<K extends keyof SwiftralinoEventData>(
     event: K,
     callback: (data?: SwiftralinoEventData[K]) => void
@@ -115,11 +542,173 @@ export interface SwiftralinoClient extends SwiftralinoAPI {
     event: K,
     callback: (data?: SwiftralinoEventData[K]) => void
   ): void;
-  sendMessage<T = unknown>(message: SwiftralinoMessage): Promise<SwiftralinoResponse<T>>;
+  sendMessage<T = unknown>(
+    message: SwiftralinoMessage,
+    options?: SwiftralinoRequestOptions
+  ): Promise<SwiftralinoResponse<T>>;
+  call<A extends APIAction, O extends APIOperation<A>>(
+    action: A,
+    operation: O,
+    params?: APIParams<A, O>,
+    options?: SwiftralinoRequestOptions
+  ): Promise<APIResponse<A, O>>;
+  // Recorded calls, oldest first
+  getTraces(): SwiftralinoTrace[];
+  clearTraces(): void;
+  // Called with the traces whenever one is added or settles
+  onTrace(listener: (traces: SwiftralinoTrace[]) => void): () => void;
+  use(middleware: SwiftralinoMiddleware): () => void;
+  // Sends the messages in one frame; each promise settles with its own response
+  batch<T = unknown>(
+    messages: SwiftralinoMessage[],
+    options?: SwiftralinoRequestOptions
+  ): Array<Promise<SwiftralinoResponse<T>>>;
+
+  // Server-push events
+  on<K extends SwiftralinoEventTopic>(topic: K, listener: SwiftralinoEventListener<K>): () => void;
+  off<K extends SwiftralinoEventTopic>(topic: K, listener: SwiftralinoEventListener<K>): void;
+  subscribe<K extends SwiftralinoEventTopic>(
+    topic: K,
+    listener?: SwiftralinoEventListener<K>
+  ): Promise<SwiftralinoSubscription>;
+}
+
+// Frame channel the client talks through, see lib/swiftralino-transport.ts
+export interface SwiftralinoTransport {
+  // Resolves once frames can be sent, rejects when the connection fails
+  open(handlers: SwiftralinoTransportHandlers): Promise<void>;
+  send(frame: string): void;
+  close(): void;
+  isOpen(): boolean;
+}
+
+export interface SwiftralinoTransportHandlers {
+  onMessage(frame: string): void;
+  onClose(): void;
+  onError(error: unknown): void;
+}
+
+// Called for every connection attempt, so each attempt gets a fresh transport
+export type SwiftralinoTransportFactory = (config: SwiftralinoConfig) => SwiftralinoTransport;
+
+// A WebSocket class for runtimes without a global one, e.g. the `ws` package
+// on Node 20. Deno, Bun, Node 22 and browsers need none.
+export interface SwiftralinoWebSocketConstructor {
+  new (url: string): WebSocket;
+}
+
+// What the client schedules its timeouts, reconnects and heartbeats with.
+// Ids are opaque, they are only ever handed back to the clear functions.
+export interface SwiftralinoTimers {
+  setTimeout(callback: () => void, delay: number): unknown;
+  clearTimeout(id: unknown): void;
+  setInterval(callback: () => void, delay: number): unknown;
+  clearInterval(id: unknown): void;
 }
 
 export interface SwiftralinoConfig {
   wsUrl: string;
+  // 'mock' runs against the in-memory backend instead of the Swift server (default: 'websocket')
+  transport?: 'websocket' | 'mock' | SwiftralinoTransportFactory;
   reconnectAttempts: number;
+  // Initial reconnect delay in ms, doubled on every failed attempt
   reconnectDelay: number;
+  // Upper bound for the reconnect delay (default: 30000)
+  maxReconnectDelay?: number;
+  // Fraction of each delay randomly taken off, 0..1 (default: 0.5)
+  reconnectJitter?: number;
+  // Buffer calls made while reconnecting instead of failing them (default: true)
+  queueWhileDisconnected?: boolean;
+  // Maximum number of buffered calls (default: 100)
+  maxQueueSize?: number;
+  // Default request timeout in ms, 0 disables it (default: 30000)
+  requestTimeout?: number;
+  // Per-request timeout overrides keyed by `action` or `action/operation`
+  actionTimeouts?: Record<string, number>;
+  // Ping the backend periodically to detect stale links
+  heartbeat?: SwiftralinoHeartbeatConfig;
+  // Check responses against the protocol schemas (default: true)
+  validateResponses?: boolean;
+  // Local enforcement of the capability manifest
+  permissions?: SwiftralinoPermissionConfig;
+  // Authenticate the bridge before use; without it no handshake is made
+  auth?: SwiftralinoAuthConfig;
+  // Send calls made close together in one frame
+  batching?: SwiftralinoBatchingConfig;
+  // Recording of requests for the inspector
+  tracing?: SwiftralinoTracingConfig;
+  // Run around every sendMessage(), in order; more can be added with client.use()
+  middleware?: SwiftralinoMiddleware[];
+  // Used by the 'websocket' transport (default: the global WebSocket)
+  webSocket?: SwiftralinoWebSocketConstructor;
+  // (default: the global timer functions)
+  timers?: SwiftralinoTimers;
+}
+
+// A literal token, a global the host injected into the page, a URL serving
+// the token (e.g. a file written at launch), or a callback
+export type SwiftralinoTokenSource =
+  | string
+  | { global: string }
+  | { url: string }
+  | (() => string | Promise<string>);
+
+export interface SwiftralinoAuthConfig {
+  token: SwiftralinoTokenSource;
+}
+
+export interface SwiftralinoTracingConfig {
+  // Traces kept, oldest dropped first; 0 disables recording (default: 200)
+  bufferSize?: number;
+  // Payloads above this many bytes are recorded as their size only (default: 65536)
+  maxPayloadSize?: number;
+}
+
+export type SwiftralinoTraceOutcome = 'pending' | 'success' | 'error' | 'timeout' | 'aborted';
+
+// One sendMessage() call from start to outcome
+export interface SwiftralinoTrace {
+  id: string;
+  type: SwiftralinoMessage['type'];
+  action: string;
+  operation?: string;
+  // Epoch ms
+  startedAt: number;
+  // Ms until the outcome, null while pending
+  duration: number | null;
+  outcome: SwiftralinoTraceOutcome;
+  // Serialized size in bytes
+  requestSize: number;
+  responseSize: number | null;
+  // Null when larger than `maxPayloadSize`
+  request: SwiftralinoMessage | null;
+  response: SwiftralinoResponse | null;
+  error?: { name: string; code?: string; message: string };
+}
+
+export interface SwiftralinoMiddleware {
+  // May return a replacement for the outgoing message
+  onRequest?: (message: SwiftralinoMessage) => SwiftralinoMessage | void;
+  onResponse?: (response: SwiftralinoResponse, trace: SwiftralinoTrace) => void;
+  onError?: (error: Error, trace: SwiftralinoTrace) => void;
+}
+
+export interface SwiftralinoBatchingConfig {
+  // Batch every call automatically, not just client.batch() (default: false)
+  enabled?: boolean;
+  // Ms calls wait for company, 0 batches calls made in the same tick (default: 0)
+  window?: number;
+  // Messages per frame; larger batches are split (default: 50)
+  maxSize?: number;
+}
+
+export interface SwiftralinoHeartbeatConfig {
+  // Ms between pings, 0 disables the heartbeat (default: 10000)
+  interval?: number;
+  // Ms to wait for a pong before counting it as missed (default: 5000)
+  timeout?: number;
+  // Missed pongs after which the link is stale and reconnected (default: 2)
+  maxMissed?: number;
+  // Average latency in ms above which the link is degraded (default: 500)
+  degradedLatency?: number;
 }
@@ -141,6 +141,53 @@ struct SwiftralinoTests {
         }
     }
     
+    @Test("FileSystem API writes, copies, renames and removes files", .timeLimit(.minutes(1)))
+    @available(macOS 12.0, *)
+    func fileSystemAPIWriteOperations() async throws {
+        let api = FileSystemAPI()
+        let root = FileManager.default.temporaryDirectory
+            .appendingPathComponent("swiftralino-\(UUID().uuidString)").path
+        defer { try? FileManager.default.removeItem(atPath: root) }
+        
+        func call(_ operation: String, _ parameters: [String: Any]) async throws -> [String: Any] {
+            var all = parameters.mapValues { AnyCodable($0) }
+            all["operation"] = AnyCodable(operation)
+            return try await api.execute(parameters: all)
+        }
+        
+        let written = try await call("writeFile", [
+            "path": "\(root)/a.txt",
+            "content": "hello",
+            "createDirectories": true
+        ])
+        #expect(written["type"] as? String == "file")
+        #expect(written["size"] as? Int == 5)
+        
+        _ = try await call("appendFile", ["path": "\(root)/a.txt", "content": "IQ==", "encoding": "base64"])
+        let read = try await call("readFile", ["path": "\(root)/a.txt"])
+        #expect(read["content"] as? String == "hello!")
+        
+        _ = try await call("copy", ["from": "\(root)/a.txt", "to": "\(root)/b.txt"])
+        await #expect(throws: APIError.self) {
+            try await call("rename", ["from": "\(root)/b.txt", "to": "\(root)/a.txt"])
+        }
+        _ = try await call("rename", ["from": "\(root)/b.txt", "to": "\(root)/c.txt"])
+        
+        let directory = try await call("mkdir", ["path": "\(root)/nested/dir", "recursive": true])
+        #expect(directory["type"] as? String == "directory")
+        await #expect(throws: APIError.self) {
+            try await call("remove", ["path": "\(root)/nested"])
+        }
+        _ = try await call("remove", ["path": "\(root)/nested", "recursive": true])
+        
+        let exists = try await call("exists", ["path": "\(root)/c.txt"])
+        #expect(exists["exists"] as? Bool == true)
+        let missing = try await call("exists", ["path": "\(root)/b.txt"])
+        #expect(missing["exists"] as? Bool == false)
+        let stat = try await call("stat", ["path": "\(root)/c.txt"])
+        #expect(stat["permissions"] as? String != nil)
+    }
+    
     @Test("System API returns system information")
     @available(macOS 12.0, *)
     func systemAPIExecution() async throws {